@@ -0,0 +1,15 @@
+import { defineConfig } from '@vscode/test-cli';
+
+export default defineConfig({
+	files: 'out/test/**/*.test.js',
+	workspaceFolder: './test-fixtures/workspace',
+	launchArgs: ['--disable-extensions'],
+	env: {
+		// Run against the in-memory backend instead of the native SDK
+		BITWARDEN_SECRETS_EXPLORER_BACKEND: 'memory'
+	},
+	mocha: {
+		ui: 'tdd',
+		timeout: 20000
+	}
+});
@@ -1,13 +1,15 @@
 import * as vscode from 'vscode';
 import { BitwardenSecretsProvider } from '../ui/treeProvider';
+import { ProfileService } from '../services/ProfileService';
+import { redactionService } from '../services/RedactionService';
 
 export async function setAccessTokenCommand(
-  context: vscode.ExtensionContext,
   provider: BitwardenSecretsProvider
 ): Promise<void> {
+  const profile = provider.profiles.getActiveProfile();
   
   const accessToken = await vscode.window.showInputBox({
-    prompt: 'Enter your Bitwarden Access Token',
+    prompt: `Enter your Bitwarden Access Token for profile "${profile.name}"`,
     password: true,
     placeHolder: 'Access token from Bitwarden Secrets Manager',
     validateInput: (value) => {
@@ -20,22 +22,22 @@ export async function setAccessTokenCommand(
   
   if (accessToken) {
     try {
-      await context.secrets.store('bitwardenAccessToken', accessToken.trim());
-      await provider.sdkService.authenticate(accessToken.trim());
+      await provider.profiles.setAccessToken(accessToken.trim(), profile.id);
+      await provider.profiles.getBackend(profile.id).authenticate(accessToken.trim());
       provider.refresh();
     } catch (error) {
-      vscode.window.showErrorMessage(`Failed to authenticate with provided token: ${error}`);
-      await context.secrets.delete('bitwardenAccessToken');
+      vscode.window.showErrorMessage(redactionService.redact(`Failed to authenticate with provided token: ${error}`));
+      await provider.profiles.deleteAccessToken(profile.id);
     }
   }
 }
 
 export async function clearTokensCommand(
-  context: vscode.ExtensionContext
+  profiles: ProfileService
 ): Promise<void> {
   
   const confirmation = await vscode.window.showWarningMessage(
-    'Are you sure you want to clear all stored Bitwarden tokens? This will log you out.',
+    'Are you sure you want to clear all stored Bitwarden tokens for every profile? This will log you out.',
     { modal: true },
     'Yes, Clear Tokens',
     'Cancel'
@@ -43,23 +45,22 @@ export async function clearTokensCommand(
   
   if (confirmation === 'Yes, Clear Tokens') {
     try {
-      await context.secrets.delete('bitwardenAccessToken');
-      await context.secrets.delete('bitwardenOrganizationId');
+      await profiles.clearAllCredentials();
       vscode.window.showInformationMessage('Bitwarden tokens cleared successfully. You will need to re-authenticate.');
       vscode.commands.executeCommand('setContext', 'bitwarden.hasData', false);
     } catch (error) {
-      vscode.window.showErrorMessage(`Failed to clear tokens: ${error}`);
+      vscode.window.showErrorMessage(redactionService.redact(`Failed to clear tokens: ${error}`));
     }
   }
 }
 
 export async function setOrganizationIdCommand(
-  context: vscode.ExtensionContext,
   provider: BitwardenSecretsProvider
 ): Promise<void> {
+  const profile = provider.profiles.getActiveProfile();
   
   const organizationId = await vscode.window.showInputBox({
-    prompt: 'Enter your Bitwarden Organization ID',
+    prompt: `Enter your Bitwarden Organization ID for profile "${profile.name}"`,
     placeHolder: 'Organization ID from Bitwarden',
     validateInput: (value) => {
       if (!value || value.trim().length === 0) {
@@ -72,12 +73,12 @@ export async function setOrganizationIdCommand(
   if (organizationId) {
     try {
       const trimmedOrgId = organizationId.trim();
-      await context.secrets.store('bitwardenOrganizationId', trimmedOrgId);
-      provider.sdkService.setOrganizationId(trimmedOrgId);
+      await provider.profiles.setOrganizationId(trimmedOrgId, profile.id);
+      provider.profiles.getBackend(profile.id).setOrganizationId(trimmedOrgId);
       provider.refresh();
     } catch (error) {
-      vscode.window.showErrorMessage(`Failed to set organization ID: ${error}`);
-      await context.secrets.delete('bitwardenOrganizationId');
+      vscode.window.showErrorMessage(redactionService.redact(`Failed to set organization ID: ${error}`));
+      await provider.profiles.deleteOrganizationId(profile.id);
     }
   }
 }
\ No newline at end of file
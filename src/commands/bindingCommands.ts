@@ -0,0 +1,179 @@
+import * as vscode from 'vscode';
+import { BindingService, PushPlan, ResolvedBinding } from '../services/BindingService';
+import { EnvDocumentService } from '../services/EnvDocumentService';
+import { redactionService } from '../services/RedactionService';
+import { BINDING_FILE_PATH } from '../utils/bindings';
+
+const BINDING_TEMPLATE = `{
+  "bindings": [
+    {
+      "project": "my-project",
+      "folder": ".",
+      "envFile": ".env"
+    }
+  ]
+}
+`;
+
+/**
+ * Command handler for writing the secrets of every bound project into its env file
+ */
+export async function pullBoundSecretsCommand(bindings: BindingService): Promise<void> {
+  const resolved = await loadBindingsOrReport(bindings);
+  if (!resolved) {
+    return;
+  }
+
+  const failures: string[] = [];
+  const skipped: string[] = [];
+  let added = 0;
+  let updated = 0;
+  let files = 0;
+
+  await vscode.window.withProgress({
+    location: vscode.ProgressLocation.Notification,
+    title: 'Pulling bound secrets',
+    cancellable: false
+  }, async (progress) => {
+    for (const binding of resolved) {
+      const target = vscode.workspace.asRelativePath(binding.envFile);
+      progress.report({ message: target, increment: 100 / resolved.length });
+      try {
+        const result = await bindings.pull(binding);
+        added += result.added;
+        updated += result.updated;
+        skipped.push(...result.skipped.map(key => `${key} (${target})`));
+        files++;
+      } catch (error) {
+        failures.push(`${target} (${binding.binding.project}): ${error instanceof Error ? error.message : error}`);
+      }
+    }
+  });
+
+  if (files > 0) {
+    vscode.window.showInformationMessage(`Pulled secrets into ${files} env files: ${added} new, ${updated} updated`);
+  }
+  if (skipped.length > 0) {
+    vscode.window.showWarningMessage(`${skipped.length} secrets were left out, as they are not valid .env keys: ${skipped.join(', ')}`);
+  }
+  if (failures.length > 0) {
+    vscode.window.showErrorMessage(redactionService.redact(`Failed to pull bound secrets: ${failures.join('; ')}`));
+  }
+}
+
+/**
+ * Command handler for uploading new and changed values of every bound env file
+ * to its project, after confirmation
+ */
+export async function pushBoundSecretsCommand(bindings: BindingService): Promise<boolean> {
+  const resolved = await loadBindingsOrReport(bindings);
+  if (!resolved) {
+    return false;
+  }
+
+  const plans: PushPlan[] = [];
+  const failures: string[] = [];
+  for (const binding of resolved) {
+    try {
+      plans.push(await bindings.planPush(binding));
+    } catch (error) {
+      failures.push(describeFailure(binding, error));
+    }
+  }
+
+  const pending = plans.filter(plan => EnvDocumentService.countChanges(plan.changes) > 0);
+  if (pending.length === 0) {
+    if (failures.length > 0) {
+      vscode.window.showErrorMessage(redactionService.redact(`Failed to push bound secrets: ${failures.join('; ')}`));
+    } else {
+      vscode.window.showInformationMessage('Bound env files match Bitwarden; nothing to push');
+    }
+    return false;
+  }
+
+  const total = pending.reduce((sum, plan) => sum + EnvDocumentService.countChanges(plan.changes), 0);
+  const detail = pending.flatMap(plan => [
+    `${vscode.workspace.asRelativePath(plan.resolved.envFile)} → ${plan.project.name}`,
+    ...EnvDocumentService.describe(plan.changes).map(line => `  ${line}`)
+  ]).join('\n');
+  const confirm = await vscode.window.showWarningMessage(
+    `Push ${total} changes to Bitwarden?`,
+    { modal: true, detail },
+    'Push Changes'
+  );
+  if (confirm !== 'Push Changes') {
+    return false;
+  }
+
+  let pushed = 0;
+  await vscode.window.withProgress({
+    location: vscode.ProgressLocation.Notification,
+    title: 'Pushing bound secrets',
+    cancellable: false
+  }, async () => {
+    for (const plan of pending) {
+      try {
+        await bindings.applyPush(plan);
+        pushed++;
+      } catch (error) {
+        failures.push(describeFailure(plan.resolved, error));
+      }
+    }
+  });
+
+  if (pushed > 0) {
+    vscode.window.showInformationMessage(`Pushed ${pushed} env files to Bitwarden`);
+  }
+  if (failures.length > 0) {
+    vscode.window.showErrorMessage(redactionService.redact(`Failed to push bound secrets: ${failures.join('; ')}`));
+  }
+  return pushed > 0;
+}
+
+/**
+ * Load the bindings, reporting invalid binding files and offering to create
+ * one when the workspace has none. Undefined when there is nothing to sync.
+ */
+async function loadBindingsOrReport(bindings: BindingService): Promise<ResolvedBinding[] | undefined> {
+  const { bindings: resolved, errors, files } = await bindings.loadBindings();
+
+  if (errors.length > 0) {
+    vscode.window.showErrorMessage(redactionService.redact(`Invalid binding file: ${errors.join('; ')}`));
+    return undefined;
+  }
+
+  if (files === 0) {
+    const choice = await vscode.window.showInformationMessage(
+      `No ${BINDING_FILE_PATH} found in the workspace`,
+      'Create Binding File'
+    );
+    if (choice === 'Create Binding File') {
+      await createBindingFile();
+    }
+    return undefined;
+  }
+
+  if (resolved.length === 0) {
+    vscode.window.showInformationMessage(`${BINDING_FILE_PATH} has no bindings`);
+    return undefined;
+  }
+
+  return resolved;
+}
+
+async function createBindingFile(): Promise<void> {
+  const folder = vscode.workspace.workspaceFolders?.length === 1
+    ? vscode.workspace.workspaceFolders[0]
+    : await vscode.window.showWorkspaceFolderPick({ placeHolder: 'Select the workspace folder for the binding file' });
+  if (!folder) {
+    return;
+  }
+
+  const uri = BindingService.bindingFileUri(folder);
+  await vscode.workspace.fs.writeFile(uri, Buffer.from(BINDING_TEMPLATE, 'utf8'));
+  await vscode.window.showTextDocument(uri);
+}
+
+function describeFailure(binding: ResolvedBinding, error: unknown): string {
+  return `${vscode.workspace.asRelativePath(binding.envFile)} (${binding.binding.project}): ${error instanceof Error ? error.message : error}`;
+}
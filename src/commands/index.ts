@@ -3,5 +3,8 @@
  */
 
 export * from './authCommands';
+export * from './bindingCommands';
+export * from './profileCommands';
 export * from './projectCommands';
-export * from './secretCommands';
\ No newline at end of file
+export * from './secretCommands';
+export * from './serverCommands';
\ No newline at end of file
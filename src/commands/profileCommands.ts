@@ -0,0 +1,233 @@
+import * as vscode from 'vscode';
+import { ProfileService } from '../services/ProfileService';
+import { SERVER_PRESETS, ServerConfigService } from '../services/ServerConfigService';
+import { redactionService } from '../services/RedactionService';
+import { ConnectionProfile, ServerSettings } from '../types';
+import { promptForCustomServer } from './serverCommands';
+
+interface ProfileQuickPickItem extends vscode.QuickPickItem {
+  profile?: ConnectionProfile;
+}
+
+/**
+ * Command handler for switching the active connection profile
+ */
+export async function switchProfileCommand(
+  profiles: ProfileService
+): Promise<void> {
+  const active = profiles.getActiveProfile();
+
+  const items: ProfileQuickPickItem[] = profiles.getProfiles().map(profile => ({
+    label: profile.id === active.id ? `$(check) ${profile.name}` : profile.name,
+    description: ServerConfigService.describe(profiles.getServerSettings(profile.id)),
+    profile
+  }));
+  items.push({ label: '$(add) Add Profile...' });
+
+  const selected = await vscode.window.showQuickPick(items, {
+    placeHolder: `Switch Bitwarden profile (current: ${active.name})`
+  });
+
+  if (!selected) {
+    return;
+  }
+
+  if (!selected.profile) {
+    await addProfileCommand(profiles);
+    return;
+  }
+
+  await profiles.setActiveProfile(selected.profile.id);
+}
+
+/**
+ * Command handler for adding a new connection profile
+ */
+export async function addProfileCommand(
+  profiles: ProfileService
+): Promise<void> {
+  const name = await vscode.window.showInputBox({
+    prompt: 'Enter a name for the new profile',
+    placeHolder: 'Production',
+    validateInput: (value) => validateProfileName(profiles, value)
+  });
+
+  if (!name) {
+    return;
+  }
+
+  const server = await pickProfileServer();
+  if (server === undefined) {
+    return;
+  }
+
+  const accessToken = await vscode.window.showInputBox({
+    prompt: `Enter the Bitwarden Access Token for profile "${name.trim()}"`,
+    password: true,
+    placeHolder: 'Access token from Bitwarden Secrets Manager',
+    ignoreFocusOut: true,
+    validateInput: (value) => {
+      if (!value || value.trim().length === 0) {
+        return 'Access token cannot be empty';
+      }
+      return null;
+    }
+  });
+
+  if (!accessToken) {
+    return;
+  }
+
+  const organizationId = await vscode.window.showInputBox({
+    prompt: `Enter the Bitwarden Organization ID for profile "${name.trim()}"`,
+    placeHolder: 'Organization ID from Bitwarden',
+    ignoreFocusOut: true,
+    validateInput: (value) => {
+      if (!value || value.trim().length === 0) {
+        return 'Organization ID cannot be empty';
+      }
+      return null;
+    }
+  });
+
+  if (!organizationId) {
+    return;
+  }
+
+  try {
+    const profile = await profiles.addProfile(name, server ?? undefined);
+    await profiles.setAccessToken(accessToken.trim(), profile.id);
+    await profiles.setOrganizationId(organizationId.trim(), profile.id);
+    await profiles.setActiveProfile(profile.id);
+    vscode.window.showInformationMessage(`Profile "${profile.name}" added and activated`);
+  } catch (error) {
+    vscode.window.showErrorMessage(redactionService.redact(`Failed to add profile: ${error}`));
+  }
+}
+
+/**
+ * Command handler for renaming a connection profile
+ */
+export async function renameProfileCommand(
+  profiles: ProfileService
+): Promise<void> {
+  const profile = await pickProfile(profiles, 'Select profile to rename');
+  if (!profile) {
+    return;
+  }
+
+  const newName = await vscode.window.showInputBox({
+    prompt: 'Enter new profile name',
+    value: profile.name,
+    validateInput: (value) => validateProfileName(profiles, value, profile.id)
+  });
+
+  if (newName && newName.trim() !== profile.name) {
+    try {
+      await profiles.renameProfile(profile.id, newName);
+      vscode.window.showInformationMessage(`Profile renamed to "${newName.trim()}"`);
+    } catch (error) {
+      vscode.window.showErrorMessage(redactionService.redact(`Failed to rename profile: ${error}`));
+    }
+  }
+}
+
+/**
+ * Command handler for removing a connection profile and its stored credentials
+ */
+export async function removeProfileCommand(
+  profiles: ProfileService
+): Promise<void> {
+  if (profiles.getProfiles().length === 1) {
+    vscode.window.showInformationMessage('The only profile cannot be removed. Use "Bitwarden: Clear Tokens" to remove its credentials.');
+    return;
+  }
+
+  const profile = await pickProfile(profiles, 'Select profile to remove');
+  if (!profile) {
+    return;
+  }
+
+  const confirmation = await vscode.window.showWarningMessage(
+    `Are you sure you want to remove the profile "${profile.name}"? Its stored access token and organization ID will be deleted.`,
+    { modal: true },
+    'Remove'
+  );
+
+  if (confirmation === 'Remove') {
+    try {
+      await profiles.removeProfile(profile.id);
+      vscode.window.showInformationMessage(`Profile "${profile.name}" removed`);
+    } catch (error) {
+      vscode.window.showErrorMessage(redactionService.redact(`Failed to remove profile: ${error}`));
+    }
+  }
+}
+
+async function pickProfile(
+  profiles: ProfileService,
+  placeHolder: string
+): Promise<ConnectionProfile | undefined> {
+  const items: ProfileQuickPickItem[] = profiles.getProfiles().map(profile => ({
+    label: profile.name,
+    description: ServerConfigService.describe(profiles.getServerSettings(profile.id)),
+    profile
+  }));
+
+  const selected = await vscode.window.showQuickPick(items, { placeHolder });
+  return selected?.profile;
+}
+
+/**
+ * Choose the server for a new profile. Returns null to follow the configured
+ * server and undefined when cancelled.
+ */
+async function pickProfileServer(): Promise<ServerSettings | null | undefined> {
+  const items: (vscode.QuickPickItem & { server: 'default' | 'us' | 'eu' | 'custom' })[] = [
+    {
+      label: 'Use configured server',
+      description: ServerConfigService.describe(),
+      server: 'default'
+    },
+    { label: SERVER_PRESETS.us.label, server: 'us' },
+    { label: SERVER_PRESETS.eu.label, server: 'eu' },
+    { label: 'Self-hosted / Custom', server: 'custom' }
+  ];
+
+  const selected = await vscode.window.showQuickPick(items, {
+    placeHolder: 'Select the server for this profile'
+  });
+
+  if (!selected) {
+    return undefined;
+  }
+
+  switch (selected.server) {
+    case 'default':
+      return null;
+    case 'us':
+    case 'eu': {
+      const { apiUrl, identityUrl } = SERVER_PRESETS[selected.server];
+      return { apiUrl, identityUrl };
+    }
+    case 'custom':
+      return promptForCustomServer();
+  }
+}
+
+function validateProfileName(
+  profiles: ProfileService,
+  value: string,
+  excludeProfileId?: string
+): string | null {
+  if (!value || value.trim().length === 0) {
+    return 'Profile name cannot be empty';
+  }
+  if (value.length > 50) {
+    return 'Profile name cannot exceed 50 characters';
+  }
+  if (profiles.isNameTaken(value, excludeProfileId)) {
+    return 'A profile with this name already exists';
+  }
+  return null;
+}
@@ -1,14 +1,19 @@
 import * as vscode from 'vscode';
+import { redactionService } from '../services/RedactionService';
 import { BitwardenSecretsProvider, BitwardenSecretItem } from '../ui/treeProvider';
 
 /**
  * Command handler for creating a new project
  */
 export async function createProjectCommand(
-  provider: BitwardenSecretsProvider
+  provider: BitwardenSecretsProvider,
+  item?: BitwardenSecretItem
 ): Promise<void> {
+  // Invoked on an organization node, the project is created in that organization
+  const organization = item?.type === 'organization' ? item : undefined;
+
   const projectName = await vscode.window.showInputBox({
-    prompt: 'Enter project name',
+    prompt: organization ? `Enter project name for "${organization.label}"` : 'Enter project name',
     placeHolder: 'My Project',
     validateInput: (value) => {
       if (!value || value.trim().length === 0) {
@@ -23,11 +28,11 @@ export async function createProjectCommand(
   
   if (projectName) {
     try {
-      await provider.sdkService.createProject(projectName.trim());
+      await provider.backendFor(organization).createProject(projectName.trim());
       vscode.window.showInformationMessage(`Project "${projectName}" created successfully`);
-      provider.refresh();
+      provider.refresh(organization);
     } catch (error) {
-      vscode.window.showErrorMessage(`Failed to create project: ${error}`);
+      vscode.window.showErrorMessage(redactionService.redact(`Failed to create project: ${error}`));
     }
   }
 }
@@ -56,11 +61,11 @@ export async function editProjectCommand(
     
     if (newName && newName.trim() !== item.label) {
       try {
-        await provider.sdkService.updateProject(item.id, newName.trim());
+        await provider.backendFor(item).updateProject(item.id, newName.trim());
         vscode.window.showInformationMessage(`Project renamed to "${newName}"`);
         provider.refresh();
       } catch (error) {
-        vscode.window.showErrorMessage(`Failed to update project: ${error}`);
+        vscode.window.showErrorMessage(redactionService.redact(`Failed to update project: ${error}`));
       }
     }
   }
@@ -82,11 +87,11 @@ export async function deleteProjectCommand(
     
     if (confirmation === 'Delete') {
       try {
-        await provider.sdkService.deleteProject(item.id);
+        await provider.backendFor(item).deleteProject(item.id);
         vscode.window.showInformationMessage(`Project "${item.label}" deleted successfully`);
         provider.refresh();
       } catch (error) {
-        vscode.window.showErrorMessage(`Failed to delete project: ${error}`);
+        vscode.window.showErrorMessage(redactionService.redact(`Failed to delete project: ${error}`));
       }
     }
   }
@@ -102,4 +107,29 @@ export async function copyProjectIdCommand(
     await vscode.env.clipboard.writeText(item.id);
     vscode.window.showInformationMessage(`Project ID "${item.id}" copied to clipboard`);
   }
+}
+
+/**
+ * Command handler for copying organization ID
+ */
+export async function copyOrganizationIdCommand(
+  item: BitwardenSecretItem
+): Promise<void> {
+  if (item.type === 'organization' && item.id) {
+    await vscode.env.clipboard.writeText(item.id);
+    vscode.window.showInformationMessage(`Organization ID "${item.id}" copied to clipboard`);
+  }
+}
+
+/**
+ * Command handler for refreshing a single organization
+ */
+export function refreshOrganizationCommand(
+  provider: BitwardenSecretsProvider,
+  item: BitwardenSecretItem
+): void {
+  if (item.type === 'organization') {
+    provider.profiles.invalidateCaches(item.profileId);
+    provider.refresh(item);
+  }
 }
\ No newline at end of file
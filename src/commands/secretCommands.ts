@@ -1,7 +1,19 @@
 import * as vscode from 'vscode';
 import { BitwardenSecretsProvider, BitwardenSecretItem } from '../ui/treeProvider';
-import { openSecretEditor, openNewSecretEditor } from '../ui/webviewEditors';
-import { getEnvVarCommand, getEnvCheckInstructions, getClearCommand } from '../utils/terminalUtils';
+import { openSecretEditor, openNewSecretEditor, openImportPreview } from '../ui/webviewEditors';
+import { parseEnvFile, updateDotenv, describeDiagnostics, isValidEnvKey } from '../utils/envFile';
+import { BitwardenFileSystemProvider } from '../fileSystemProvider';
+import { SecretsBackend } from '../services/SecretsBackend';
+import { ImportPreviewService } from '../services/ImportPreviewService';
+import { FileDiscoveryService } from '../services/FileDiscoveryService';
+import { ProfileService } from '../services/ProfileService';
+import { TerminalSecretsService } from '../services/TerminalSecretsService';
+import { SecretEnvironmentService } from '../services/SecretEnvironmentService';
+import { redactionService } from '../services/RedactionService';
+import { EnvCompareProvider } from '../ui/envCompareProvider';
+import { SecretCommandTerminal } from '../ui/secretCommandTerminal';
+import { exporterRegistry, importerRegistry, DEFAULT_FLATTEN_SEPARATOR, ExportContext, SecretExporter, SkippedSecret } from '../formats';
+import { Secret } from '../types';
 
 /**
  * Command handler for editing a secret
@@ -23,7 +35,49 @@ export async function createSecretCommand(
   item: BitwardenSecretItem
 ): Promise<void> {
   if (item.type === 'project' && item.id) {
-    await openNewSecretEditor(context, provider, item.id);
+    await openNewSecretEditor(context, provider, item.id, item.profileId);
+  }
+}
+
+/**
+ * Command handler for opening a secret in a text editor, either its value or
+ * its JSON document
+ */
+export async function openSecretDocumentCommand(
+  provider: BitwardenSecretsProvider,
+  item: BitwardenSecretItem,
+  format: 'value' | 'json' = 'value'
+): Promise<void> {
+  if (item.type === 'secret' && item.projectId) {
+    try {
+      const projects = await provider.backendFor(item).listProjects();
+      const project = projects.find(p => p.id === item.projectId);
+      if (!project) {
+        vscode.window.showErrorMessage(`Project ${item.projectId} not found`);
+        return;
+      }
+
+      const uri = BitwardenFileSystemProvider.uriFor(project, { id: item.id, key: item.label }, format, item.profileId);
+      await vscode.window.showTextDocument(uri, { preview: false });
+    } catch (error) {
+      vscode.window.showErrorMessage(redactionService.redact(`Failed to open secret: ${error}`));
+    }
+  }
+}
+
+/**
+ * Command handler for opening all secrets of a project as an editable `.env` document
+ */
+export async function openProjectEnvDocumentCommand(
+  item: BitwardenSecretItem
+): Promise<void> {
+  if (item.type === 'project' && item.id) {
+    try {
+      const uri = BitwardenFileSystemProvider.envUriFor({ id: item.id, name: item.label }, item.profileId);
+      await vscode.window.showTextDocument(uri, { preview: false });
+    } catch (error) {
+      vscode.window.showErrorMessage(redactionService.redact(`Failed to open project secrets: ${error}`));
+    }
   }
 }
 
@@ -35,7 +89,7 @@ export async function copySecretCommand(
   item: BitwardenSecretItem
 ): Promise<void> {
   if (item.type === 'secret' && item.id) {
-    const secretValue = await provider.getSecretValue(item.id, '');
+    const secretValue = await provider.getSecretValue(item.id, '', item.profileId);
     if (secretValue) {
       const keyValuePair = `${item.label}=${secretValue}`;
       await vscode.env.clipboard.writeText(keyValuePair);
@@ -59,11 +113,11 @@ export async function deleteSecretCommand(
     
     if (confirmation === 'Delete') {
       try {
-        await provider.sdkService.deleteSecret(item.id);
+        await provider.backendFor(item).deleteSecret(item.id);
         vscode.window.showInformationMessage(`Secret "${item.label}" deleted successfully`);
         provider.refresh();
       } catch (error) {
-        vscode.window.showErrorMessage(`Failed to delete secret: ${error}`);
+        vscode.window.showErrorMessage(redactionService.redact(`Failed to delete secret: ${error}`));
       }
     }
   }
@@ -74,29 +128,20 @@ export async function deleteSecretCommand(
  */
 export async function loadSecretToEnvCommand(
   provider: BitwardenSecretsProvider,
+  terminalSecrets: TerminalSecretsService,
   item: BitwardenSecretItem
 ): Promise<void> {
   if (item.type === 'secret' && item.id) {
-    const secretValue = await provider.getSecretValue(item.id, '');
-    if (secretValue) {
-      const command = getEnvVarCommand(item.label, secretValue);
-      
-      // Get or create a terminal
-      let terminal = vscode.window.activeTerminal;
-      if (!terminal) {
-        terminal = vscode.window.createTerminal('Bitwarden Secrets');
+    try {
+      const secretValue = await provider.getSecretValue(item.id, '', item.profileId);
+      if (secretValue) {
+        const destination = await injectIntoTerminal(terminalSecrets, item.label, { [item.label]: secretValue });
+
+        // Show success message without revealing the secret
+        vscode.window.showInformationMessage(`Environment variable '${item.label}' has been set ${destination}`);
       }
-      
-      // Execute the command silently
-      terminal.sendText(command);
-      
-      // Clear the terminal to hide the command
-      terminal.sendText(getClearCommand());
-      
-      // Show success message without revealing the secret
-      vscode.window.showInformationMessage(
-        `Environment variable '${item.label}' has been set in the terminal`
-      );
+    } catch (error) {
+      vscode.window.showErrorMessage(redactionService.redact(`Failed to load secret: ${error}`));
     }
   }
 }
@@ -106,89 +151,160 @@ export async function loadSecretToEnvCommand(
  */
 export async function loadProjectSecretsToEnvCommand(
   provider: BitwardenSecretsProvider,
+  terminalSecrets: TerminalSecretsService,
   item: BitwardenSecretItem
 ): Promise<void> {
   if (item.type === 'project' && item.id) {
     try {
-      const secrets = await provider.getSecretsForProject(item.id, '');
+      const secrets = await provider.getProjectSecrets(item.id, item.profileId);
       
       if (secrets.length === 0) {
         vscode.window.showInformationMessage('No secrets found in this project');
         return;
       }
       
-      const commands: string[] = [];
-      const secretNames: string[] = [];
-      
+      const values: { [key: string]: string } = {};
       for (const secret of secrets) {
-        if (secret.type === 'secret' && secret.id) {
-          const secretValue = await provider.getSecretValue(secret.id, '');
-          if (secretValue) {
-            commands.push(getEnvVarCommand(secret.label, secretValue));
-            secretNames.push(secret.label);
-          }
+        if (secret.value) {
+          values[secret.key] = secret.value;
         }
       }
       
-      if (commands.length > 0) {
-        // Get or create a terminal
-        let terminal = vscode.window.activeTerminal;
-        if (!terminal) {
-          terminal = vscode.window.createTerminal('Bitwarden Secrets');
-        }
-        
-        // Execute all commands silently
-        for (const command of commands) {
-          terminal.sendText(command);
-        }
-        
-        // Clear the terminal to hide the commands
-        terminal.sendText(getClearCommand());
+      const secretNames = Object.keys(values);
+      if (secretNames.length > 0) {
+        const destination = await injectIntoTerminal(terminalSecrets, item.label, values);
         
         // Show success message without revealing the secrets
         vscode.window.showInformationMessage(
-          `${commands.length} environment variables have been set in the terminal: ${secretNames.join(', ')}`
+          `${secretNames.length} environment variables have been set ${destination}: ${secretNames.join(', ')}`
         );
       }
     } catch (error) {
-      vscode.window.showErrorMessage(`Failed to load project secrets: ${error}`);
+      vscode.window.showErrorMessage(redactionService.redact(`Failed to load project secrets: ${error}`));
+    }
+  }
+}
+
+const COMMAND_HISTORY_KEY = 'bitwardenSecretsExplorer.commandHistory';
+const COMMAND_PROJECTS_KEY = 'bitwardenSecretsExplorer.commandProjects';
+const COMMAND_HISTORY_LIMIT = 20;
+
+/**
+ * Command handler for running a shell command in its own terminal with project
+ * secrets in the environment of its process, masked in its output
+ */
+export async function runCommandWithSecretsCommand(
+  context: vscode.ExtensionContext,
+  profiles: ProfileService,
+  secretEnvironment: SecretEnvironmentService
+): Promise<void> {
+  try {
+    const history = context.workspaceState.get<string[]>(COMMAND_HISTORY_KEY, []);
+    const commandLine = await promptCommandLine(history);
+    if (!commandLine) {
+      return;
     }
+
+    const backend = await profiles.getAuthenticatedBackend();
+    const projects = await backend.listProjects();
+    if (projects.length === 0) {
+      vscode.window.showInformationMessage('No projects found');
+      return;
+    }
+    const lastProjects = context.workspaceState.get<string[]>(COMMAND_PROJECTS_KEY, []);
+    const picked = await vscode.window.showQuickPick(
+      [...projects]
+        .sort((a, b) => a.name.localeCompare(b.name))
+        .map(project => ({ label: project.name, project, picked: lastProjects.includes(project.id) })),
+      { canPickMany: true, placeHolder: 'Select the projects whose secrets the command gets' }
+    );
+    if (!picked || picked.length === 0) {
+      return;
+    }
+
+    const projectIds = picked.map(item => item.project.id);
+    await context.workspaceState.update(COMMAND_PROJECTS_KEY, projectIds);
+    await context.workspaceState.update(
+      COMMAND_HISTORY_KEY,
+      [commandLine, ...history.filter(entry => entry !== commandLine)].slice(0, COMMAND_HISTORY_LIMIT)
+    );
+
+    const secrets = await secretEnvironment.resolve({ projects: projectIds });
+    const cwd = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+    const terminal = vscode.window.createTerminal({
+      name: `Bitwarden: ${commandLine}`,
+      pty: new SecretCommandTerminal(commandLine, secrets, cwd)
+    });
+    terminal.show();
+  } catch (error) {
+    vscode.window.showErrorMessage(redactionService.redact(`Failed to run command with secrets: ${error}`));
   }
 }
 
 /**
- * Parse existing .env file content into key-value pairs
+ * Ask for a command line, offering earlier ones to run again or edit
  */
-function parseEnvFile(content: string): { [key: string]: string } {
-  const result: { [key: string]: string } = {};
-  const lines = content.split('\n');
-  
-  for (const line of lines) {
-    const trimmed = line.trim();
-    if (trimmed && !trimmed.startsWith('#')) {
-      const equalIndex = trimmed.indexOf('=');
-      if (equalIndex > 0) {
-        const key = trimmed.substring(0, equalIndex).trim();
-        const value = trimmed.substring(equalIndex + 1).trim();
-        result[key] = value;
-      }
+async function promptCommandLine(history: string[]): Promise<string | undefined> {
+  let value = '';
+  if (history.length > 0) {
+    const newCommand = { label: '$(add) New command...' };
+    const picked = await vscode.window.showQuickPick(
+      [newCommand, { label: 'Recent', kind: vscode.QuickPickItemKind.Separator }, ...history.map(entry => ({ label: entry }))],
+      { placeHolder: 'Select a recent command to edit and run, or enter a new one' }
+    );
+    if (!picked) {
+      return undefined;
     }
+    value = picked === newCommand ? '' : picked.label;
   }
-  
-  return result;
+
+  const commandLine = await vscode.window.showInputBox({
+    prompt: 'Command to run with Bitwarden secrets in its environment',
+    placeHolder: 'npm start',
+    value,
+    validateInput: input => input.trim() ? null : 'Command cannot be empty'
+  });
+  return commandLine?.trim() || undefined;
+}
+
+/**
+ * Command handler for removing loaded secrets from the environment of new terminals
+ */
+export async function unloadTerminalSecretsCommand(terminalSecrets: TerminalSecretsService): Promise<void> {
+  const keys = await terminalSecrets.unload();
+  if (keys.length === 0) {
+    vscode.window.showInformationMessage('No secrets are loaded into terminals');
+    return;
+  }
+  vscode.window.showInformationMessage(
+    `Unloaded ${keys.length} secrets from new terminals: ${keys.join(', ')}. Terminals that are already open keep them until closed.`
+  );
 }
 
 /**
- * Format .env file content from key-value pairs
+ * Put values into a terminal using the configured injection mode; returns
+ * where they went, for the confirmation message
  */
-function formatEnvFile(data: { [key: string]: string }): string {
-  return Object.entries(data)
-    .map(([key, value]) => `${key}=${value}`)
-    .join('\n');
+async function injectIntoTerminal(
+  terminalSecrets: TerminalSecretsService,
+  name: string,
+  values: { [key: string]: string }
+): Promise<string> {
+  switch (TerminalSecretsService.getInjectionMode()) {
+    case 'environmentCollection':
+      await terminalSecrets.loadIntoCollection(values);
+      return 'for new terminals';
+    case 'sendText':
+      terminalSecrets.sendToActiveTerminal(values);
+      return 'in the terminal';
+    default:
+      terminalSecrets.openTerminal(name, values);
+      return `in the new terminal "Bitwarden: ${name}"`;
+  }
 }
 
 /**
- * Command handler for copying all project secrets to clipboard in key=value format
+ * Command handler for copying all project secrets to clipboard in a chosen format
  */
 export async function copyProjectSecretsCommand(
   provider: BitwardenSecretsProvider,
@@ -196,218 +312,335 @@ export async function copyProjectSecretsCommand(
 ): Promise<void> {
   if (item.type === 'project' && item.id) {
     try {
-      const secrets = await provider.getSecretsForProject(item.id, '');
+      const exporter = await selectExporter('Select the format to copy secrets in');
+      if (!exporter) {
+        return;
+      }
+      const options = await promptExportOptions(exporter, { projectName: item.label });
+      if (!options) {
+        return;
+      }
+
+      const secrets = await provider.getProjectSecrets(item.id, item.profileId);
       
       if (secrets.length === 0) {
         vscode.window.showInformationMessage('No secrets found in this project');
         return;
       }
       
-      const keyValuePairs: string[] = [];
-      
-      for (const secret of secrets) {
-        if (secret.type === 'secret' && secret.id) {
-          const secretValue = await provider.getSecretValue(secret.id, '');
-          if (secretValue) {
-            keyValuePairs.push(`${secret.label}=${secretValue}`);
-          }
-        }
-      }
-      
-      if (keyValuePairs.length > 0) {
-        const clipboardContent = keyValuePairs.join('\n');
-        await vscode.env.clipboard.writeText(clipboardContent);
-        vscode.window.showInformationMessage(
-          `${keyValuePairs.length} secrets copied to clipboard in key=value format`
-        );
+      const secretData = collectSecretValues(secrets);
+      const exported = Object.keys(secretData).length;
+      if (exported === 0) {
+        return;
       }
+
+      const result = exporter.export(secretData, options);
+      await vscode.env.clipboard.writeText(result.content);
+      vscode.window.showInformationMessage(
+        `${exported - result.skipped.length} secrets copied to clipboard as ${exporter.label}`
+      );
+      showSkippedSecrets(exporter, result.skipped);
     } catch (error) {
-      vscode.window.showErrorMessage(`Failed to copy project secrets: ${error}`);
+      vscode.window.showErrorMessage(redactionService.redact(`Failed to copy project secrets: ${error}`));
+    }
+  }
+}
+
+interface FileQuickPickItem extends vscode.QuickPickItem {
+  uri?: vscode.Uri;
+}
+
+/**
+ * Quick pick items for files, under a separator per folder
+ */
+function fileQuickPickItems(files: vscode.Uri[], description?: string): FileQuickPickItem[] {
+  const items: FileQuickPickItem[] = [];
+  let currentFolder: string | undefined;
+
+  for (const file of files) {
+    const folder = FileDiscoveryService.folderLabel(file);
+    if (folder !== currentFolder) {
+      items.push({ label: folder, kind: vscode.QuickPickItemKind.Separator });
+      currentFolder = folder;
+    }
+    items.push({ label: FileDiscoveryService.basename(file), description: description ?? folder, uri: file });
+  }
+
+  return items;
+}
+
+/**
+ * Separator for the keys of nested JSON and YAML imports
+ */
+function getFlattenSeparator(): string {
+  const separator = vscode.workspace.getConfiguration('bitwardenSecretsExplorer.import').get<string>('flattenSeparator', DEFAULT_FLATTEN_SEPARATOR);
+  return separator || DEFAULT_FLATTEN_SEPARATOR;
+}
+
+/**
+ * Ask for one of the registered export formats
+ */
+async function selectExporter(placeHolder: string): Promise<SecretExporter | undefined> {
+  const picked = await vscode.window.showQuickPick(
+    exporterRegistry.list().map(exporter => ({
+      label: exporter.label,
+      description: exporter.description,
+      exporter
+    })),
+    { placeHolder }
+  );
+  return picked?.exporter;
+}
+
+/**
+ * Ask for the format-specific options of an exporter; undefined when cancelled
+ */
+async function promptExportOptions(
+  exporter: SecretExporter,
+  context: ExportContext
+): Promise<{ [id: string]: string } | undefined> {
+  const answers: { [id: string]: string } = {};
+
+  for (const option of exporter.options ?? []) {
+    let answer: string | undefined;
+    if (option.choices) {
+      const picked = await vscode.window.showQuickPick(
+        option.choices.map(choice => ({ label: choice.label, description: choice.description, value: choice.value })),
+        { placeHolder: option.prompt }
+      );
+      answer = picked?.value;
+    } else {
+      answer = await vscode.window.showInputBox({
+        prompt: option.prompt,
+        value: option.defaultValue?.(context),
+        validateInput: value => option.validate?.(value.trim())
+      });
+    }
+
+    if (answer === undefined) {
+      return undefined;
     }
+    answers[option.id] = answer.trim();
   }
+
+  return answers;
 }
 
 /**
- * Command handler for importing secrets from .env files to Bitwarden
+ * Values of the secrets that have one, by key
+ */
+function collectSecretValues(secrets: Secret[]): { [key: string]: string } {
+  const secretData: { [key: string]: string } = {};
+  for (const secret of secrets) {
+    if (secret.value) {
+      secretData[secret.key] = secret.value;
+    }
+  }
+  return secretData;
+}
+
+function showSkippedSecrets(exporter: SecretExporter, skipped: SkippedSecret[]): void {
+  if (skipped.length === 0) {
+    return;
+  }
+  const details = skipped.map(entry => `${entry.key} (${entry.reason})`).join(', ');
+  vscode.window.showWarningMessage(`${skipped.length} secrets cannot be written as ${exporter.label} and were left out: ${details}`);
+}
+
+/**
+ * Command handler for importing secrets from .env, JSON, YAML and Kubernetes
+ * Secret files to Bitwarden
  */
 export async function importSecretsFromEnvCommand(
+  context: vscode.ExtensionContext,
   provider: BitwardenSecretsProvider,
-  item: BitwardenSecretItem
+  item: BitwardenSecretItem,
+  dryRun: boolean = false
 ): Promise<void> {
   if (item.type === 'project' && item.id) {
     try {
-      // Find existing .env* files in workspace
       const workspaceFolders = vscode.workspace.workspaceFolders;
       if (!workspaceFolders || workspaceFolders.length === 0) {
         vscode.window.showErrorMessage('No workspace folder found');
         return;
       }
       
-      const envFiles: vscode.Uri[] = [];
-      
-      // Search for .env* files only in the top directory of workspace folders
-      for (const folder of workspaceFolders) {
-        try {
-          const entries = await vscode.workspace.fs.readDirectory(folder.uri);
-          for (const [name, type] of entries) {
-            if (type === vscode.FileType.File && name.startsWith('.env')) {
-              envFiles.push(vscode.Uri.joinPath(folder.uri, name));
-            }
-          }
-        } catch (error) {
-          // Continue if search fails for this folder
-        }
-      }
+      // Search the workspace for files a registered importer may read
+      const files = await FileDiscoveryService.findFiles(
+        importerRegistry.filePatterns(),
+        name => importerRegistry.matchesFileName(name)
+      );
       
-      if (envFiles.length === 0) {
-        vscode.window.showInformationMessage('No .env files found in workspace');
+      if (files.length === 0) {
+        vscode.window.showInformationMessage('No .env, JSON, YAML or Kubernetes Secret files found in workspace');
         return;
       }
       
-      // Show file selection dialog
-      const fileOptions = envFiles.map(file => ({
-        label: vscode.workspace.asRelativePath(file),
-        description: file.fsPath,
-        uri: file
-      }));
+      // Show file selection dialog, grouped by folder
+      const fileOptions = fileQuickPickItems(files);
       
       const selectedOption = await vscode.window.showQuickPick(fileOptions, {
-        placeHolder: 'Select .env file to import from'
+        placeHolder: 'Select a file to import from',
+        matchOnDescription: true
       });
       
-      if (!selectedOption) {
+      if (!selectedOption?.uri) {
         return;
       }
       
-      // Read and parse the selected file
-      const fileContent = await vscode.workspace.fs.readFile(selectedOption.uri);
-      const contentString = Buffer.from(fileContent).toString('utf8');
-      const envData = parseEnvFile(contentString);
+      // Read the selected file and parse it with the first importer that accepts it
+      const sourceUri = selectedOption.uri;
+      const content = Buffer.from(await vscode.workspace.fs.readFile(sourceUri)).toString('utf8');
+      const importer = importerRegistry.find(FileDiscoveryService.basename(sourceUri), content);
+      if (!importer) {
+        vscode.window.showInformationMessage(`${vscode.workspace.asRelativePath(sourceUri)} is not in a supported format`);
+        return;
+      }
+      const { values: envData, diagnostics } = importer.import(content, { flattenSeparator: getFlattenSeparator() });
+      
+      if (diagnostics.some(diagnostic => diagnostic.severity === 'error')) {
+        vscode.window.showWarningMessage(
+          `Skipped invalid entries in ${vscode.workspace.asRelativePath(sourceUri)}: ${describeDiagnostics(diagnostics)}`
+        );
+      }
       
       const envKeys = Object.keys(envData);
       if (envKeys.length === 0) {
-        vscode.window.showInformationMessage('No valid key=value pairs found in the selected file');
+        vscode.window.showInformationMessage('No secrets found in the selected file');
         return;
       }
       
-      // Check for existing secrets with same keys
-      const existingSecrets = await provider.getSecretsForProject(item.id, '');
-      const existingKeys = new Set(
-        existingSecrets
-          .filter(secret => secret.type === 'secret')
-          .map(secret => secret.label)
+      // Compare with the project and let the user choose in the preview; nothing
+      // is changed in Bitwarden until the selection is confirmed
+      const existingSecrets = await provider.getProjectSecrets(item.id, item.profileId);
+      const preview = ImportPreviewService.build(envData, existingSecrets);
+      const selectedKeys = await openImportPreview(
+        context,
+        preview,
+        vscode.workspace.asRelativePath(sourceUri),
+        item.label,
+        dryRun
       );
       
-      const conflicts = envKeys.filter(key => existingKeys.has(key));
-      const newKeys = envKeys.filter(key => !existingKeys.has(key));
-      
-      let keysToImport = [...newKeys];
-      const overwriteChoices = new Map<string, boolean>();
-      
-      // Handle conflicts if any
-      if (conflicts.length > 0) {
-        for (const conflictKey of conflicts) {
-          const choice = await vscode.window.showQuickPick(
-            [
-              { label: 'Skip this secret', description: `Keep existing secret "${conflictKey}"` },
-              { label: 'Overwrite this secret', description: `Replace existing secret "${conflictKey}"` },
-              { label: 'Cancel import', description: 'Cancel the import operation' }
-            ],
-            { placeHolder: `Secret "${conflictKey}" already exists. What would you like to do?` }
-          );
-          
-          if (!choice || choice.label === 'Cancel import') {
-            return;
-          }
-          
-          if (choice.label === 'Overwrite this secret') {
-            overwriteChoices.set(conflictKey, true);
-            keysToImport.push(conflictKey);
-            
-            // Delete existing conflicting secret first
-            const existingSecret = existingSecrets.find(
-              secret => secret.type === 'secret' && secret.label === conflictKey
-            );
-            if (existingSecret && existingSecret.id) {
-              try {
-                await provider.sdkService.deleteSecret(existingSecret.id);
-              } catch (error) {
-                console.warn(`Failed to delete existing secret ${conflictKey}: ${error}`);
-              }
-            }
-          }
-        }
+      if (dryRun || !selectedKeys) {
+        return;
       }
       
-      if (keysToImport.length === 0) {
+      const selected = new Set(selectedKeys);
+      const newKeys = preview.filter(entry => entry.status === 'new' && selected.has(entry.key)).map(entry => entry.key);
+      const overwrites = preview.filter(entry => entry.status !== 'new' && selected.has(entry.key));
+      
+      if (newKeys.length === 0 && overwrites.length === 0) {
         vscode.window.showInformationMessage('No secrets to import');
         return;
       }
       
-      // Import secrets with progress indication
-      let successCount = 0;
-      let errorCount = 0;
-      const errors: string[] = [];
+      const relativePath = vscode.workspace.asRelativePath(sourceUri);
+      const backend = provider.backendFor(item);
+      const created: Secret[] = [];
+      const updated: Secret[] = [];
+      let failure: string | undefined;
       
       await vscode.window.withProgress({
         location: vscode.ProgressLocation.Notification,
         title: 'Importing secrets to Bitwarden',
         cancellable: false
       }, async (progress) => {
-        const total = keysToImport.length;
+        const total = newKeys.length + overwrites.length;
+        let done = 0;
+        const report = (key: string) => progress.report({
+          increment: (100 / total),
+          message: `Importing ${key} (${++done}/${total})`
+        });
         
-        for (let i = 0; i < keysToImport.length; i++) {
-          const key = keysToImport[i];
-          const value = envData[key];
-          
-          progress.report({
-            increment: (100 / total),
-            message: `Importing ${key} (${i + 1}/${total})`
-          });
+        try {
+          // Overwrites keep the existing secret, its ID, note and access grants
+          for (const overwrite of overwrites) {
+            report(overwrite.key);
+            for (const secret of overwrite.existing) {
+              await backend.updateSecret({
+                id: secret.id!,
+                key: secret.key,
+                value: overwrite.value,
+                note: secret.note ?? '',
+                projectId: secret.projectId
+              });
+              updated.push(secret);
+            }
+          }
           
-          try {
-            await provider.sdkService.createSecret({
+          for (const key of newKeys) {
+            report(key);
+            created.push(await backend.createSecret({
               key: key,
-              value: value,
-              note: `Imported from ${vscode.workspace.asRelativePath(selectedOption.uri)}`,
+              value: envData[key],
+              note: `Imported from ${relativePath}`,
               projectId: item.id!
-            });
-            successCount++;
-          } catch (error) {
-            errorCount++;
-            errors.push(`${key}: ${error}`);
+            }));
           }
+        } catch (error) {
+          failure = `${error}`;
         }
       });
       
+      if (failure) {
+        const rollbackErrors = await rollbackImport(backend, created, updated);
+        provider.refresh();
+        vscode.window.showErrorMessage(redactionService.redact(
+          rollbackErrors.length === 0
+            ? `Failed to import secrets: ${failure}. All changes were rolled back.`
+            : `Failed to import secrets: ${failure}. Could not roll back: ${rollbackErrors.join('; ')}`
+        ));
+        return;
+      }
+      
       // Refresh the tree to show new secrets
       provider.refresh();
       
-      // Show results
-      if (successCount > 0 && errorCount === 0) {
-        vscode.window.showInformationMessage(
-          `Successfully imported ${successCount} secrets from ${vscode.workspace.asRelativePath(selectedOption.uri)}`
-        );
-      } else if (successCount > 0 && errorCount > 0) {
-        vscode.window.showWarningMessage(
-          `Imported ${successCount} secrets successfully, ${errorCount} failed. Check output for details.`
-        );
-        console.error('Import errors:', errors);
-      } else {
-        vscode.window.showErrorMessage(
-          `Failed to import secrets. Check output for details.`
-        );
-        console.error('Import errors:', errors);
-      }
+      vscode.window.showInformationMessage(
+        `Imported secrets from ${relativePath}: ${created.length} new, ${overwrites.length} overwritten`
+      );
       
     } catch (error) {
-      vscode.window.showErrorMessage(`Failed to import secrets: ${error}`);
+      vscode.window.showErrorMessage(redactionService.redact(`Failed to import secrets: ${error}`));
     }
   }
 }
 
 /**
- * Command handler for exporting project secrets to .env file
+ * Undo an import: delete created secrets and restore overwritten ones to their
+ * original values. Returns the keys that could not be restored.
+ */
+async function rollbackImport(backend: SecretsBackend, created: Secret[], updated: Secret[]): Promise<string[]> {
+  const errors: string[] = [];
+  
+  for (const secret of created) {
+    try {
+      await backend.deleteSecret(secret.id!);
+    } catch (error) {
+      errors.push(`${secret.key}: ${error}`);
+    }
+  }
+  
+  for (const secret of updated) {
+    try {
+      await backend.updateSecret({
+        id: secret.id!,
+        key: secret.key,
+        value: secret.value,
+        note: secret.note ?? '',
+        projectId: secret.projectId
+      });
+    } catch (error) {
+      errors.push(`${secret.key}: ${error}`);
+    }
+  }
+  
+  return errors;
+}
+
+/**
+ * Command handler for exporting project secrets to a file in a chosen format
  */
 export async function exportProjectSecretsCommand(
   provider: BitwardenSecretsProvider,
@@ -415,8 +648,19 @@ export async function exportProjectSecretsCommand(
 ): Promise<void> {
   if (item.type === 'project' && item.id) {
     try {
-      // Show file selection immediately without fetching secrets first
-      const targetFile = await selectEnvFileForExport();
+      const exporter = await selectExporter('Select the format to export secrets in');
+      if (!exporter) {
+        return;
+      }
+      const options = await promptExportOptions(exporter, { projectName: item.label });
+      if (!options) {
+        return;
+      }
+
+      // Show file selection immediately without fetching secrets first.
+      // Dotenv files are merged into, other formats are written as a whole.
+      const merge = exporter.id === 'dotenv';
+      const targetFile = merge ? await selectEnvFileForExport() : await selectExportTarget(exporter);
       if (!targetFile) {
         return; // User cancelled file selection
       }
@@ -429,7 +673,7 @@ export async function exportProjectSecretsCommand(
       }, async (progress) => {
         progress.report({ message: 'Fetching project secrets...' });
         
-        const secrets = await provider.getSecretsForProject(item.id!, '');
+        const secrets = await provider.getProjectSecrets(item.id!, item.profileId);
         
         if (secrets.length === 0) {
           vscode.window.showInformationMessage('No secrets found in this project');
@@ -438,32 +682,51 @@ export async function exportProjectSecretsCommand(
         
         progress.report({ message: 'Collecting secret values...' });
         
-        // Collect secret values
-        const secretData: { [key: string]: string } = {};
-        
-        for (const secret of secrets) {
-          if (secret.type === 'secret' && secret.id) {
-            const secretValue = await provider.getSecretValue(secret.id, '');
-            if (secretValue) {
-              secretData[secret.label] = secretValue;
-            }
-          }
-        }
+        const secretData = collectSecretValues(secrets);
         
         progress.report({ message: 'Writing to file...' });
         
         // Export to the selected file
-        await writeSecretsToFile(targetFile, secretData);
+        if (merge) {
+          await writeSecretsToFile(targetFile, secretData);
+          return;
+        }
+
+        const result = exporter.export(secretData, options);
+        await vscode.workspace.fs.writeFile(targetFile, Buffer.from(result.content, 'utf8'));
+        vscode.window.showInformationMessage(
+          `Exported ${Object.keys(secretData).length - result.skipped.length} secrets to ${vscode.workspace.asRelativePath(targetFile)} as ${exporter.label}`
+        );
+        showSkippedSecrets(exporter, result.skipped);
       });
       
     } catch (error) {
-      vscode.window.showErrorMessage(`Failed to export secrets: ${error}`);
+      vscode.window.showErrorMessage(redactionService.redact(`Failed to export secrets: ${error}`));
     }
   }
 }
 
 /**
- * Select target file for export without fetching secrets
+ * Ask where to write a whole-file export, suggesting the format's file name in
+ * the workspace root. The save dialog confirms overwriting existing files.
+ */
+async function selectExportTarget(exporter: SecretExporter): Promise<vscode.Uri | undefined> {
+  const workspaceFolders = vscode.workspace.workspaceFolders;
+  if (!workspaceFolders || workspaceFolders.length === 0) {
+    vscode.window.showErrorMessage('No workspace folder found');
+    return undefined;
+  }
+
+  return vscode.window.showSaveDialog({
+    defaultUri: vscode.Uri.joinPath(workspaceFolders[0].uri, exporter.defaultFileName),
+    saveLabel: 'Export',
+    title: `Export secrets as ${exporter.label}`
+  });
+}
+
+/**
+ * Select target file for export without fetching secrets: an existing .env
+ * file anywhere in the workspace, or a new one in any folder
  */
 async function selectEnvFileForExport(): Promise<vscode.Uri | null> {
   const workspaceFolders = vscode.workspace.workspaceFolders;
@@ -472,164 +735,109 @@ async function selectEnvFileForExport(): Promise<vscode.Uri | null> {
     return null;
   }
 
-  // Find existing .env files in the top directory
-  const envFiles: vscode.Uri[] = [];
-  
-  for (const folder of workspaceFolders) {
-    try {
-      const entries = await vscode.workspace.fs.readDirectory(folder.uri);
-      for (const [name, type] of entries) {
-        if (type === vscode.FileType.File && name.startsWith('.env')) {
-          envFiles.push(vscode.Uri.joinPath(folder.uri, name));
-        }
-      }
-    } catch (error) {
-      // Continue if search fails for this folder
+  const envFiles = await FileDiscoveryService.findFiles(['**/.env*'], name => name.startsWith('.env'));
+  const createOption: FileQuickPickItem = {
+    label: '$(new-file) Create new .env file...',
+    description: 'Choose a folder and a file name'
+  };
+
+  const selectedOption = await vscode.window.showQuickPick(
+    [
+      ...fileQuickPickItems(envFiles),
+      { label: 'New file', kind: vscode.QuickPickItemKind.Separator },
+      createOption
+    ],
+    {
+      placeHolder: envFiles.length > 0
+        ? 'Select .env file to update or create new one'
+        : 'No .env files found. Create a new one:',
+      matchOnDescription: true
     }
+  );
+
+  if (!selectedOption) {
+    return null;
   }
-  
-  interface FileOption {
-    label: string;
-    description: string;
-    uri?: vscode.Uri;
-    filename?: string;
+  if (selectedOption.uri) {
+    return selectedOption.uri;
   }
-  
-  if (envFiles.length > 0) {
-    // Show existing .env files and option to create new
-    const fileOptions: FileOption[] = envFiles.map(file => ({
-      label: vscode.workspace.asRelativePath(file),
-      description: 'Update existing file',
-      uri: file
-    }));
-    
-    // Check which files already exist to avoid offering them as creation options
-    const existingFileNames = new Set(envFiles.map(file => file.path.split('/').pop()));
-    
-    if (!existingFileNames.has('.env')) {
-      fileOptions.push({
-        label: 'Create new .env file',
-        description: 'Create a new .env file in workspace root',
-        filename: '.env'
-      });
-    }
-    
-    if (!existingFileNames.has('.env.local')) {
-      fileOptions.push({
-        label: 'Create new .env.local file',
-        description: 'Create a new .env.local file in workspace root',
-        filename: '.env.local'
-      });
-    }
-    
-    fileOptions.push({
-      label: 'Create custom .env file',
-      description: 'Create a new .env file with custom name',
-      filename: 'custom'
-    });
-    
-    const selectedOption = await vscode.window.showQuickPick(fileOptions, {
-      placeHolder: 'Select .env file to update or create new one'
-    });
-    
-    if (!selectedOption) {
-      return null;
-    }
-    
-    if (selectedOption.uri) {
-      return selectedOption.uri;
-    } else {
-      // User wants to create new file
-      if (selectedOption.filename === 'custom') {
-        const customName = await vscode.window.showInputBox({
-          prompt: 'Enter the filename for your .env file',
-          placeHolder: '.env.development',
-          validateInput: async (value) => {
-            if (!value) {
-              return 'Filename cannot be empty';
-            }
-            if (!value.startsWith('.env')) {
-              return 'Filename must start with ".env"';
-            }
-            // Check if file already exists
-            try {
-              const testFile = vscode.Uri.joinPath(workspaceFolders[0].uri, value);
-              await vscode.workspace.fs.stat(testFile);
-              return 'File already exists. Please choose a different name.';
-            } catch {
-              // File doesn't exist, which is what we want
-            }
-            return null;
-          }
-        });
-        
-        if (!customName) {
-          return null;
-        }
-        
-        return vscode.Uri.joinPath(workspaceFolders[0].uri, customName);
-      } else {
-        return vscode.Uri.joinPath(workspaceFolders[0].uri, selectedOption.filename!);
+
+  const folder = await selectExportFolder(workspaceFolders, envFiles);
+  if (!folder) {
+    return null;
+  }
+
+  const fileName = await vscode.window.showInputBox({
+    prompt: `Enter the filename for your .env file in ${FileDiscoveryService.folderLabel(vscode.Uri.joinPath(folder, '.env'))}`,
+    value: '.env',
+    placeHolder: '.env.development',
+    validateInput: async (value) => {
+      if (!value) {
+        return 'Filename cannot be empty';
       }
-    }
-  } else {
-    // No .env files found, offer to create one
-    const fileChoice = await vscode.window.showQuickPick([
-      {
-        label: 'Create .env file',
-        description: 'Create a new .env file in workspace root',
-        filename: '.env'
-      },
-      {
-        label: 'Create .env.local file',
-        description: 'Create a new .env.local file in workspace root',
-        filename: '.env.local'
-      },
-      {
-        label: 'Create custom .env file',
-        description: 'Create a new .env file with custom name',
-        filename: 'custom'
+      if (!value.startsWith('.env')) {
+        return 'Filename must start with ".env"';
+      }
+      if (/[\\/]/.test(value)) {
+        return 'Filename cannot contain path separators';
+      }
+      // Check if file already exists
+      try {
+        await vscode.workspace.fs.stat(vscode.Uri.joinPath(folder, value));
+        return 'File already exists. Please choose a different name.';
+      } catch {
+        // File doesn't exist, which is what we want
       }
-    ], {
-      placeHolder: 'No .env files found. Choose file type to create:'
-    });
-    
-    if (!fileChoice) {
       return null;
     }
-    
-    if (fileChoice.filename === 'custom') {
-      const customName = await vscode.window.showInputBox({
-        prompt: 'Enter the filename for your .env file',
-        placeHolder: '.env.development',
-        validateInput: async (value) => {
-          if (!value) {
-            return 'Filename cannot be empty';
-          }
-          if (!value.startsWith('.env')) {
-            return 'Filename must start with ".env"';
-          }
-          // Check if file already exists
-          try {
-            const testFile = vscode.Uri.joinPath(workspaceFolders[0].uri, value);
-            await vscode.workspace.fs.stat(testFile);
-            return 'File already exists. Please choose a different name.';
-          } catch {
-            // File doesn't exist, which is what we want
-          }
-          return null;
-        }
-      });
-      
-      if (!customName) {
-        return null;
-      }
-      
-      return vscode.Uri.joinPath(workspaceFolders[0].uri, customName);
-    } else {
-      return vscode.Uri.joinPath(workspaceFolders[0].uri, fileChoice.filename!);
+  });
+
+  return fileName ? vscode.Uri.joinPath(folder, fileName) : null;
+}
+
+/**
+ * Ask for the folder to create a new .env file in: a workspace folder, a folder
+ * that already has .env files, or any folder picked in a dialog
+ */
+async function selectExportFolder(
+  workspaceFolders: readonly vscode.WorkspaceFolder[],
+  envFiles: vscode.Uri[]
+): Promise<vscode.Uri | undefined> {
+  interface FolderOption extends vscode.QuickPickItem {
+    uri?: vscode.Uri;
+  }
+
+  const options: FolderOption[] = workspaceFolders.map(folder => ({
+    label: `$(root-folder) ${folder.name}`,
+    description: 'Workspace folder',
+    uri: folder.uri
+  }));
+  const known = new Set(workspaceFolders.map(folder => folder.uri.toString()));
+  for (const file of envFiles) {
+    const folder = vscode.Uri.joinPath(file, '..');
+    if (!known.has(folder.toString())) {
+      known.add(folder.toString());
+      options.push({ label: `$(folder) ${FileDiscoveryService.folderLabel(file)}`, description: 'Has .env files', uri: folder });
     }
   }
+  options.push({ label: '$(folder-opened) Browse...', description: 'Choose any folder' });
+
+  const selected = await vscode.window.showQuickPick(options, { placeHolder: 'Select the folder to create the .env file in' });
+  if (!selected) {
+    return undefined;
+  }
+  if (selected.uri) {
+    return selected.uri;
+  }
+
+  const picked = await vscode.window.showOpenDialog({
+    canSelectFiles: false,
+    canSelectFolders: true,
+    canSelectMany: false,
+    defaultUri: workspaceFolders[0].uri,
+    openLabel: 'Create .env File Here'
+  });
+  return picked?.[0];
 }
 
 /**
@@ -639,22 +847,26 @@ async function writeSecretsToFile(
   targetFile: vscode.Uri,
   secretData: { [key: string]: string }
 ): Promise<void> {
+  let existingText = '';
   let existingContent: { [key: string]: string } = {};
   
   try {
     const fileContent = await vscode.workspace.fs.readFile(targetFile);
-    const contentString = Buffer.from(fileContent).toString('utf8');
-    existingContent = parseEnvFile(contentString);
+    existingText = Buffer.from(fileContent).toString('utf8');
+    existingContent = parseEnvFile(existingText);
   } catch (error) {
     // File might not exist or be readable, continue with empty content
   }
   
-  // Check for conflicts and handle them
+  // Check for conflicts and handle them. Keys a .env file cannot hold are left out.
   const conflicts: string[] = [];
   const newSecrets: string[] = [];
+  const invalidKeys: string[] = [];
   
   for (const key of Object.keys(secretData)) {
-    if (existingContent.hasOwnProperty(key)) {
+    if (!isValidEnvKey(key)) {
+      invalidKeys.push(key);
+    } else if (existingContent.hasOwnProperty(key)) {
       conflicts.push(key);
     } else {
       newSecrets.push(key);
@@ -712,8 +924,14 @@ async function writeSecretsToFile(
     finalContent[key] = secretData[key];
   }
   
-  // Write the final content to file
-  const envContent = formatEnvFile(finalContent);
+  // Write only changed keys, keeping the rest of the file as it was
+  const updates: { [key: string]: string } = {};
+  for (const [key, value] of Object.entries(finalContent)) {
+    if (existingContent[key] !== value) {
+      updates[key] = value;
+    }
+  }
+  const envContent = updateDotenv(existingText, updates);
   await vscode.workspace.fs.writeFile(targetFile, Buffer.from(envContent, 'utf8'));
   
   const relativePath = vscode.workspace.asRelativePath(targetFile);
@@ -724,4 +942,88 @@ async function writeSecretsToFile(
   vscode.window.showInformationMessage(
     `Exported to ${relativePath}: ${addedSecrets} new, ${updatedSecrets} updated, ${totalSecrets} total secrets`
   );
-}
\ No newline at end of file
+  if (invalidKeys.length > 0) {
+    vscode.window.showWarningMessage(
+      `${invalidKeys.length} secrets were left out, as they are not valid .env keys: ${invalidKeys.map(key => JSON.stringify(key)).join(', ')}`
+    );
+  }
+}
+
+/**
+ * Command handler for comparing a local .env file with a project in a diff editor.
+ * Without a file, the active editor's .env file or a discovered one is used.
+ */
+export async function compareWithProjectCommand(
+  profiles: ProfileService,
+  compare: EnvCompareProvider,
+  uri?: vscode.Uri
+): Promise<void> {
+  try {
+    const fileUri = uri ?? await selectEnvFileToCompare();
+    if (!fileUri) {
+      return;
+    }
+
+    const profileId = profiles.getActiveProfile().id;
+    const backend = await profiles.getAuthenticatedBackend(profileId);
+    const projects = await backend.listProjects();
+    if (projects.length === 0) {
+      vscode.window.showInformationMessage('No projects found');
+      return;
+    }
+
+    const picked = await vscode.window.showQuickPick(
+      projects.map(project => ({ label: project.name, project })),
+      { placeHolder: `Select the project to compare ${vscode.workspace.asRelativePath(fileUri)} with` }
+    );
+    if (!picked) {
+      return;
+    }
+
+    await compare.open(fileUri, picked.project, profileId);
+  } catch (error) {
+    vscode.window.showErrorMessage(redactionService.redact(`Failed to compare with Bitwarden project: ${error}`));
+  }
+}
+
+/**
+ * Command handler for writing a project's value of a compared key into the .env file
+ */
+export async function pullComparedKeyCommand(compare: EnvCompareProvider, sessionId: string, key: string): Promise<void> {
+  try {
+    await compare.pullKey(sessionId, key);
+  } catch (error) {
+    vscode.window.showErrorMessage(redactionService.redact(`Failed to pull ${key}: ${error}`));
+  }
+}
+
+/**
+ * Command handler for uploading the .env file's value of a compared key
+ */
+export async function pushComparedKeyCommand(compare: EnvCompareProvider, sessionId: string, key: string): Promise<boolean> {
+  try {
+    return await compare.pushKey(sessionId, key);
+  } catch (error) {
+    vscode.window.showErrorMessage(redactionService.redact(`Failed to push ${key}: ${error}`));
+    return false;
+  }
+}
+
+async function selectEnvFileToCompare(): Promise<vscode.Uri | undefined> {
+  const active = vscode.window.activeTextEditor?.document.uri;
+  if (active?.scheme === 'file' && FileDiscoveryService.basename(active).startsWith('.env')) {
+    return active;
+  }
+
+  const envFiles = await FileDiscoveryService.findFiles(['**/.env*'], name => name.startsWith('.env'));
+  if (envFiles.length === 0) {
+    vscode.window.showInformationMessage('No .env files found in workspace');
+    return undefined;
+  }
+
+  const picked = await vscode.window.showQuickPick(fileQuickPickItems(envFiles), {
+    placeHolder: 'Select a .env file to compare',
+    matchOnDescription: true
+  });
+  return picked?.uri;
+}
@@ -0,0 +1,93 @@
+import * as vscode from 'vscode';
+import { SERVER_PRESETS, ServerConfigService } from '../services/ServerConfigService';
+import { ValidationService } from '../services/ValidationService';
+import { redactionService } from '../services/RedactionService';
+import { ServerPreset, ServerSettings } from '../types';
+
+/**
+ * Command handler for choosing the Bitwarden server (US cloud, EU cloud or self-hosted)
+ */
+export async function selectServerCommand(): Promise<void> {
+  const currentPreset = ServerConfigService.getPreset();
+
+  const options: (vscode.QuickPickItem & { preset: ServerPreset })[] = [
+    {
+      label: SERVER_PRESETS.us.label,
+      description: currentPreset === 'us' ? 'Current' : undefined,
+      detail: SERVER_PRESETS.us.apiUrl,
+      preset: 'us'
+    },
+    {
+      label: SERVER_PRESETS.eu.label,
+      description: currentPreset === 'eu' ? 'Current' : undefined,
+      detail: SERVER_PRESETS.eu.apiUrl,
+      preset: 'eu'
+    },
+    {
+      label: 'Self-hosted / Custom',
+      description: currentPreset === 'custom' ? 'Current' : undefined,
+      detail: 'Enter the URL of your own Bitwarden instance',
+      preset: 'custom'
+    }
+  ];
+
+  const selected = await vscode.window.showQuickPick(options, {
+    placeHolder: `Select Bitwarden server (current: ${ServerConfigService.describe()})`
+  });
+
+  if (!selected) {
+    return;
+  }
+
+  let custom: ServerSettings | undefined;
+  if (selected.preset === 'custom') {
+    custom = await promptForCustomServer();
+    if (!custom) {
+      return;
+    }
+  }
+
+  try {
+    await ServerConfigService.setPreset(selected.preset, custom);
+    vscode.window.showInformationMessage(`Bitwarden server set to ${ServerConfigService.describe()}`);
+  } catch (error) {
+    vscode.window.showErrorMessage(redactionService.redact(`Failed to update server settings: ${error}`));
+  }
+}
+
+/**
+ * Ask for the base URL of a self-hosted instance and derive the API and identity URLs
+ */
+export async function promptForCustomServer(
+  initial: ServerSettings | undefined = ServerConfigService.getPreset() === 'custom'
+    ? ServerConfigService.getServerSettings()
+    : undefined
+): Promise<ServerSettings | undefined> {
+  const current = initial ? initial.apiUrl.replace(/\/api$/, '') : '';
+
+  const baseUrl = await vscode.window.showInputBox({
+    prompt: 'Enter the base URL of your Bitwarden server',
+    placeHolder: 'https://vault.example.com',
+    value: current,
+    validateInput: (value) => {
+      if (!value || value.trim().length === 0) {
+        return 'Server URL cannot be empty';
+      }
+      const validation = ValidationService.validateServerUrl(value.trim(), 'apiUrl');
+      return validation.isValid ? null : validation.errors[0].message;
+    }
+  });
+
+  if (!baseUrl) {
+    return undefined;
+  }
+
+  const settings = ServerConfigService.settingsFromBaseUrl(baseUrl);
+  const validation = ServerConfigService.validateServerSettings(settings);
+  if (!validation.isValid) {
+    vscode.window.showErrorMessage(`Invalid server URL: ${validation.errors[0].message}`);
+    return undefined;
+  }
+
+  return settings;
+}
@@ -1,6 +1,10 @@
 import * as vscode from 'vscode';
 import { BitwardenSecretsProvider } from '../ui/treeProvider';
 import { BitwardenWelcomeProvider } from '../ui/welcomeProvider';
+import { EnvCompareProvider } from '../ui/envCompareProvider';
+import { ProfileService } from '../services/ProfileService';
+import { TerminalSecretsService } from '../services/TerminalSecretsService';
+import { ServerSettings } from '../types';
 
 /**
  * Centralized application state management
@@ -13,8 +17,22 @@ export class ApplicationState {
   private _onStateChange = new vscode.EventEmitter<boolean>();
 
   public readonly onStateChange = this._onStateChange.event;
+  public readonly profileService: ProfileService;
+  public readonly envCompareProvider: EnvCompareProvider;
+  public readonly terminalSecrets: TerminalSecretsService;
+
+  constructor(private context: vscode.ExtensionContext) {
+    this.profileService = new ProfileService(context);
+    this.envCompareProvider = new EnvCompareProvider(this.profileService);
+    this.terminalSecrets = new TerminalSecretsService(context.environmentVariableCollection);
+    this.context.subscriptions.push(
+      this.profileService.onDidChangeActiveProfile(() => this.refreshAll())
+    );
+  }
 
-  constructor(private context: vscode.ExtensionContext) {}
+  async initialize(): Promise<void> {
+    await this.profileService.initialize();
+  }
 
   get bitwardenSecretsProvider(): BitwardenSecretsProvider | undefined {
     return this._bitwardenSecretsProvider;
@@ -53,7 +71,7 @@ export class ApplicationState {
   }
 
   private async createTreeView(): Promise<void> {
-    this._bitwardenSecretsProvider = new BitwardenSecretsProvider(this.context);
+    this._bitwardenSecretsProvider = new BitwardenSecretsProvider(this.context, this.profileService);
     
     try {
       await this._bitwardenSecretsProvider.getChildren();
@@ -66,7 +84,28 @@ export class ApplicationState {
       showCollapseAll: true
     });
     
-    this.context.subscriptions.push(this._treeView);
+    this.context.subscriptions.push(
+      this._treeView,
+      this._bitwardenSecretsProvider.onDidLoad(() => this.updateCacheStatus())
+    );
+    this.updateCacheStatus();
+  }
+
+  /**
+   * Show when the active profile's secrets were last synced next to the view title
+   */
+  private updateCacheStatus(): void {
+    if (!this._treeView) {
+      return;
+    }
+
+    const status = this.profileService.getBackend().getCacheStatus();
+    if (status.enabled && status.lastRefresh) {
+      const time = status.lastRefresh.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+      this._treeView.description = `Cached ${time}`;
+    } else {
+      this._treeView.description = undefined;
+    }
   }
 
   private disposeTreeView(): void {
@@ -78,10 +117,25 @@ export class ApplicationState {
   }
 
   getOrCreateProvider(): BitwardenSecretsProvider {
-    return this._bitwardenSecretsProvider || new BitwardenSecretsProvider(this.context);
+    return this._bitwardenSecretsProvider || new BitwardenSecretsProvider(this.context, this.profileService);
   }
 
-  refreshAll(): void {
+  /**
+   * Rebuild every SDK client against the newly selected server
+   */
+  applyServerSettings(server: ServerSettings): void {
+    this.profileService.applyServerSettings(server);
+    this.refreshAll();
+  }
+
+  /**
+   * Refresh the tree and welcome view. With `forceRefresh` cached secrets are
+   * dropped so everything is reloaded from the server.
+   */
+  refreshAll(forceRefresh = false): void {
+    if (forceRefresh) {
+      this.profileService.invalidateCaches();
+    }
     if (this._bitwardenSecretsProvider) {
       this._bitwardenSecretsProvider.refresh();
     }
@@ -93,5 +147,6 @@ export class ApplicationState {
   dispose(): void {
     this.disposeTreeView();
     this._onStateChange.dispose();
+    this.profileService.dispose();
   }
 }
\ No newline at end of file
@@ -9,19 +9,39 @@ import {
   createProjectCommand,
   editProjectCommand,
   deleteProjectCommand,
-  copyProjectIdCommand
+  copyProjectIdCommand,
+  copyOrganizationIdCommand,
+  refreshOrganizationCommand
 } from '../commands/projectCommands';
 import {
   editSecretCommand,
   createSecretCommand,
   copySecretCommand,
+  openSecretDocumentCommand,
+  openProjectEnvDocumentCommand,
   deleteSecretCommand,
   loadSecretToEnvCommand,
   loadProjectSecretsToEnvCommand,
+  unloadTerminalSecretsCommand,
+  runCommandWithSecretsCommand,
   copyProjectSecretsCommand,
   exportProjectSecretsCommand,
-  importSecretsFromEnvCommand
+  importSecretsFromEnvCommand,
+  compareWithProjectCommand,
+  pullComparedKeyCommand,
+  pushComparedKeyCommand
 } from '../commands/secretCommands';
+import { selectServerCommand } from '../commands/serverCommands';
+import { pullBoundSecretsCommand, pushBoundSecretsCommand } from '../commands/bindingCommands';
+import { BindingService } from '../services/BindingService';
+import { SecretEnvironmentService } from '../services/SecretEnvironmentService';
+import { redactionService } from '../services/RedactionService';
+import {
+  switchProfileCommand,
+  addProfileCommand,
+  renameProfileCommand,
+  removeProfileCommand
+} from '../commands/profileCommands';
 
 type CommandHandler = (...args: any[]) => Promise<any> | any;
 
@@ -52,7 +72,7 @@ export class CommandRegistry {
         id: 'bitwardenSecretsExplorer.setAccessToken',
         handler: async () => {
           const provider = this.appState.getOrCreateProvider();
-          await setAccessTokenCommand(this.context, provider);
+          await setAccessTokenCommand(provider);
         },
         refreshAfter: true
       },
@@ -60,14 +80,50 @@ export class CommandRegistry {
         id: 'bitwardenSecretsExplorer.setOrganizationId',
         handler: async () => {
           const provider = this.appState.getOrCreateProvider();
-          await setOrganizationIdCommand(this.context, provider);
+          await setOrganizationIdCommand(provider);
         },
         refreshAfter: true
       },
       {
         id: 'bitwardenSecretsExplorer.clearTokens',
         handler: async () => {
-          await clearTokensCommand(this.context);
+          await clearTokensCommand(this.appState.profileService);
+        },
+        refreshAfter: true
+      },
+      {
+        id: 'bitwardenSecretsExplorer.selectServer',
+        handler: async () => {
+          await selectServerCommand();
+        },
+        refreshAfter: true
+      },
+
+      // Profile commands
+      {
+        id: 'bitwardenSecretsExplorer.switchProfile',
+        handler: async () => {
+          await switchProfileCommand(this.appState.profileService);
+        },
+        refreshAfter: true
+      },
+      {
+        id: 'bitwardenSecretsExplorer.addProfile',
+        handler: async () => {
+          await addProfileCommand(this.appState.profileService);
+        },
+        refreshAfter: true
+      },
+      {
+        id: 'bitwardenSecretsExplorer.renameProfile',
+        handler: async () => {
+          await renameProfileCommand(this.appState.profileService);
+        }
+      },
+      {
+        id: 'bitwardenSecretsExplorer.removeProfile',
+        handler: async () => {
+          await removeProfileCommand(this.appState.profileService);
         },
         refreshAfter: true
       },
@@ -81,8 +137,8 @@ export class CommandRegistry {
       // Project commands
       {
         id: 'bitwardenSecretsExplorer.createProject',
-        handler: async () => {
-          await createProjectCommand(this.appState.bitwardenSecretsProvider!);
+        handler: async (item?: any) => {
+          await createProjectCommand(this.appState.bitwardenSecretsProvider!, item);
         },
         requiresProvider: true,
         refreshAfter: true
@@ -110,6 +166,22 @@ export class CommandRegistry {
         requiresProvider: true
       },
 
+      // Organization commands
+      {
+        id: 'bitwardenSecretsExplorer.copyOrganizationId',
+        handler: (item: any) => {
+          return copyOrganizationIdCommand(item);
+        },
+        requiresProvider: true
+      },
+      {
+        id: 'bitwardenSecretsExplorer.refreshOrganization',
+        handler: (item: any) => {
+          return refreshOrganizationCommand(this.appState.bitwardenSecretsProvider!, item);
+        },
+        requiresProvider: true
+      },
+
       // Secret commands
       {
         id: 'bitwardenSecretsExplorer.editSecret',
@@ -125,6 +197,26 @@ export class CommandRegistry {
         },
         requiresProvider: true
       },
+      {
+        id: 'bitwardenSecretsExplorer.openSecretDocument',
+        handler: (item: any) => {
+          return openSecretDocumentCommand(this.appState.bitwardenSecretsProvider!, item);
+        },
+        requiresProvider: true
+      },
+      {
+        id: 'bitwardenSecretsExplorer.openSecretJsonDocument',
+        handler: (item: any) => {
+          return openSecretDocumentCommand(this.appState.bitwardenSecretsProvider!, item, 'json');
+        },
+        requiresProvider: true
+      },
+      {
+        id: 'bitwardenSecretsExplorer.openProjectEnvDocument',
+        handler: (item: any) => {
+          return openProjectEnvDocumentCommand(item);
+        }
+      },
       {
         id: 'bitwardenSecretsExplorer.copySecret',
         handler: (item: any) => {
@@ -142,17 +234,30 @@ export class CommandRegistry {
       {
         id: 'bitwardenSecretsExplorer.loadSecretToEnv',
         handler: (item: any) => {
-          return loadSecretToEnvCommand(this.appState.bitwardenSecretsProvider!, item);
+          return loadSecretToEnvCommand(this.appState.bitwardenSecretsProvider!, this.appState.terminalSecrets, item);
         },
         requiresProvider: true
       },
       {
         id: 'bitwardenSecretsExplorer.loadProjectSecretsToEnv',
         handler: (item: any) => {
-          return loadProjectSecretsToEnvCommand(this.appState.bitwardenSecretsProvider!, item);
+          return loadProjectSecretsToEnvCommand(this.appState.bitwardenSecretsProvider!, this.appState.terminalSecrets, item);
         },
         requiresProvider: true
       },
+      {
+        id: 'bitwardenSecretsExplorer.unloadTerminalSecrets',
+        handler: () => {
+          return unloadTerminalSecretsCommand(this.appState.terminalSecrets);
+        }
+      },
+      {
+        id: 'bitwardenSecretsExplorer.runCommandWithSecrets',
+        handler: () => {
+          const profiles = this.appState.profileService;
+          return runCommandWithSecretsCommand(this.context, profiles, new SecretEnvironmentService(profiles));
+        }
+      },
       {
         id: 'bitwardenSecretsExplorer.copyProjectSecrets',
         handler: (item: any) => {
@@ -170,17 +275,70 @@ export class CommandRegistry {
       {
         id: 'bitwardenSecretsExplorer.importSecretsFromEnv',
         handler: (item: any) => {
-          return importSecretsFromEnvCommand(this.appState.bitwardenSecretsProvider!, item);
+          return importSecretsFromEnvCommand(this.context, this.appState.bitwardenSecretsProvider!, item);
         },
         requiresProvider: true,
         refreshAfter: true
       },
+      {
+        id: 'bitwardenSecretsExplorer.previewImportFromEnv',
+        handler: (item: any) => {
+          return importSecretsFromEnvCommand(this.context, this.appState.bitwardenSecretsProvider!, item, true);
+        },
+        requiresProvider: true
+      },
+
+      // Compare commands
+      {
+        id: 'bitwardenSecretsExplorer.compareWithProject',
+        handler: async (uri?: vscode.Uri) => {
+          await compareWithProjectCommand(this.appState.profileService, this.appState.envCompareProvider, uri);
+        }
+      },
+      {
+        id: 'bitwardenSecretsExplorer.pullComparedKey',
+        handler: async (sessionId: string, key: string) => {
+          await pullComparedKeyCommand(this.appState.envCompareProvider, sessionId, key);
+        }
+      },
+      {
+        id: 'bitwardenSecretsExplorer.pushComparedKey',
+        handler: async (sessionId: string, key: string) => {
+          if (await pushComparedKeyCommand(this.appState.envCompareProvider, sessionId, key)) {
+            this.appState.refreshAll();
+          }
+        }
+      },
+      {
+        id: 'bitwardenSecretsExplorer.revealComparedValues',
+        handler: () => this.appState.envCompareProvider.setRevealed(true)
+      },
+      {
+        id: 'bitwardenSecretsExplorer.hideComparedValues',
+        handler: () => this.appState.envCompareProvider.setRevealed(false)
+      },
+
+      // Binding commands
+      {
+        id: 'bitwardenSecretsExplorer.pullBoundSecrets',
+        handler: () => {
+          return pullBoundSecretsCommand(new BindingService(this.appState.profileService));
+        }
+      },
+      {
+        id: 'bitwardenSecretsExplorer.pushBoundSecrets',
+        handler: async () => {
+          if (await pushBoundSecretsCommand(new BindingService(this.appState.profileService))) {
+            this.appState.refreshAll();
+          }
+        }
+      },
 
       // Utility commands
       {
         id: 'bitwardenSecretsExplorer.refreshEntry',
         handler: () => {
-          this.appState.refreshAll();
+          this.appState.refreshAll(true);
         }
       }
     ];
@@ -206,8 +364,8 @@ export class CommandRegistry {
 
             return result;
           } catch (error) {
-            console.error(`Error executing command ${command.id}:`, error);
-            vscode.window.showErrorMessage(`Failed to execute command: ${error}`);
+            console.error(redactionService.redact(`Error executing command ${command.id}: ${error instanceof Error ? error.stack ?? error : error}`));
+            vscode.window.showErrorMessage(redactionService.redact(`Failed to execute command: ${error}`));
           }
         }
       );
@@ -2,6 +2,19 @@ import * as vscode from 'vscode';
 import { ApplicationState } from './ApplicationState';
 import { CommandRegistry } from './CommandRegistry';
 import { UIManager } from './UIManager';
+import { ServerConfigService } from '../services/ServerConfigService';
+import { ProfileService } from '../services/ProfileService';
+import { enableTestMode, setSecretsBackendFactory } from '../services/backendFactory';
+import { SecretsBackendFactory } from '../services/SecretsBackend';
+
+/**
+ * API returned from `activate`, used by the test harness to reach the
+ * application state and to swap the secrets backend
+ */
+export interface ExtensionApi {
+  appState: ApplicationState;
+  useSecretsBackend(factory?: SecretsBackendFactory): void;
+}
 
 /**
  * Main extension manager that orchestrates all components
@@ -12,24 +25,65 @@ export class ExtensionManager {
   private uiManager: UIManager;
 
   constructor(private context: vscode.ExtensionContext) {
+    if (this.isTestMode) {
+      enableTestMode();
+    }
     this.appState = new ApplicationState(context);
     this.commandRegistry = new CommandRegistry(context, this.appState);
     this.uiManager = new UIManager(context, this.appState);
   }
 
-  activate(): void {
+  async activate(): Promise<void> {
+    // Load connection profiles before anything reads credentials
+    await this.appState.initialize();
+
     // Initialize UI components
     this.uiManager.initialize();
 
     // Register all commands
     this.commandRegistry.registerAll();
 
+    // Rebuild clients whenever the server selection changes and redraw the tree on layout changes
+    this.context.subscriptions.push(
+      vscode.workspace.onDidChangeConfiguration((event) => {
+        if (ServerConfigService.affectsServerSettings(event)) {
+          this.appState.applyServerSettings(ServerConfigService.getServerSettings());
+        } else if (event.affectsConfiguration('bitwardenSecretsExplorer.cache')) {
+          this.appState.profileService.applyCacheTtl(ProfileService.getCacheTtlSeconds());
+        } else if (event.affectsConfiguration('bitwardenSecretsExplorer.tree')) {
+          this.appState.bitwardenSecretsProvider?.refresh();
+        }
+      })
+    );
+
     // Set up cleanup on extension deactivation
     this.context.subscriptions.push({
       dispose: () => this.dispose()
     });
   }
 
+  /**
+   * The API for the test harness. Other extensions could read credentials or
+   * swap the backend through it, so it is only returned in test mode.
+   */
+  getApi(): ExtensionApi | undefined {
+    if (!this.isTestMode) {
+      return undefined;
+    }
+    return {
+      appState: this.appState,
+      useSecretsBackend: (factory?: SecretsBackendFactory) => {
+        setSecretsBackendFactory(factory);
+        this.appState.profileService.resetBackends();
+        this.appState.refreshAll();
+      }
+    };
+  }
+
+  private get isTestMode(): boolean {
+    return this.context.extensionMode === vscode.ExtensionMode.Test;
+  }
+
   private dispose(): void {
     this.appState.dispose();
     this.uiManager.dispose();
@@ -1,12 +1,20 @@
 import * as vscode from 'vscode';
 import { ApplicationState } from './ApplicationState';
 import { BitwardenWelcomeProvider } from '../ui/welcomeProvider';
+import { ServerConfigService } from '../services/ServerConfigService';
+import { BitwardenFileSystemProvider } from '../fileSystemProvider';
+import { EnvCompareProvider } from '../ui/envCompareProvider';
+import { BitwardenTaskProvider } from '../ui/taskProvider';
+import { BitwardenDebugConfigurationProvider } from '../ui/debugConfigurationProvider';
+import { SecretEnvironmentService } from '../services/SecretEnvironmentService';
 
 /**
  * Manages UI components and their lifecycle
  */
 export class UIManager {
   private welcomeProvider: BitwardenWelcomeProvider;
+  private profileStatusBarItem: vscode.StatusBarItem;
+  private fileSystemProvider: BitwardenFileSystemProvider;
 
   constructor(
     private context: vscode.ExtensionContext,
@@ -14,11 +22,16 @@ export class UIManager {
   ) {
     this.welcomeProvider = new BitwardenWelcomeProvider(
       context.extensionUri,
-      context,
+      this.appState.profileService,
       this.handleStateChange.bind(this)
     );
     
     this.appState.setWelcomeProvider(this.welcomeProvider);
+
+    this.profileStatusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 100);
+    this.profileStatusBarItem.command = 'bitwardenSecretsExplorer.switchProfile';
+
+    this.fileSystemProvider = new BitwardenFileSystemProvider(this.appState.profileService);
   }
 
   initialize(): void {
@@ -31,6 +44,47 @@ export class UIManager {
 
     // Initialize the welcome view
     this.welcomeProvider.updateView();
+
+    // Show the active profile in the status bar
+    const profiles = this.appState.profileService;
+    this.context.subscriptions.push(
+      this.profileStatusBarItem,
+      profiles.onDidChangeActiveProfile(() => this.updateProfileStatusBar()),
+      profiles.onDidChangeProfiles(() => this.updateProfileStatusBar())
+    );
+    this.updateProfileStatusBar();
+
+    // Serve secrets as documents under the bitwarden: scheme and keep the tree in sync with saves
+    this.context.subscriptions.push(
+      vscode.workspace.registerFileSystemProvider(BitwardenFileSystemProvider.scheme, this.fileSystemProvider, {
+        isCaseSensitive: true
+      }),
+      this.fileSystemProvider,
+      this.fileSystemProvider.onDidChangeFile(() => this.appState.bitwardenSecretsProvider?.refresh())
+    );
+
+    // Serve both sides of env file comparisons, with per-key pull and push lenses
+    const compareProvider = this.appState.envCompareProvider;
+    this.context.subscriptions.push(
+      vscode.workspace.registerTextDocumentContentProvider(EnvCompareProvider.scheme, compareProvider),
+      vscode.languages.registerCodeLensProvider({ scheme: EnvCompareProvider.scheme }, compareProvider),
+      compareProvider
+    );
+
+    // Run `bitwarden` tasks and debug sessions with `bitwardenProjects` with project secrets in their environment
+    const secretEnvironment = new SecretEnvironmentService(this.appState.profileService);
+    this.context.subscriptions.push(
+      vscode.tasks.registerTaskProvider(BitwardenTaskProvider.type, new BitwardenTaskProvider(secretEnvironment)),
+      vscode.debug.registerDebugConfigurationProvider('*', new BitwardenDebugConfigurationProvider(secretEnvironment))
+    );
+  }
+
+  private updateProfileStatusBar(): void {
+    const profiles = this.appState.profileService;
+    const active = profiles.getActiveProfile();
+    this.profileStatusBarItem.text = `$(lock) ${active.name}`;
+    this.profileStatusBarItem.tooltip = `Bitwarden profile: ${active.name}\nServer: ${ServerConfigService.describe(profiles.getServerSettings(active.id))}\nClick to switch profile`;
+    this.profileStatusBarItem.show();
   }
 
   private async handleStateChange(hasData: boolean): Promise<void> {
@@ -5,4 +5,4 @@
 export { ApplicationState } from './ApplicationState';
 export { CommandRegistry } from './CommandRegistry';
 export { UIManager } from './UIManager';
-export { ExtensionManager } from './ExtensionManager';
\ No newline at end of file
+export { ExtensionManager, ExtensionApi } from './ExtensionManager';
\ No newline at end of file
@@ -1,9 +1,10 @@
 import * as vscode from 'vscode';
-import { ExtensionManager } from './core';
+import { ExtensionManager, ExtensionApi } from './core';
 
-export function activate(context: vscode.ExtensionContext) {
+export async function activate(context: vscode.ExtensionContext): Promise<ExtensionApi | undefined> {
   const extensionManager = new ExtensionManager(context);
-  extensionManager.activate();
+  await extensionManager.activate();
+  return extensionManager.getApi();
 }
 
 
@@ -1,3 +1,12 @@
+import * as vscode from 'vscode';
+import { ValidationError } from './errors';
+import { ProfileService } from './services/ProfileService';
+import { SecretsBackend } from './services/SecretsBackend';
+import { EnvDocumentChanges, EnvDocumentService } from './services/EnvDocumentService';
+import { redactionService } from './services/RedactionService';
+import { describeDiagnostics, parseDotenv } from './utils/envFile';
+import { Project, Secret, SecretMetadata } from './types';
+
 export class SecretDocument {
   constructor(
     public readonly id: string,
@@ -21,6 +30,19 @@ export class SecretDocument {
   }
 
 
+  static fromSecret(secret: Secret): SecretDocument {
+    return new SecretDocument(
+      secret.id ?? '',
+      secret.projectId,
+      secret.key,
+      secret.value,
+      secret.note || '',
+      secret.creationDate ? new Date(secret.creationDate) : undefined,
+      secret.revisionDate ? new Date(secret.revisionDate) : undefined
+    );
+  }
+
+
   static fromJSON(jsonStr: string): SecretDocument {
     const data = JSON.parse(jsonStr);
     return new SecretDocument(
@@ -57,3 +79,407 @@ export class SecretDocument {
     return errors;
   }
 }
+
+type SecretFileFormat = 'value' | 'json';
+
+interface SecretFile {
+  project: Project;
+  metadata: SecretMetadata;
+  format: SecretFileFormat;
+}
+
+const JSON_SUFFIX = '.json';
+const ENV_FILE_NAME = '.env';
+
+/**
+ * File system for the `bitwarden:` scheme. `bitwarden:/<project>/<KEY>` holds the
+ * value of a secret, `bitwarden:/<project>/<KEY>.json` its full document and
+ * `bitwarden:/<project>/.env` all secrets of the project.
+ * The URI authority selects a connection profile; the active profile is used
+ * when it is empty.
+ */
+export class BitwardenFileSystemProvider implements vscode.FileSystemProvider {
+  static readonly scheme = 'bitwarden';
+
+  private _onDidChangeFile = new vscode.EventEmitter<vscode.FileChangeEvent[]>();
+  readonly onDidChangeFile = this._onDidChangeFile.event;
+
+  /** Values of each `.env` document as last read, which a save is compared with */
+  private shownEnvValues = new Map<string, { [key: string]: string }>();
+
+  constructor(private profiles: ProfileService) {}
+
+  /**
+   * Build the URI of a secret document. Projects whose name and secrets whose
+   * key contains a slash are addressed by ID.
+   */
+  static uriFor(
+    project: Project,
+    secret: { id?: string; key: string },
+    format: SecretFileFormat = 'value',
+    profileId?: string
+  ): vscode.Uri {
+    const projectSegment = project.name.includes('/') ? project.id : project.name;
+    const name = secret.key.includes('/') && secret.id ? secret.id : secret.key;
+    const fileName = format === 'json' ? `${name}${JSON_SUFFIX}` : name;
+    return vscode.Uri.from({
+      scheme: BitwardenFileSystemProvider.scheme,
+      authority: profileId ?? '',
+      path: `/${projectSegment}/${fileName}`
+    });
+  }
+
+  /**
+   * Build the URI of the virtual `.env` document of a project
+   */
+  static envUriFor(project: Project, profileId?: string): vscode.Uri {
+    return BitwardenFileSystemProvider.uriFor(project, { key: ENV_FILE_NAME }, 'value', profileId);
+  }
+
+  watch(): vscode.Disposable {
+    // Changes made elsewhere are picked up on the next read
+    return new vscode.Disposable(() => undefined);
+  }
+
+  async stat(uri: vscode.Uri): Promise<vscode.FileStat> {
+    const segments = this.segments(uri);
+    if (segments.length === 0) {
+      return { type: vscode.FileType.Directory, ctime: 0, mtime: 0, size: 0 };
+    }
+
+    const backend = await this.getBackend(uri);
+    if (segments.length === 1) {
+      const project = await this.resolveProject(backend, uri, segments[0]);
+      return {
+        type: vscode.FileType.Directory,
+        ctime: toTime(project.creationDate),
+        mtime: toTime(project.revisionDate),
+        size: 0
+      };
+    }
+
+    if (segments.length === 2 && segments[1] === ENV_FILE_NAME) {
+      const project = await this.resolveProject(backend, uri, segments[0]);
+      const secrets = await backend.listSecrets(project.id);
+      return {
+        type: vscode.FileType.File,
+        ctime: toTime(project.creationDate),
+        mtime: Math.max(toTime(project.revisionDate), ...secrets.map(secret => toTime(secret.revisionDate))),
+        size: Buffer.byteLength(EnvDocumentService.render(project.name, secrets), 'utf8')
+      };
+    }
+
+    const file = await this.resolveSecretFile(backend, uri, segments);
+    const secret = await backend.getSecret(file.metadata.id);
+    return {
+      type: vscode.FileType.File,
+      ctime: toTime(secret.creationDate),
+      mtime: toTime(secret.revisionDate),
+      size: Buffer.byteLength(this.render(secret, file.format), 'utf8')
+    };
+  }
+
+  async readDirectory(uri: vscode.Uri): Promise<[string, vscode.FileType][]> {
+    const segments = this.segments(uri);
+    const backend = await this.getBackend(uri);
+
+    if (segments.length === 0) {
+      const projects = await backend.listProjects();
+      return projects.map(project => [
+        project.name.includes('/') ? project.id : project.name,
+        vscode.FileType.Directory
+      ]);
+    }
+
+    if (segments.length === 1) {
+      const project = await this.resolveProject(backend, uri, segments[0]);
+      const secrets = await backend.listSecretMetadata(project.id);
+      return [
+        [ENV_FILE_NAME, vscode.FileType.File],
+        ...secrets
+          .filter(secret => secret.key !== ENV_FILE_NAME)
+          .map((secret): [string, vscode.FileType] => [secret.key.includes('/') ? secret.id : secret.key, vscode.FileType.File])
+      ];
+    }
+
+    throw vscode.FileSystemError.FileNotADirectory(uri);
+  }
+
+  async readFile(uri: vscode.Uri): Promise<Uint8Array> {
+    const backend = await this.getBackend(uri);
+    const segments = this.segments(uri);
+    if (segments.length === 2 && segments[1] === ENV_FILE_NAME) {
+      const project = await this.resolveProject(backend, uri, segments[0]);
+      const secrets = await backend.listSecrets(project.id);
+      this.shownEnvValues.set(uri.toString(), EnvDocumentService.shownValues(secrets));
+      return Buffer.from(EnvDocumentService.render(project.name, secrets), 'utf8');
+    }
+
+    const file = await this.resolveSecretFile(backend, uri, segments);
+    const secret = await backend.getSecret(file.metadata.id);
+    return Buffer.from(this.render(secret, file.format), 'utf8');
+  }
+
+  /**
+   * Save a secret document. Value files replace the value only, JSON documents
+   * may also change key, note and project. New value files create a secret.
+   * Saving a project's `.env` document applies the confirmed diff to the project.
+   */
+  async writeFile(uri: vscode.Uri, content: Uint8Array, options: { create: boolean; overwrite: boolean }): Promise<void> {
+    const segments = this.segments(uri);
+    if (segments.length !== 2) {
+      throw vscode.FileSystemError.NoPermissions('Secrets can only be saved inside a project folder');
+    }
+
+    const backend = await this.getBackend(uri);
+    const project = await this.resolveProject(backend, uri, segments[0]);
+    const text = Buffer.from(content).toString('utf8');
+    if (segments[1] === ENV_FILE_NAME) {
+      await this.saveEnvDocument(backend, uri, project, text);
+      return;
+    }
+
+    const file = await this.findSecretFile(backend, project, segments[1]);
+
+    if (!file) {
+      if (!options.create) {
+        throw vscode.FileSystemError.FileNotFound(uri);
+      }
+      const document = new SecretDocument('', project.id, segments[1], text);
+      this.assertValid(document);
+      await backend.createSecret({ key: document.key, value: document.value, note: document.note, projectId: project.id });
+      this.fireChanged(uri, vscode.FileChangeType.Created);
+      return;
+    }
+
+    if (!options.overwrite) {
+      throw vscode.FileSystemError.FileExists(uri);
+    }
+
+    const existing = SecretDocument.fromSecret(await backend.getSecret(file.metadata.id));
+    let document: SecretDocument;
+    if (file.format === 'json') {
+      document = this.parseDocument(text);
+      if (document.id !== existing.id) {
+        throw new ValidationError('id', 'The id of a secret cannot be changed');
+      }
+    } else {
+      document = new SecretDocument(existing.id, existing.projectId, existing.key, text, existing.note);
+    }
+
+    this.assertValid(document);
+    await backend.updateSecret({
+      id: existing.id,
+      key: document.key,
+      value: document.value,
+      note: document.note,
+      projectId: document.projectId || existing.projectId
+    });
+    this.fireChanged(uri, vscode.FileChangeType.Changed);
+  }
+
+  createDirectory(): void {
+    throw vscode.FileSystemError.NoPermissions('Create projects from the Bitwarden Secrets view');
+  }
+
+  delete(): void {
+    throw vscode.FileSystemError.NoPermissions('Delete secrets from the Bitwarden Secrets view');
+  }
+
+  rename(): void {
+    throw vscode.FileSystemError.NoPermissions('Rename secrets by editing their JSON document');
+  }
+
+  dispose(): void {
+    this._onDidChangeFile.dispose();
+  }
+
+  private segments(uri: vscode.Uri): string[] {
+    return uri.path.split('/').filter(segment => segment.length > 0);
+  }
+
+  /**
+   * Get an authenticated backend for the profile named in the URI
+   */
+  private async getBackend(uri: vscode.Uri): Promise<SecretsBackend> {
+    const profileId = uri.authority || this.profiles.getActiveProfile().id;
+    if (!this.profiles.getProfile(profileId)) {
+      throw vscode.FileSystemError.Unavailable(`Bitwarden profile ${profileId} not found`);
+    }
+
+    const backend = this.profiles.getBackend(profileId);
+    if (!backend.isClientAuthenticated()) {
+      const accessToken = await this.profiles.getAccessToken(profileId);
+      if (!accessToken) {
+        throw vscode.FileSystemError.NoPermissions('Bitwarden Access Token not set');
+      }
+      await backend.authenticate(accessToken);
+    }
+    if (!backend.getOrganizationId()) {
+      const organizationId = await this.profiles.getOrganizationId(profileId);
+      if (!organizationId) {
+        throw vscode.FileSystemError.NoPermissions('Bitwarden Organization ID not set');
+      }
+      backend.setOrganizationId(organizationId);
+    }
+    return backend;
+  }
+
+  /**
+   * Find a project by name, or by ID for names that cannot be used as a path segment
+   */
+  private async resolveProject(backend: SecretsBackend, uri: vscode.Uri, segment: string): Promise<Project> {
+    const projects = await backend.listProjects();
+    const project = projects.find(p => p.name === segment) ?? projects.find(p => p.id === segment);
+    if (!project) {
+      throw vscode.FileSystemError.FileNotFound(uri);
+    }
+    return project;
+  }
+
+  private async resolveSecretFile(backend: SecretsBackend, uri: vscode.Uri, segments: string[]): Promise<SecretFile> {
+    if (segments.length !== 2) {
+      throw vscode.FileSystemError.FileNotFound(uri);
+    }
+    const project = await this.resolveProject(backend, uri, segments[0]);
+    const file = await this.findSecretFile(backend, project, segments[1]);
+    if (!file) {
+      throw vscode.FileSystemError.FileNotFound(uri);
+    }
+    return file;
+  }
+
+  /**
+   * Match a file name to a secret by key, or by ID for keys that cannot be used
+   * as a path segment. An exact match wins over a `.json` document.
+   */
+  private async findSecretFile(backend: SecretsBackend, project: Project, fileName: string): Promise<SecretFile | undefined> {
+    const secrets = await backend.listSecretMetadata(project.id);
+    const find = (name: string) => secrets.find(secret => secret.key === name) ?? secrets.find(secret => secret.id === name);
+
+    const exact = find(fileName);
+    if (exact) {
+      return { project, metadata: exact, format: 'value' };
+    }
+
+    if (fileName.endsWith(JSON_SUFFIX)) {
+      const document = find(fileName.slice(0, -JSON_SUFFIX.length));
+      if (document) {
+        return { project, metadata: document, format: 'json' };
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Apply the creates, updates and deletes implied by a saved `.env` document
+   * once the user confirmed them. Declining leaves the document unsaved, as do
+   * malformed lines, which would otherwise read as deleted secrets.
+   */
+  private async saveEnvDocument(backend: SecretsBackend, uri: vscode.Uri, project: Project, text: string): Promise<void> {
+    const parsed = parseDotenv(text);
+    if (parsed.diagnostics.some(diagnostic => diagnostic.severity === 'error')) {
+      throw new ValidationError('document', `Invalid .env document: ${describeDiagnostics(parsed.diagnostics)}`);
+    }
+
+    const changes = EnvDocumentService.computeChanges(
+      await backend.listSecrets(project.id),
+      parsed.values,
+      this.shownEnvValues.get(uri.toString())
+    );
+    if (EnvDocumentService.countChanges(changes) === 0) {
+      return;
+    }
+
+    for (const change of changes.creates) {
+      this.assertValid(new SecretDocument('', project.id, change.key, change.value));
+    }
+    for (const change of changes.updates) {
+      this.assertValid(new SecretDocument(change.secret.id ?? '', project.id, change.secret.key, change.value));
+    }
+
+    if (!(await this.confirmEnvChanges(project, changes))) {
+      throw vscode.FileSystemError.NoPermissions('Save cancelled; no secrets were changed');
+    }
+
+    const failures: string[] = [];
+    const attempt = async (key: string, action: () => Promise<unknown>) => {
+      try {
+        await action();
+      } catch (error) {
+        failures.push(`${key}: ${error instanceof Error ? error.message : error}`);
+      }
+    };
+
+    for (const change of changes.creates) {
+      await attempt(change.key, () => backend.createSecret({ key: change.key, value: change.value, note: '', projectId: project.id }));
+    }
+    for (const change of changes.updates) {
+      const { secret, value } = change;
+      await attempt(secret.key, () => backend.updateSecret({ id: secret.id!, key: secret.key, value, note: secret.note ?? '', projectId: secret.projectId }));
+    }
+    for (const secret of changes.deletes) {
+      await attempt(secret.key, () => backend.deleteSecret(secret.id!));
+    }
+
+    this.fireChanged(uri, vscode.FileChangeType.Changed);
+    if (failures.length > 0) {
+      const total = EnvDocumentService.countChanges(changes);
+      throw new Error(redactionService.redact(`Applied ${total - failures.length} of ${total} changes. Failed: ${failures.join('; ')}`));
+    }
+  }
+
+  /**
+   * Preview the changes of a `.env` save in a modal dialog
+   */
+  private async confirmEnvChanges(project: Project, changes: EnvDocumentChanges): Promise<boolean> {
+    const lines = EnvDocumentService.describe(changes);
+    const shown = lines.slice(0, 30);
+    if (lines.length > shown.length) {
+      shown.push(`... and ${lines.length - shown.length} more`);
+    }
+
+    const choice = await vscode.window.showWarningMessage(
+      `Apply ${lines.length} change${lines.length === 1 ? '' : 's'} to project "${project.name}"?`,
+      { modal: true, detail: shown.join('\n') },
+      'Apply Changes'
+    );
+    return choice === 'Apply Changes';
+  }
+
+  private render(secret: Secret, format: SecretFileFormat): string {
+    return format === 'json' ? SecretDocument.fromSecret(secret).toJSON() : secret.value;
+  }
+
+  private parseDocument(text: string): SecretDocument {
+    let document: SecretDocument;
+    try {
+      document = SecretDocument.fromJSON(text);
+    } catch (error) {
+      throw new ValidationError('document', `Invalid secret document: ${error instanceof Error ? error.message : error}`);
+    }
+    if (typeof document.key !== 'string' || typeof document.value !== 'string') {
+      throw new ValidationError('document', 'Invalid secret document: key and value must be strings');
+    }
+    return document;
+  }
+
+  private assertValid(document: SecretDocument): void {
+    const errors = document.validate();
+    if (errors.length > 0) {
+      throw new ValidationError('secret', errors.join('; '));
+    }
+  }
+
+  private fireChanged(uri: vscode.Uri, type: vscode.FileChangeType): void {
+    this._onDidChangeFile.fire([
+      { type, uri },
+      { type: vscode.FileChangeType.Changed, uri: vscode.Uri.joinPath(uri, '..') }
+    ]);
+  }
+}
+
+function toTime(date?: string): number {
+  return date ? new Date(date).getTime() : 0;
+}
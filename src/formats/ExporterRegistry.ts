@@ -0,0 +1,40 @@
+import { SecretExporter } from './SecretExporter';
+import { DockerEnvExporter } from './exporters/DockerEnvExporter';
+import { DotenvExporter } from './exporters/DotenvExporter';
+import { JsonExporter } from './exporters/JsonExporter';
+import { KubernetesSecretExporter } from './exporters/KubernetesSecretExporter';
+import { ShellExporter } from './exporters/ShellExporter';
+import { YamlExporter } from './exporters/YamlExporter';
+
+/**
+ * Keeps the available export formats, in the order they are offered
+ */
+export class ExporterRegistry {
+  private exporters = new Map<string, SecretExporter>();
+
+  register(exporter: SecretExporter): void {
+    if (this.exporters.has(exporter.id)) {
+      throw new Error(`An exporter with id "${exporter.id}" is already registered`);
+    }
+    this.exporters.set(exporter.id, exporter);
+  }
+
+  get(id: string): SecretExporter | undefined {
+    return this.exporters.get(id);
+  }
+
+  list(): SecretExporter[] {
+    return [...this.exporters.values()];
+  }
+}
+
+/**
+ * Registry with the built-in formats
+ */
+export const exporterRegistry = new ExporterRegistry();
+exporterRegistry.register(new DotenvExporter());
+exporterRegistry.register(new JsonExporter());
+exporterRegistry.register(new YamlExporter());
+exporterRegistry.register(new ShellExporter());
+exporterRegistry.register(new DockerEnvExporter());
+exporterRegistry.register(new KubernetesSecretExporter());
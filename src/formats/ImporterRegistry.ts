@@ -0,0 +1,59 @@
+import { SecretImporter } from './SecretImporter';
+import { AppSettingsImporter } from './importers/AppSettingsImporter';
+import { DotenvImporter } from './importers/DotenvImporter';
+import { JsonImporter } from './importers/JsonImporter';
+import { KubernetesSecretImporter } from './importers/KubernetesSecretImporter';
+import { YamlImporter } from './importers/YamlImporter';
+
+/**
+ * Keeps the available import formats; earlier importers win when several accept a file
+ */
+export class ImporterRegistry {
+  private importers = new Map<string, SecretImporter>();
+
+  register(importer: SecretImporter): void {
+    if (this.importers.has(importer.id)) {
+      throw new Error(`An importer with id "${importer.id}" is already registered`);
+    }
+    this.importers.set(importer.id, importer);
+  }
+
+  get(id: string): SecretImporter | undefined {
+    return this.importers.get(id);
+  }
+
+  list(): SecretImporter[] {
+    return [...this.importers.values()];
+  }
+
+  /**
+   * Globs matching the candidate files of every importer
+   */
+  filePatterns(): string[] {
+    return [...new Set(this.list().flatMap(importer => importer.filePatterns))];
+  }
+
+  /**
+   * Whether any importer may read a file with this name
+   */
+  matchesFileName(fileName: string): boolean {
+    return this.list().some(importer => importer.matchesFileName(fileName));
+  }
+
+  /**
+   * The first importer that reads this file, if any
+   */
+  find(fileName: string, content: string): SecretImporter | undefined {
+    return this.list().find(importer => importer.matchesFileName(fileName) && (importer.accepts?.(content) ?? true));
+  }
+}
+
+/**
+ * Registry with the built-in formats
+ */
+export const importerRegistry = new ImporterRegistry();
+importerRegistry.register(new DotenvImporter());
+importerRegistry.register(new KubernetesSecretImporter());
+importerRegistry.register(new AppSettingsImporter());
+importerRegistry.register(new JsonImporter());
+importerRegistry.register(new YamlImporter());
@@ -0,0 +1,53 @@
+/**
+ * A key that an exporter could not represent in its format
+ */
+export interface SkippedSecret {
+  key: string;
+  reason: string;
+}
+
+export interface ExportResult {
+  content: string;
+  skipped: SkippedSecret[];
+}
+
+/**
+ * What an export is made from, for option defaults
+ */
+export interface ExportContext {
+  projectName: string;
+}
+
+/**
+ * A format-specific setting the user is asked for before exporting. Options
+ * with choices are picked from a list, others are typed in.
+ */
+export interface ExportOption {
+  id: string;
+  prompt: string;
+  choices?: { value: string; label: string; description?: string }[];
+  defaultValue?: (context: ExportContext) => string;
+  /** Returns an error message for invalid input */
+  validate?: (value: string) => string | undefined;
+}
+
+/**
+ * Turns secret key/value pairs into the text of one output format
+ */
+export interface SecretExporter {
+  /** Stable identifier, e.g. `json` */
+  readonly id: string;
+  /** Name shown in format pickers */
+  readonly label: string;
+  readonly description: string;
+  /** File name suggested when exporting to a file */
+  readonly defaultFileName: string;
+  /** Language of the output, used when the result is opened in an editor */
+  readonly languageId: string;
+  readonly options?: ExportOption[];
+
+  /**
+   * @param options answers to `options`, by option id
+   */
+  export(values: { [key: string]: string }, options?: { [id: string]: string }): ExportResult;
+}
@@ -0,0 +1,38 @@
+export interface ImportDiagnostic {
+  /** 1-based line number, when the problem belongs to one */
+  line?: number;
+  message: string;
+  severity: 'error' | 'warning';
+}
+
+export interface ImportResult {
+  values: { [key: string]: string };
+  /** Problems found while reading; entries with errors are left out of `values` */
+  diagnostics: ImportDiagnostic[];
+}
+
+export const DEFAULT_FLATTEN_SEPARATOR = '__';
+
+export interface ImportOptions {
+  /** Joins the keys of nested objects, `__` by default */
+  flattenSeparator?: string;
+}
+
+/**
+ * Reads secret key/value pairs from the text of one input format
+ */
+export interface SecretImporter {
+  readonly id: string;
+  readonly label: string;
+  /** Globs for finding candidate files in the workspace */
+  readonly filePatterns: string[];
+
+  /** Whether a file with this name may be in the format */
+  matchesFileName(fileName: string): boolean;
+  /**
+   * Whether the content is in the format, for file names several importers
+   * match. Importers without it accept every matching file.
+   */
+  accepts?(content: string): boolean;
+  import(content: string, options?: ImportOptions): ImportResult;
+}
@@ -0,0 +1,30 @@
+import { ExportResult, SecretExporter, SkippedSecret } from '../SecretExporter';
+
+/**
+ * A file for `docker run --env-file`. Docker reads everything after the first
+ * `=` literally, so nothing is quoted and multi-line values cannot be written.
+ */
+export class DockerEnvExporter implements SecretExporter {
+  readonly id = 'docker';
+  readonly label = 'Docker env-file';
+  readonly description = 'For docker run --env-file; values are written unquoted';
+  readonly defaultFileName = 'docker.env';
+  readonly languageId = 'properties';
+
+  export(values: { [key: string]: string }): ExportResult {
+    const lines: string[] = [];
+    const skipped: SkippedSecret[] = [];
+
+    for (const [key, value] of Object.entries(values)) {
+      if (/[\s=]/.test(key) || key.startsWith('#')) {
+        skipped.push({ key, reason: 'not a valid variable name for an env-file' });
+      } else if (/[\r\n]/.test(value)) {
+        skipped.push({ key, reason: 'multi-line values are not supported by env-files' });
+      } else {
+        lines.push(`${key}=${value}`);
+      }
+    }
+
+    return { content: lines.length > 0 ? `${lines.join('\n')}\n` : '', skipped };
+  }
+}
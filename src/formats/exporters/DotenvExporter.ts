@@ -0,0 +1,28 @@
+import { formatEnvFile, isValidEnvKey } from '../../utils/envFile';
+import { ExportResult, SecretExporter, SkippedSecret } from '../SecretExporter';
+
+/**
+ * `KEY=value` lines, quoted and escaped where a dotenv parser needs it
+ */
+export class DotenvExporter implements SecretExporter {
+  readonly id = 'dotenv';
+  readonly label = 'Dotenv (.env)';
+  readonly description = 'KEY=value lines, quoted where needed';
+  readonly defaultFileName = '.env';
+  readonly languageId = 'dotenv';
+
+  export(values: { [key: string]: string }): ExportResult {
+    const written: { [key: string]: string } = {};
+    const skipped: SkippedSecret[] = [];
+
+    for (const [key, value] of Object.entries(values)) {
+      if (isValidEnvKey(key)) {
+        written[key] = value;
+      } else {
+        skipped.push({ key, reason: 'not a valid .env key' });
+      }
+    }
+
+    return { content: `${formatEnvFile(written)}\n`, skipped };
+  }
+}
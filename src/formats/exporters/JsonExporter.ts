@@ -0,0 +1,16 @@
+import { ExportResult, SecretExporter } from '../SecretExporter';
+
+/**
+ * A flat JSON object of keys to string values
+ */
+export class JsonExporter implements SecretExporter {
+  readonly id = 'json';
+  readonly label = 'JSON';
+  readonly description = 'Flat object of keys to values';
+  readonly defaultFileName = 'secrets.json';
+  readonly languageId = 'json';
+
+  export(values: { [key: string]: string }): ExportResult {
+    return { content: `${JSON.stringify(values, null, 2)}\n`, skipped: [] };
+  }
+}
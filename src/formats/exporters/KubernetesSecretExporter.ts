@@ -0,0 +1,103 @@
+import { formatYamlKey, formatYamlString } from '../../utils/yaml';
+import { ExportContext, ExportOption, ExportResult, SecretExporter, SkippedSecret } from '../SecretExporter';
+
+const SECRET_KEY = /^[-._a-zA-Z0-9]+$/;
+const DNS_SUBDOMAIN = /^[a-z0-9]([-a-z0-9]*[a-z0-9])?(\.[a-z0-9]([-a-z0-9]*[a-z0-9])?)*$/;
+const DNS_LABEL = /^[a-z0-9]([-a-z0-9]*[a-z0-9])?$/;
+
+/**
+ * A `v1/Secret` manifest, with base64 `data` or plain `stringData`
+ */
+export class KubernetesSecretExporter implements SecretExporter {
+  readonly id = 'kubernetes';
+  readonly label = 'Kubernetes Secret';
+  readonly description = 'v1/Secret manifest with data or stringData';
+  readonly defaultFileName = 'secret.yaml';
+  readonly languageId = 'yaml';
+
+  readonly options: ExportOption[] = [
+    {
+      id: 'name',
+      prompt: 'Name of the Kubernetes Secret',
+      defaultValue: (context: ExportContext) => toResourceName(context.projectName),
+      validate: value => value.length <= 253 && DNS_SUBDOMAIN.test(value)
+        ? undefined
+        : 'Use lowercase letters, digits, "-" and ".", starting and ending with a letter or digit'
+    },
+    {
+      id: 'namespace',
+      prompt: 'Namespace of the Kubernetes Secret (leave empty to omit)',
+      defaultValue: () => 'default',
+      validate: value => !value || (value.length <= 63 && DNS_LABEL.test(value))
+        ? undefined
+        : 'Use lowercase letters, digits and "-", starting and ending with a letter or digit'
+    },
+    {
+      id: 'encoding',
+      prompt: 'How to write the values',
+      choices: [
+        { value: 'data', label: 'data', description: 'Base64-encoded values' },
+        { value: 'stringData', label: 'stringData', description: 'Plain values, encoded by Kubernetes on apply' }
+      ]
+    },
+    {
+      id: 'keyNames',
+      prompt: 'How to name the keys',
+      choices: [
+        { value: 'keep', label: 'Keep secret keys', description: 'e.g. DATABASE_URL' },
+        { value: 'lowercase-dash', label: 'Lowercase with dashes', description: 'e.g. database-url' }
+      ]
+    }
+  ];
+
+  export(values: { [key: string]: string }, options: { [id: string]: string } = {}): ExportResult {
+    const encoding = options.encoding === 'stringData' ? 'stringData' : 'data';
+    const skipped: SkippedSecret[] = [];
+    const entries: string[] = [];
+    const written = new Map<string, string>();
+
+    for (const [key, value] of Object.entries(values)) {
+      const name = options.keyNames === 'lowercase-dash' ? toLowercaseDash(key) : key;
+      if (!SECRET_KEY.test(name)) {
+        skipped.push({ key, reason: 'not a valid Kubernetes Secret key' });
+        continue;
+      }
+      if (written.has(name)) {
+        skipped.push({ key, reason: `maps to "${name}" like ${written.get(name)}` });
+        continue;
+      }
+      written.set(name, key);
+      const encoded = encoding === 'data' ? Buffer.from(value, 'utf8').toString('base64') : value;
+      entries.push(`  ${formatYamlKey(name)}: ${formatYamlString(encoded)}`);
+    }
+
+    const lines = [
+      'apiVersion: v1',
+      'kind: Secret',
+      'metadata:',
+      `  name: ${formatYamlString(options.name || 'secrets')}`
+    ];
+    if (options.namespace) {
+      lines.push(`  namespace: ${formatYamlString(options.namespace)}`);
+    }
+    lines.push('type: Opaque');
+    lines.push(entries.length > 0 ? `${encoding}:` : `${encoding}: {}`, ...entries);
+
+    return { content: `${lines.join('\n')}\n`, skipped };
+  }
+}
+
+/**
+ * `DATABASE_URL` becomes `database-url`
+ */
+export function toLowercaseDash(key: string): string {
+  return key.toLowerCase().replace(/_/g, '-');
+}
+
+/**
+ * A valid resource name derived from a project name
+ */
+function toResourceName(name: string): string {
+  const slug = name.toLowerCase().replace(/[^a-z0-9.-]+/g, '-').replace(/-{2,}/g, '-').replace(/^[-.]+|[-.]+$/g, '');
+  return slug.substring(0, 253) || 'secrets';
+}
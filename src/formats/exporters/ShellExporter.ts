@@ -0,0 +1,36 @@
+import { ExportResult, SecretExporter, SkippedSecret } from '../SecretExporter';
+
+const SHELL_IDENTIFIER = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/**
+ * A POSIX shell script of `export KEY='value'` lines, meant to be sourced
+ */
+export class ShellExporter implements SecretExporter {
+  readonly id = 'shell';
+  readonly label = 'Shell script (export)';
+  readonly description = 'Sourceable export KEY=\'value\' lines';
+  readonly defaultFileName = 'secrets.sh';
+  readonly languageId = 'shellscript';
+
+  export(values: { [key: string]: string }): ExportResult {
+    const lines = ['#!/bin/sh', '# Load into the current shell with: . ./secrets.sh'];
+    const skipped: SkippedSecret[] = [];
+
+    for (const [key, value] of Object.entries(values)) {
+      if (!SHELL_IDENTIFIER.test(key)) {
+        skipped.push({ key, reason: 'not a valid shell variable name' });
+        continue;
+      }
+      lines.push(`export ${key}=${quoteShellValue(value)}`);
+    }
+
+    return { content: `${lines.join('\n')}\n`, skipped };
+  }
+}
+
+/**
+ * Single-quote a value; single quotes inside are closed, escaped and reopened
+ */
+export function quoteShellValue(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
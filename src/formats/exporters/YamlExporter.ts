@@ -0,0 +1,19 @@
+import { formatYamlKey, formatYamlString } from '../../utils/yaml';
+import { ExportResult, SecretExporter } from '../SecretExporter';
+
+/**
+ * A flat YAML mapping, e.g. for Helm values. Values are always double-quoted so
+ * they stay strings (`true`, `0123` or `1e3` would otherwise change type).
+ */
+export class YamlExporter implements SecretExporter {
+  readonly id = 'yaml';
+  readonly label = 'YAML';
+  readonly description = 'Flat mapping with quoted string values, e.g. Helm values';
+  readonly defaultFileName = 'values.yaml';
+  readonly languageId = 'yaml';
+
+  export(values: { [key: string]: string }): ExportResult {
+    const lines = Object.entries(values).map(([key, value]) => `${formatYamlKey(key)}: ${formatYamlString(value)}`);
+    return { content: lines.length > 0 ? `${lines.join('\n')}\n` : '{}\n', skipped: [] };
+  }
+}
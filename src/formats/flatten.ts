@@ -0,0 +1,37 @@
+import { ImportResult } from './SecretImporter';
+
+/**
+ * Flatten a parsed JSON or YAML document into secret keys. Nested keys are
+ * joined with the separator (`Database__Host`), array items use their index,
+ * and numbers and booleans are imported as text.
+ */
+export function flattenDocument(document: unknown, separator: string, skipKeys: string[] = []): ImportResult {
+  const result: ImportResult = { values: {}, diagnostics: [] };
+  if (typeof document !== 'object' || document === null || Array.isArray(document)) {
+    result.diagnostics.push({ message: 'Expected an object of keys and values at the top level', severity: 'error' });
+    return result;
+  }
+
+  const visit = (value: unknown, path: string) => {
+    if (Array.isArray(value)) {
+      value.forEach((item, index) => visit(item, `${path}${separator}${index}`));
+    } else if (typeof value === 'object' && value !== null) {
+      for (const [key, child] of Object.entries(value)) {
+        visit(child, `${path}${separator}${key}`);
+      }
+    } else {
+      if (Object.prototype.hasOwnProperty.call(result.values, path)) {
+        result.diagnostics.push({ message: `"${path}" is defined more than once; the last definition wins`, severity: 'warning' });
+      }
+      result.values[path] = value === null || value === undefined ? '' : String(value);
+    }
+  };
+
+  for (const [key, value] of Object.entries(document)) {
+    if (!skipKeys.includes(key)) {
+      visit(value, key);
+    }
+  }
+
+  return result;
+}
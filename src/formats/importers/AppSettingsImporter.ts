@@ -0,0 +1,32 @@
+import { parseJsonc } from '../../utils/jsonc';
+import { flattenDocument } from '../flatten';
+import { ImportResult, SecretImporter } from '../SecretImporter';
+
+/**
+ * .NET separates configuration sections with `__` in environment variables
+ */
+const SECTION_SEPARATOR = '__';
+
+/**
+ * ASP.NET Core `appsettings*.json` files. Sections are always joined with `__`,
+ * so imported keys work as environment variables for .NET configuration.
+ */
+export class AppSettingsImporter implements SecretImporter {
+  readonly id = 'appsettings';
+  readonly label = 'appsettings.json';
+  readonly filePatterns = ['**/appsettings*.json'];
+
+  matchesFileName(fileName: string): boolean {
+    return /^appsettings(\..+)?\.json$/i.test(fileName);
+  }
+
+  import(content: string): ImportResult {
+    let document: unknown;
+    try {
+      document = parseJsonc(content);
+    } catch (error) {
+      return { values: {}, diagnostics: [{ message: `Invalid JSON: ${error instanceof Error ? error.message : error}`, severity: 'error' }] };
+    }
+    return flattenDocument(document, SECTION_SEPARATOR, ['$schema']);
+  }
+}
@@ -0,0 +1,20 @@
+import { parseDotenv } from '../../utils/envFile';
+import { ImportResult, SecretImporter } from '../SecretImporter';
+
+/**
+ * `.env*` files
+ */
+export class DotenvImporter implements SecretImporter {
+  readonly id = 'dotenv';
+  readonly label = 'Dotenv (.env)';
+  readonly filePatterns = ['**/.env*'];
+
+  matchesFileName(fileName: string): boolean {
+    return fileName.startsWith('.env');
+  }
+
+  import(content: string): ImportResult {
+    const { values, diagnostics } = parseDotenv(content);
+    return { values, diagnostics };
+  }
+}
@@ -0,0 +1,31 @@
+import { parseJsonc } from '../../utils/jsonc';
+import { flattenDocument } from '../flatten';
+import { DEFAULT_FLATTEN_SEPARATOR, ImportOptions, ImportResult, SecretImporter } from '../SecretImporter';
+
+/**
+ * Tool files that are never secret files
+ */
+const IGNORED_FILES = /^(package(-lock)?|composer(\.lock)?|[tj]sconfig(\..*)?|\.eslintrc|\.prettierrc|lerna|nx|turbo|renovate|vercel|firebase|angular|deno)\.json$/i;
+
+/**
+ * Flat or nested JSON objects; nested keys are flattened with the configured separator
+ */
+export class JsonImporter implements SecretImporter {
+  readonly id = 'json';
+  readonly label = 'JSON';
+  readonly filePatterns = ['**/*.json'];
+
+  matchesFileName(fileName: string): boolean {
+    return /\.json$/i.test(fileName) && !IGNORED_FILES.test(fileName);
+  }
+
+  import(content: string, options: ImportOptions = {}): ImportResult {
+    let document: unknown;
+    try {
+      document = parseJsonc(content);
+    } catch (error) {
+      return { values: {}, diagnostics: [{ message: `Invalid JSON: ${error instanceof Error ? error.message : error}`, severity: 'error' }] };
+    }
+    return flattenDocument(document, options.flattenSeparator ?? DEFAULT_FLATTEN_SEPARATOR);
+  }
+}
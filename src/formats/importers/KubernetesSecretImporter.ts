@@ -0,0 +1,102 @@
+import { isYamlMapping, parseYamlDocuments, YamlSyntaxError, YamlValue } from '../../utils/yaml';
+import { ImportDiagnostic, ImportResult, SecretImporter } from '../SecretImporter';
+
+const SECRET_KIND = /^kind:\s*["']?Secret["']?\s*(#.*)?$/m;
+const BASE64 = /^[A-Za-z0-9+/]*={0,2}$/;
+
+/**
+ * `v1/Secret` manifests, including multi-document files and `List`s. Values
+ * come from `data` (base64) and `stringData`, which wins like it does on apply.
+ */
+export class KubernetesSecretImporter implements SecretImporter {
+  readonly id = 'kubernetes';
+  readonly label = 'Kubernetes Secret';
+  readonly filePatterns = ['**/*.yaml', '**/*.yml'];
+
+  matchesFileName(fileName: string): boolean {
+    return /\.ya?ml$/i.test(fileName);
+  }
+
+  accepts(content: string): boolean {
+    return SECRET_KIND.test(content);
+  }
+
+  import(content: string): ImportResult {
+    const result: ImportResult = { values: {}, diagnostics: [] };
+
+    let documents: YamlValue[];
+    try {
+      documents = parseYamlDocuments(content);
+    } catch (error) {
+      result.diagnostics.push(error instanceof YamlSyntaxError
+        ? { line: error.line, message: error.reason, severity: 'error' }
+        : { message: `${error}`, severity: 'error' });
+      return result;
+    }
+
+    const secrets = documents.flatMap(document => isYamlMapping(document) && document.kind === 'List' && Array.isArray(document.items)
+      ? document.items
+      : [document]
+    ).filter(document => isYamlMapping(document) && document.kind === 'Secret') as { [key: string]: YamlValue }[];
+
+    if (secrets.length === 0) {
+      result.diagnostics.push({ message: 'No Kubernetes Secret found', severity: 'error' });
+      return result;
+    }
+
+    const seen = new Map<string, string>();
+    for (const secret of secrets) {
+      const name = isYamlMapping(secret.metadata) && typeof secret.metadata.name === 'string' ? secret.metadata.name : 'unnamed';
+      const entries = [
+        ...this.readSection(secret.data, name, 'data', true, result.diagnostics),
+        ...this.readSection(secret.stringData, name, 'stringData', false, result.diagnostics)
+      ];
+      for (const [key, value] of entries) {
+        const previous = seen.get(key);
+        if (previous !== undefined && previous !== name) {
+          result.diagnostics.push({ message: `"${key}" is defined in Secrets "${previous}" and "${name}"; the last one wins`, severity: 'warning' });
+        }
+        seen.set(key, name);
+        result.values[key] = value;
+      }
+    }
+
+    return result;
+  }
+
+  private readSection(
+    section: YamlValue | undefined,
+    secretName: string,
+    sectionName: string,
+    base64: boolean,
+    diagnostics: ImportDiagnostic[]
+  ): [string, string][] {
+    if (section === undefined || section === null) {
+      return [];
+    }
+    if (!isYamlMapping(section)) {
+      diagnostics.push({ message: `${sectionName} of Secret "${secretName}" is not a mapping`, severity: 'error' });
+      return [];
+    }
+
+    const entries: [string, string][] = [];
+    for (const [key, raw] of Object.entries(section)) {
+      if (raw !== null && typeof raw === 'object') {
+        diagnostics.push({ message: `${sectionName}.${key} of Secret "${secretName}" is not a string`, severity: 'error' });
+        continue;
+      }
+      const text = raw === null ? '' : String(raw);
+      if (!base64) {
+        entries.push([key, text]);
+        continue;
+      }
+      const compact = text.replace(/\s+/g, '');
+      if (compact.length % 4 !== 0 || !BASE64.test(compact)) {
+        diagnostics.push({ message: `data.${key} of Secret "${secretName}" is not valid base64`, severity: 'error' });
+        continue;
+      }
+      entries.push([key, Buffer.from(compact, 'base64').toString('utf8')]);
+    }
+    return entries;
+  }
+}
@@ -0,0 +1,34 @@
+import { parseYamlDocuments, YamlSyntaxError } from '../../utils/yaml';
+import { flattenDocument } from '../flatten';
+import { DEFAULT_FLATTEN_SEPARATOR, ImportOptions, ImportResult, SecretImporter } from '../SecretImporter';
+
+const IGNORED_FILES = /^(pnpm-lock|\.gitlab-ci|docker-compose.*|compose|mkdocs|\.pre-commit-config|codecov|\.travis)\.ya?ml$/i;
+
+/**
+ * YAML mappings, e.g. Helm values; nested keys are flattened with the configured
+ * separator and scalars are imported as written
+ */
+export class YamlImporter implements SecretImporter {
+  readonly id = 'yaml';
+  readonly label = 'YAML';
+  readonly filePatterns = ['**/*.yaml', '**/*.yml'];
+
+  matchesFileName(fileName: string): boolean {
+    return /\.ya?ml$/i.test(fileName) && !IGNORED_FILES.test(fileName);
+  }
+
+  import(content: string, options: ImportOptions = {}): ImportResult {
+    try {
+      const documents = parseYamlDocuments(content, { stringScalars: true });
+      if (documents.length > 1) {
+        return { values: {}, diagnostics: [{ message: 'Expected a single YAML document', severity: 'error' }] };
+      }
+      return flattenDocument(documents[0] ?? {}, options.flattenSeparator ?? DEFAULT_FLATTEN_SEPARATOR);
+    } catch (error) {
+      if (error instanceof YamlSyntaxError) {
+        return { values: {}, diagnostics: [{ line: error.line, message: error.reason, severity: 'error' }] };
+      }
+      throw error;
+    }
+  }
+}
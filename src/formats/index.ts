@@ -0,0 +1,9 @@
+/**
+ * Formats for exporting project secrets to files and the clipboard, and for
+ * importing secrets from workspace files
+ */
+
+export * from './SecretExporter';
+export * from './ExporterRegistry';
+export * from './SecretImporter';
+export * from './ImporterRegistry';
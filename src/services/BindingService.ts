@@ -0,0 +1,181 @@
+import * as vscode from 'vscode';
+import { ProfileService } from './ProfileService';
+import { SecretsBackend } from './SecretsBackend';
+import { EnvDocumentChanges, EnvDocumentService } from './EnvDocumentService';
+import { BindingFile, Project, SecretBinding } from '../types';
+import { BINDING_FILE_PATH, envFilePath, fromEnvValues, parseBindingFile, toEnvValues } from '../utils/bindings';
+import { isValidEnvKey, parseEnvFile, updateDotenv } from '../utils/envFile';
+
+/**
+ * A binding with its env file and profile resolved
+ */
+export interface ResolvedBinding {
+  binding: SecretBinding;
+  workspaceFolder: vscode.WorkspaceFolder;
+  envFile: vscode.Uri;
+  profileId: string;
+}
+
+export interface PullResult {
+  added: number;
+  updated: number;
+  /** Keys left out because they are not valid .env keys */
+  skipped: string[];
+}
+
+export interface PushPlan {
+  resolved: ResolvedBinding;
+  project: Project;
+  changes: EnvDocumentChanges;
+}
+
+/**
+ * Reads `.bitwarden/secrets.json` binding files and syncs the env files they
+ * declare with their Bitwarden projects
+ */
+export class BindingService {
+  constructor(private profiles: ProfileService) {}
+
+  /**
+   * Binding files of all workspace folders. Files with errors are reported and
+   * contribute no bindings.
+   */
+  async loadBindings(): Promise<{ bindings: ResolvedBinding[]; errors: string[]; files: number }> {
+    const result = { bindings: [] as ResolvedBinding[], errors: [] as string[], files: 0 };
+
+    for (const workspaceFolder of vscode.workspace.workspaceFolders ?? []) {
+      const uri = BindingService.bindingFileUri(workspaceFolder);
+      let text: string;
+      try {
+        text = Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8');
+      } catch {
+        continue;
+      }
+      result.files++;
+
+      const { file, errors } = parseBindingFile(text);
+      const location = vscode.workspace.asRelativePath(uri);
+      if (!file) {
+        result.errors.push(...errors.map(error => `${location}: ${error}`));
+        continue;
+      }
+
+      for (const binding of file.bindings) {
+        const profileId = this.resolveProfileId(binding, file);
+        if (!profileId) {
+          result.errors.push(`${location}: profile "${binding.profile ?? file.profile}" not found`);
+          continue;
+        }
+        result.bindings.push({
+          binding,
+          workspaceFolder,
+          envFile: vscode.Uri.joinPath(workspaceFolder.uri, envFilePath(binding)),
+          profileId
+        });
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Write the bound secrets into the env file, keeping its other entries,
+   * comments and layout. Keys missing from the project are left alone, and
+   * keys that are not valid .env keys are skipped.
+   */
+  async pull(resolved: ResolvedBinding): Promise<PullResult> {
+    const backend = await this.profiles.getAuthenticatedBackend(resolved.profileId);
+    const project = await this.resolveProject(backend, resolved.binding.project);
+    const remote = toEnvValues(resolved.binding, await backend.listSecrets(project.id));
+
+    const existingText = await this.readEnvFile(resolved.envFile);
+    const existing = parseEnvFile(existingText ?? '');
+    const updates: { [key: string]: string } = {};
+    const skipped: string[] = [];
+    let added = 0;
+    for (const [key, value] of Object.entries(remote)) {
+      if (!isValidEnvKey(key)) {
+        skipped.push(key);
+      } else if (existing[key] !== value) {
+        updates[key] = value;
+        if (!Object.prototype.hasOwnProperty.call(existing, key)) {
+          added++;
+        }
+      }
+    }
+
+    const changed = Object.keys(updates).length;
+    if (changed > 0 || existingText === undefined) {
+      await vscode.workspace.fs.writeFile(resolved.envFile, Buffer.from(updateDotenv(existingText ?? '', updates), 'utf8'));
+    }
+    return { added, updated: changed - added, skipped };
+  }
+
+  /**
+   * Secrets to create or update so the project matches the bound entries of the
+   * env file. Nothing is deleted: keys missing locally stay in Bitwarden.
+   */
+  async planPush(resolved: ResolvedBinding): Promise<PushPlan> {
+    const backend = await this.profiles.getAuthenticatedBackend(resolved.profileId);
+    const project = await this.resolveProject(backend, resolved.binding.project);
+    const envText = await this.readEnvFile(resolved.envFile);
+    if (envText === undefined) {
+      throw new Error(`${vscode.workspace.asRelativePath(resolved.envFile)} does not exist; pull it first`);
+    }
+
+    const local = fromEnvValues(resolved.binding, parseEnvFile(envText));
+    const secrets = (await backend.listSecrets(project.id)).filter(secret => Object.prototype.hasOwnProperty.call(local, secret.key));
+    const changes = EnvDocumentService.computeChanges(secrets, local);
+    return { resolved, project, changes: { ...changes, deletes: [] } };
+  }
+
+  async applyPush(plan: PushPlan): Promise<void> {
+    const backend = await this.profiles.getAuthenticatedBackend(plan.resolved.profileId);
+    for (const update of plan.changes.updates) {
+      await backend.updateSecret({
+        id: update.secret.id!,
+        key: update.secret.key,
+        value: update.value,
+        note: update.secret.note ?? '',
+        projectId: update.secret.projectId
+      });
+    }
+    for (const create of plan.changes.creates) {
+      await backend.createSecret({
+        key: create.key,
+        value: create.value,
+        note: `Pushed from ${vscode.workspace.asRelativePath(plan.resolved.envFile)}`,
+        projectId: plan.project.id
+      });
+    }
+  }
+
+  static bindingFileUri(workspaceFolder: vscode.WorkspaceFolder): vscode.Uri {
+    return vscode.Uri.joinPath(workspaceFolder.uri, BINDING_FILE_PATH);
+  }
+
+  private resolveProfileId(binding: SecretBinding, file: BindingFile): string | undefined {
+    const name = binding.profile ?? file.profile;
+    if (!name) {
+      return this.profiles.getActiveProfile().id;
+    }
+    return this.profiles.findProfile(name)?.id;
+  }
+
+  private async resolveProject(backend: SecretsBackend, nameOrId: string): Promise<Project> {
+    const projects = await backend.listProjects();
+    const project = projects.find(p => p.id === nameOrId) ?? projects.find(p => p.name === nameOrId);
+    if (!project) {
+      throw new Error(`Project "${nameOrId}" not found`);
+    }
+    return project;
+  }
+
+  private async readEnvFile(uri: vscode.Uri): Promise<string | undefined> {
+    try {
+      return Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8');
+    } catch {
+      return undefined;
+    }
+  }
+}
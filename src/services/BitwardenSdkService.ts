@@ -1,20 +1,113 @@
 import { BitwardenClient, LogLevel, ClientSettings, DeviceType } from '@bitwarden/sdk-napi';
-import { Secret, Project } from '../types';
+import { Secret, SecretMetadata, Project, ServerSettings } from '../types';
+import { SERVER_PRESETS, ServerConfigService } from './ServerConfigService';
+import { chunk, mapWithConcurrency } from '../utils/concurrency';
+import { SecretCache, SecretCacheStatus } from './SecretCache';
+import { NewSecret, SecretUpdate, SecretsBackend } from './SecretsBackend';
+import { redactionService } from './RedactionService';
+
+export class BitwardenSdkService implements SecretsBackend {
+  private static readonly SECRETS_BATCH_SIZE = 100;
+  private static readonly MAX_CONCURRENT_REQUESTS = 4;
 
-export class BitwardenSdkService {
   private client: BitwardenClient | null = null;
   private isAuthenticated = false;
   private organizationId: string | null = null;
+  private server: ServerSettings;
+  // Secret ID -> project ID, learned from every secret fetched with its details
+  private secretProjectIndex = new Map<string, string>();
+  private cache: SecretCache;
+  private pendingSync?: Promise<void>;
+
+  constructor(server: ServerSettings = SERVER_PRESETS.us, cacheTtlSeconds = 0) {
+    this.server = { ...server };
+    this.client = this.createClient();
+    this.cache = new SecretCache(cacheTtlSeconds * 1000);
+  }
+
+  setCacheTtl(cacheTtlSeconds: number): void {
+    this.cache.setTtl(cacheTtlSeconds * 1000);
+  }
+
+  getCacheStatus(): SecretCacheStatus {
+    return this.cache.getStatus();
+  }
 
-  constructor() {
+  /**
+   * Drop all cached secrets so the next read goes to the server
+   */
+  invalidateCache(): void {
+    this.cache.invalidate();
+  }
+
+  /**
+   * Bring the cache up to date once its TTL has expired. After the first full
+   * sync only changes since the last sync date are requested.
+   */
+  private async syncCache(): Promise<void> {
+    if (this.cache.isFresh()) {
+      return;
+    }
+
+    if (!this.pendingSync) {
+      this.pendingSync = (async () => {
+        const syncedAt = new Date();
+        const cmd = {
+          secrets: {
+            sync: {
+              organizationId: this.organizationId!,
+              lastSyncedDate: this.cache.getLastSyncedDate() ?? null
+            }
+          }
+        };
+        const res = await this.runCommand(cmd);
+        const data = res?.data || {};
+
+        if (data.hasChanges || !this.cache.isPopulated()) {
+          const rawSecrets: any[] = data.secrets || [];
+          const secrets = rawSecrets.map(raw => this.toSecret(raw));
+          redactionService.remember(secrets);
+          this.cache.replaceAll(secrets, syncedAt);
+        } else {
+          this.cache.markSynced(syncedAt);
+        }
+      })().finally(() => {
+        this.pendingSync = undefined;
+      });
+    }
+
+    await this.pendingSync;
+  }
+
+  private createClient(): BitwardenClient {
     const settings: ClientSettings = {
-      apiUrl: 'https://api.bitwarden.com',
-      identityUrl: 'https://identity.bitwarden.com',
+      apiUrl: this.server.apiUrl,
+      identityUrl: this.server.identityUrl,
       userAgent: 'Bitwarden Secrets Explorer VSCode Extension',
       deviceType: DeviceType.SDK
     };
-    
-    this.client = new BitwardenClient(settings, LogLevel.Info);
+
+    return new BitwardenClient(settings, LogLevel.Info);
+  }
+
+  getServer(): ServerSettings {
+    return { ...this.server };
+  }
+
+  /**
+   * Point the service at a different server. The client is rebuilt and
+   * has to be authenticated again.
+   */
+  setServer(server: ServerSettings): void {
+    if (server.apiUrl === this.server.apiUrl && server.identityUrl === this.server.identityUrl) {
+      return;
+    }
+
+    this.server = { ...server };
+    this.client = this.createClient();
+    this.isAuthenticated = false;
+    this.secretProjectIndex.clear();
+    this.cache.invalidate();
   }
 
   private async runCommand(command: any): Promise<any> {
@@ -41,6 +134,11 @@ export class BitwardenSdkService {
       throw new Error('SDK client not initialized');
     }
 
+    const serverValidation = ServerConfigService.validateServerSettings(this.server);
+    if (!serverValidation.isValid) {
+      throw new Error(`Invalid server configuration: ${serverValidation.errors.map(e => e.message).join('; ')}`);
+    }
+
     try {
       await this.client!.auth().loginAccessToken(accessToken);
       this.isAuthenticated = true;
@@ -53,7 +151,7 @@ export class BitwardenSdkService {
   async testSdkAvailability(): Promise<boolean> {
     try {
       if (!this.client) {
-        this.client = new BitwardenClient(undefined, LogLevel.Info);
+        this.client = this.createClient();
       }
       return true;
     } catch (error) {
@@ -66,7 +164,12 @@ export class BitwardenSdkService {
   }
 
   setOrganizationId(orgId: string): void {
-    this.organizationId = orgId.trim();
+    const trimmed = orgId.trim();
+    if (trimmed !== this.organizationId) {
+      this.secretProjectIndex.clear();
+      this.cache.invalidate();
+    }
+    this.organizationId = trimmed;
   }
 
   getOrganizationId(): string | null {
@@ -107,50 +210,156 @@ export class BitwardenSdkService {
     }
   }
 
+  /**
+   * List secrets including their values. The organization only exposes
+   * identifiers (id and key), so secrets already known to belong to another
+   * project are skipped and the rest are fetched in batches with `getByIds`.
+   */
   async listSecrets(projectId?: string): Promise<Secret[]> {
-    if (!this.isClientAuthenticated()) {
-      throw new Error('Client not authenticated');
-    }
-    if (!this.organizationId) {
-      console.error('[BitwardenSdkService] Organization ID not set for listSecrets');
-      throw new Error('Organization ID not set');
+    this.ensureSecretsAccess('listSecrets');
+
+    try {
+      if (this.cache.isEnabled()) {
+        await this.syncCache();
+        // Values are remembered again in case redaction was cleared since the sync
+        const cached = this.cache.list(projectId);
+        redactionService.remember(cached);
+        return cached;
+      }
+
+      const identifiers = await this.listSecretIdentifiers();
+      const candidates = projectId
+        ? identifiers.filter(identifier => {
+            const knownProjectId = this.secretProjectIndex.get(identifier.id);
+            return knownProjectId === undefined || knownProjectId === projectId;
+          })
+        : identifiers;
+
+      const secrets = await this.getSecretsByIds(candidates.map(identifier => identifier.id));
+
+      if (projectId) {
+        return secrets.filter(secret => secret.projectId === projectId);
+      }
+
+      return secrets;
+    } catch (error) {
+      throw new Error(`Failed to list secrets: ${error}`);
     }
+  }
+
+  /**
+   * List secret keys with their projects. The SDK lists only IDs and keys, so
+   * learning a secret's project takes its details, value included: with the
+   * cache enabled the whole organization is synced, otherwise details are
+   * fetched once for every secret whose project is not known yet. Later calls
+   * only list IDs and keys.
+   */
+  async listSecretMetadata(projectId?: string): Promise<SecretMetadata[]> {
+    this.ensureSecretsAccess('listSecretMetadata');
 
     try {
-      const orgId = this.organizationId!;
-      const listCmd = { secrets: { list: { organizationId: orgId } } };
-      const listRes = await this.runCommand(listCmd);
-
-      const secretIdentifiers = (listRes?.data?.data || listRes?.data || []);
-
-      const detailedSecrets = await Promise.all(
-        (secretIdentifiers as any[]).map(async (secretIdentifier: any) => {
-          const getCmd = { secrets: { get: { id: secretIdentifier.id } } };
-          const getRes = await this.runCommand(getCmd);
-
-          const fullSecret = getRes?.data || getRes || {};
-          return {
-              id: fullSecret.id,
-              key: fullSecret.key,
-              value: fullSecret.value,
-              note: fullSecret.note || '',
-              projectId: fullSecret.projectId || '',
-              creationDate: fullSecret.creationDate ? new Date(fullSecret.creationDate).toISOString() : undefined,
-              revisionDate: fullSecret.revisionDate ? new Date(fullSecret.revisionDate).toISOString() : undefined
-            } as Secret;
-        })
-      );
-      
+      if (this.cache.isEnabled()) {
+        await this.syncCache();
+        return this.cache.list(projectId).map(secret => ({
+          id: secret.id!,
+          key: secret.key,
+          projectId: secret.projectId
+        }));
+      }
+
+      const identifiers = await this.listSecretIdentifiers();
+      const unknownIds = identifiers
+        .filter(identifier => !this.secretProjectIndex.has(identifier.id))
+        .map(identifier => identifier.id);
+
+      if (unknownIds.length > 0) {
+        await this.getSecretsByIds(unknownIds);
+      }
+
+      const metadata = identifiers.map(identifier => ({
+        id: identifier.id,
+        key: identifier.key,
+        projectId: this.secretProjectIndex.get(identifier.id) || ''
+      }));
+
       if (projectId) {
-        return detailedSecrets.filter(secret => secret.projectId === projectId);
+        return metadata.filter(secret => secret.projectId === projectId);
       }
-      
-      return detailedSecrets;
+
+      return metadata;
     } catch (error) {
       throw new Error(`Failed to list secrets: ${error}`);
     }
   }
 
+  /**
+   * List the id and key of every secret in the organization and drop index
+   * entries of secrets that no longer exist
+   */
+  private async listSecretIdentifiers(): Promise<{ id: string; key: string }[]> {
+    const listCmd = { secrets: { list: { organizationId: this.organizationId! } } };
+    const listRes = await this.runCommand(listCmd);
+    const identifiers: any[] = listRes?.data?.data || listRes?.data || [];
+
+    const existingIds = new Set(identifiers.map(identifier => identifier.id));
+    for (const secretId of this.secretProjectIndex.keys()) {
+      if (!existingIds.has(secretId)) {
+        this.secretProjectIndex.delete(secretId);
+        this.cache.remove(secretId);
+      }
+    }
+
+    return identifiers.map(identifier => ({ id: identifier.id, key: identifier.key }));
+  }
+
+  /**
+   * Fetch full secrets in batches with a capped number of concurrent requests
+   */
+  private async getSecretsByIds(secretIds: string[]): Promise<Secret[]> {
+    const batches = chunk(secretIds, BitwardenSdkService.SECRETS_BATCH_SIZE);
+    const results = await mapWithConcurrency(batches, BitwardenSdkService.MAX_CONCURRENT_REQUESTS, async (ids) => {
+      const getCmd = { secrets: { getByIds: { ids } } };
+      const getRes = await this.runCommand(getCmd);
+      const rawSecrets: any[] = getRes?.data?.data || getRes?.data || [];
+      return rawSecrets.map(raw => this.toSecret(raw));
+    });
+
+    const secrets = results.flat();
+    redactionService.remember(secrets);
+    return secrets;
+  }
+
+  private ensureSecretsAccess(operation: string): void {
+    if (!this.isClientAuthenticated()) {
+      throw new Error('Client not authenticated');
+    }
+    if (!this.organizationId) {
+      console.error(`[BitwardenSdkService] Organization ID not set for ${operation}`);
+      throw new Error('Organization ID not set');
+    }
+  }
+
+  /**
+   * Map a raw SDK secret response and remember which project it belongs to
+   */
+  private toSecret(raw: any): Secret {
+    const secret: Secret = {
+      id: raw.id,
+      key: raw.key,
+      value: raw.value,
+      note: raw.note || '',
+      projectId: raw.projectId || '',
+      creationDate: raw.creationDate ? new Date(raw.creationDate).toISOString() : undefined,
+      revisionDate: raw.revisionDate ? new Date(raw.revisionDate).toISOString() : undefined
+    };
+
+    if (secret.id) {
+      this.secretProjectIndex.set(secret.id, secret.projectId);
+    }
+
+    return secret;
+  }
+
   async getSecret(secretId: string): Promise<Secret> {
     if (!this.isClientAuthenticated()) {
       throw new Error('Client not authenticated');
@@ -161,30 +370,29 @@ export class BitwardenSdkService {
     }
 
     try {
+      if (this.cache.isEnabled()) {
+        await this.syncCache();
+        const cached = this.cache.get(secretId);
+        if (cached) {
+          redactionService.remember([cached]);
+          return cached;
+        }
+      }
+
       const cmd = { secrets: { get: { id: secretId } } };
       const res = await this.runCommand(cmd);
 
       const response = res?.data || res || {};
-      return {
-         id: response.id,
-         key: response.key,
-         value: response.value,
-         note: response.note || '',
-         projectId: response.projectId || '',
-         creationDate: response.creationDate ? new Date(response.creationDate).toISOString() : undefined,
-         revisionDate: response.revisionDate ? new Date(response.revisionDate).toISOString() : undefined
-       };
+      const secret = this.toSecret(response);
+      redactionService.remember([secret]);
+      this.cache.upsert(secret);
+      return secret;
     } catch (error) {
       throw new Error(`Failed to get secret: ${error}`);
     }
   }
 
-  async createSecret(secret: {
-    key: string;
-    value: string;
-    note: string;
-    projectId: string;
-  }): Promise<Secret> {
+  async createSecret(secret: NewSecret): Promise<Secret> {
     if (!this.isClientAuthenticated()) {
       throw new Error('Client not authenticated');
     }
@@ -199,27 +407,16 @@ export class BitwardenSdkService {
       const res = await this.runCommand(cmd);
 
       const response = res?.data || res || {};
-      return {
-        id: response.id,
-        key: response.key,
-        value: response.value,
-        note: response.note || '',
-        projectId: response.projectId || '',
-        creationDate: response.creationDate ? new Date(response.creationDate).toISOString() : undefined,
-        revisionDate: response.revisionDate ? new Date(response.revisionDate).toISOString() : undefined
-      } as Secret;
+      const created = this.toSecret(response);
+      redactionService.remember([created]);
+      this.cache.upsert(created);
+      return created;
     } catch (error) {
       throw new Error(`Failed to create secret: ${error}`);
     }
   }
 
-  async updateSecret(secret: {
-    id: string;
-    key: string;
-    value: string;
-    note: string;
-    projectId: string;
-  }): Promise<Secret> {
+  async updateSecret(secret: SecretUpdate): Promise<Secret> {
     if (!this.isClientAuthenticated()) {
       throw new Error('Client not authenticated');
     }
@@ -238,15 +435,10 @@ export class BitwardenSdkService {
       const res = await this.runCommand(cmd);
 
       const response = res?.data || res || {};
-      return {
-        id: response.id,
-        key: response.key,
-        value: response.value,
-        note: response.note || '',
-        projectId: response.projectId || '',
-        creationDate: response.creationDate ? new Date(response.creationDate).toISOString() : undefined,
-        revisionDate: response.revisionDate ? new Date(response.revisionDate).toISOString() : undefined
-      } as Secret;
+      const updated = this.toSecret(response);
+      redactionService.remember([updated]);
+      this.cache.upsert(updated);
+      return updated;
     } catch (error) {
       throw new Error(`Failed to update secret: ${error}`);
     }
@@ -268,6 +460,8 @@ export class BitwardenSdkService {
     try {
       const cmd = { secrets: { delete: { ids: [secretId] } } };
       const res = await this.runCommand(cmd);
+      this.secretProjectIndex.delete(secretId);
+      this.cache.remove(secretId);
 
 
       const ok = res?.success ?? true;
@@ -362,6 +556,8 @@ export class BitwardenSdkService {
     try {
       const cmd = { projects: { delete: { ids: [projectId] } } };
       const res = await this.runCommand(cmd);
+      // Secrets of the project are gone as well
+      this.cache.invalidate();
 
 
       const ok = res?.success ?? true;
@@ -0,0 +1,76 @@
+import { Secret } from '../types';
+import { formatEnvFile } from '../utils/envFile';
+
+export type EnvCompareStatus = 'unchanged' | 'changed' | 'localOnly' | 'remoteOnly';
+
+export type EnvCompareSide = 'local' | 'remote';
+
+export interface EnvCompareEntry {
+  key: string;
+  status: EnvCompareStatus;
+  local?: string;
+  remote?: string;
+}
+
+const MASK = '••••••••';
+
+/**
+ * Compares the values of a local env file with the secrets of a project and
+ * renders either side as an env document for a diff editor
+ */
+export class EnvCompareService {
+
+  /**
+   * One entry per key of either side, sorted by key. When several secrets
+   * share a key the first one is compared.
+   */
+  public static compare(local: { [key: string]: string }, secrets: Secret[]): EnvCompareEntry[] {
+    const remote = new Map<string, string>();
+    for (const secret of secrets) {
+      if (!remote.has(secret.key)) {
+        remote.set(secret.key, secret.value);
+      }
+    }
+
+    const keys = [...new Set([...Object.keys(local), ...remote.keys()])].sort((a, b) => a.localeCompare(b));
+    return keys.map(key => {
+      const localValue = Object.prototype.hasOwnProperty.call(local, key) ? local[key] : undefined;
+      const remoteValue = remote.get(key);
+      let status: EnvCompareStatus;
+      if (localValue === undefined) {
+        status = 'remoteOnly';
+      } else if (remoteValue === undefined) {
+        status = 'localOnly';
+      } else {
+        status = localValue === remoteValue ? 'unchanged' : 'changed';
+      }
+      return { key, status, local: localValue, remote: remoteValue };
+    });
+  }
+
+  /**
+   * The keys one side has, in compare order. Masked values still differ
+   * between the sides when the real values do, so the diff shows the change.
+   */
+  public static render(entries: EnvCompareEntry[], side: EnvCompareSide, revealed: boolean): string {
+    const values: { [key: string]: string } = {};
+    for (const entry of entries) {
+      const value = entry[side];
+      if (value === undefined) {
+        continue;
+      }
+      if (revealed) {
+        values[entry.key] = value;
+      } else {
+        values[entry.key] = entry.status === 'changed' ? `${MASK} (${side === 'local' ? 'local' : 'Bitwarden'})` : MASK;
+      }
+    }
+
+    const content = formatEnvFile(values);
+    return content ? `${content}\n` : '';
+  }
+
+  public static countDifferences(entries: EnvCompareEntry[]): number {
+    return entries.filter(entry => entry.status !== 'unchanged').length;
+  }
+}
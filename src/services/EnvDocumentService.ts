@@ -0,0 +1,108 @@
+import { Secret } from '../types';
+import { formatEnvFile, isValidEnvKey } from '../utils/envFile';
+
+export interface EnvDocumentChanges {
+  creates: { key: string; value: string }[];
+  updates: { secret: Secret; value: string }[];
+  deletes: Secret[];
+}
+
+/**
+ * Renders a project as a `.env` document and computes the secret changes a
+ * saved document implies
+ */
+export class EnvDocumentService {
+
+  /**
+   * The project as a document. Secrets whose keys a .env file cannot hold are
+   * left out and named in the header.
+   */
+  public static render(projectName: string, secrets: Secret[]): string {
+    const header = [
+      `# Bitwarden project: ${projectName}`,
+      '# Saving this file creates, updates and deletes secrets after confirmation.'
+    ];
+
+    const omitted = [...new Set(secrets.map(secret => secret.key).filter(key => !isValidEnvKey(key)))];
+    if (omitted.length > 0) {
+      header.push(`# Not shown, as they are not valid .env keys: ${omitted.map(key => JSON.stringify(key)).join(', ')}`);
+    }
+
+    return `${header.join('\n')}\n${formatEnvFile(EnvDocumentService.shownValues(secrets))}\n`;
+  }
+
+  /**
+   * The value `render` shows for each key. When secrets share a key the first
+   * one wins, as in pulls and comparisons; keys a .env file cannot hold are left out.
+   */
+  public static shownValues(secrets: Secret[]): { [key: string]: string } {
+    const values: { [key: string]: string } = {};
+    for (const secret of [...secrets].sort((a, b) => a.key.localeCompare(b.key))) {
+      if (isValidEnvKey(secret.key) && !Object.prototype.hasOwnProperty.call(values, secret.key)) {
+        values[secret.key] = secret.value;
+      }
+    }
+    return values;
+  }
+
+  /**
+   * Diff the values of a saved document against the current secrets of the
+   * project. `shown` holds the values the document started from (what `render`
+   * shows for the secrets by default): keys whose value still matches are left
+   * alone, so secrets sharing a key keep their own values. A changed key sets
+   * every secret with that key. Only keys that were shown can be deleted.
+   */
+  public static computeChanges(
+    secrets: Secret[],
+    document: { [key: string]: string },
+    shown: { [key: string]: string } = EnvDocumentService.shownValues(secrets)
+  ): EnvDocumentChanges {
+    const changes: EnvDocumentChanges = { creates: [], updates: [], deletes: [] };
+    const has = (values: { [key: string]: string }, key: string) => Object.prototype.hasOwnProperty.call(values, key);
+
+    const byKey = new Map<string, Secret[]>();
+    for (const secret of secrets) {
+      byKey.set(secret.key, [...(byKey.get(secret.key) ?? []), secret]);
+    }
+
+    for (const [key, value] of Object.entries(document)) {
+      const existing = byKey.get(key);
+      if (!existing) {
+        changes.creates.push({ key, value });
+        continue;
+      }
+      if (has(shown, key) && shown[key] === value) {
+        continue;
+      }
+      for (const secret of existing) {
+        if (secret.value !== value) {
+          changes.updates.push({ secret, value });
+        }
+      }
+    }
+
+    for (const [key, existing] of byKey) {
+      if (has(document, key) || !has(shown, key)) {
+        continue;
+      }
+      changes.deletes.push(...existing);
+    }
+
+    return changes;
+  }
+
+  public static countChanges(changes: EnvDocumentChanges): number {
+    return changes.creates.length + changes.updates.length + changes.deletes.length;
+  }
+
+  /**
+   * One line per change, without values
+   */
+  public static describe(changes: EnvDocumentChanges): string[] {
+    return [
+      ...changes.creates.map(change => `+ ${change.key} (new)`),
+      ...changes.updates.map(change => `~ ${change.secret.key} (value changed)`),
+      ...changes.deletes.map(secret => `- ${secret.key} (deleted)`)
+    ];
+  }
+}
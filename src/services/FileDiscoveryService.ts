@@ -0,0 +1,119 @@
+import * as vscode from 'vscode';
+import { GitignoreMatcher } from '../utils/gitignore';
+
+const CONFIG_SECTION = 'bitwardenSecretsExplorer.discovery';
+const MAX_RESULTS = 2000;
+
+/**
+ * Finds secret files across all workspace folders, using the configured
+ * include and exclude globs, `files.exclude` and `.gitignore` files
+ */
+export class FileDiscoveryService {
+
+  /**
+   * Files matching the configured include globs, or `defaultPatterns` when none
+   * are configured, whose name is accepted by `matchesFileName`. Sorted by path.
+   */
+  public static async findFiles(
+    defaultPatterns: string[],
+    matchesFileName: (fileName: string) => boolean
+  ): Promise<vscode.Uri[]> {
+    const config = vscode.workspace.getConfiguration(CONFIG_SECTION);
+    const configured = config.get<string[]>('include', []).filter(pattern => pattern.trim());
+    const include = configured.length > 0 ? configured : defaultPatterns;
+    const exclude = this.toGlob([...config.get<string[]>('exclude', []), ...this.getFilesExclude()]);
+
+    // Nested braces are not supported in globs, so each include glob is searched on its own
+    const found = new Map<string, vscode.Uri>();
+    for (const pattern of include) {
+      for (const uri of await vscode.workspace.findFiles(pattern, exclude ?? null, MAX_RESULTS)) {
+        found.set(uri.toString(), uri);
+      }
+    }
+
+    let files = [...found.values()].filter(uri => matchesFileName(this.basename(uri)));
+    if (config.get<boolean>('respectGitignore', true)) {
+      files = await this.withoutIgnoredFolders(files, exclude);
+    }
+
+    return files.sort((a, b) => a.path.localeCompare(b.path));
+  }
+
+  /**
+   * Name of the folder a file is listed under in pickers, relative to its
+   * workspace folder; multi-root workspaces prefix the workspace folder name
+   */
+  public static folderLabel(uri: vscode.Uri): string {
+    const folder = vscode.workspace.getWorkspaceFolder(uri);
+    if (!folder) {
+      return vscode.Uri.joinPath(uri, '..').fsPath;
+    }
+    const relative = uri.path.substring(folder.uri.path.length + 1);
+    const directory = relative.includes('/') ? relative.substring(0, relative.lastIndexOf('/')) : '';
+    const multiRoot = (vscode.workspace.workspaceFolders?.length ?? 0) > 1;
+    return [multiRoot ? folder.name : '', directory].filter(Boolean).join('/') || folder.name;
+  }
+
+  public static basename(uri: vscode.Uri): string {
+    return uri.path.substring(uri.path.lastIndexOf('/') + 1);
+  }
+
+  /**
+   * Globs of `files.exclude` that are switched on; conditional entries are skipped
+   */
+  private static getFilesExclude(): string[] {
+    const excludes = vscode.workspace.getConfiguration('files').get<{ [glob: string]: unknown }>('exclude', {});
+    return Object.entries(excludes).filter(([, enabled]) => enabled === true).map(([glob]) => glob);
+  }
+
+  private static toGlob(patterns: string[]): string | undefined {
+    const unique = [...new Set(patterns.filter(pattern => pattern.trim()))];
+    if (unique.length === 0) {
+      return undefined;
+    }
+    return unique.length === 1 ? unique[0] : `{${unique.join(',')}}`;
+  }
+
+  /**
+   * Drop files inside folders that a `.gitignore` ignores, such as build output.
+   * The files themselves are kept even when ignored: `.env` files usually are.
+   */
+  private static async withoutIgnoredFolders(files: vscode.Uri[], exclude: string | undefined): Promise<vscode.Uri[]> {
+    const matchers = new Map<string, GitignoreMatcher>();
+    for (const uri of await vscode.workspace.findFiles('**/.gitignore', exclude ?? null)) {
+      try {
+        const content = Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8');
+        matchers.set(uri.path.substring(0, uri.path.lastIndexOf('/')), new GitignoreMatcher(content));
+      } catch {
+        // Unreadable .gitignore files are skipped
+      }
+    }
+    if (matchers.size === 0) {
+      return files;
+    }
+
+    return files.filter(uri => {
+      const folder = vscode.workspace.getWorkspaceFolder(uri);
+      if (!folder) {
+        return true;
+      }
+      const segments = uri.path.substring(folder.uri.path.length + 1).split('/').slice(0, -1);
+
+      // Check every folder from the workspace root down; deeper .gitignore files win
+      for (let depth = 1; depth <= segments.length; depth++) {
+        let ignored: boolean | undefined;
+        for (let base = 0; base < depth; base++) {
+          const matcher = matchers.get([folder.uri.path, ...segments.slice(0, base)].join('/'));
+          const decision = matcher?.ignores(segments.slice(base, depth).join('/'), true);
+          if (decision !== undefined) {
+            ignored = decision;
+          }
+        }
+        if (ignored) {
+          return false;
+        }
+      }
+      return true;
+    });
+  }
+}
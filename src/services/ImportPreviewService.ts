@@ -0,0 +1,77 @@
+import { Secret } from '../types';
+
+/**
+ * new: the key does not exist in the project
+ * changed: one secret has the key, with a different value
+ * unchanged: every secret with the key already has the value
+ * conflict: several secrets share the key and at least one differs
+ */
+export type ImportPreviewStatus = 'new' | 'changed' | 'unchanged' | 'conflict';
+
+export interface ImportPreviewItem {
+  key: string;
+  value: string;
+  status: ImportPreviewStatus;
+  /** Secrets in the project with this key */
+  existing: Secret[];
+  /** Masked current value, for changed and conflicting keys */
+  before?: string;
+  /** Masked imported value */
+  after: string;
+  /** Whether the key is imported unless the user changes it */
+  selected: boolean;
+}
+
+/**
+ * Compares parsed `.env` values with the secrets of a project, so an import
+ * can be previewed before anything is written
+ */
+export class ImportPreviewService {
+
+  public static build(values: { [key: string]: string }, secrets: Secret[]): ImportPreviewItem[] {
+    const byKey = new Map<string, Secret[]>();
+    for (const secret of secrets) {
+      byKey.set(secret.key, [...(byKey.get(secret.key) ?? []), secret]);
+    }
+
+    return Object.entries(values).map(([key, value]) => {
+      const existing = byKey.get(key) ?? [];
+      const status = this.statusFor(existing, value);
+      return {
+        key,
+        value,
+        status,
+        existing,
+        before: status === 'changed' || status === 'conflict' ? this.mask(existing[0].value) : undefined,
+        after: this.mask(value),
+        // Only new keys are imported by default; overwrites need an explicit choice
+        selected: status === 'new'
+      };
+    });
+  }
+
+  /**
+   * Hide a value while still hinting at its size
+   */
+  public static mask(value: string): string {
+    if (!value) {
+      return '(empty)';
+    }
+    return `${'•'.repeat(Math.min(value.length, 8))} (${value.length} chars)`;
+  }
+
+  public static summarize(items: ImportPreviewItem[]): string {
+    const count = (status: ImportPreviewStatus) => items.filter(item => item.status === status).length;
+    return `${count('new')} new, ${count('changed')} changed, ${count('unchanged')} unchanged, ${count('conflict')} conflicting`;
+  }
+
+  private static statusFor(existing: Secret[], value: string): ImportPreviewStatus {
+    if (existing.length === 0) {
+      return 'new';
+    }
+    if (existing.every(secret => secret.value === value)) {
+      return 'unchanged';
+    }
+    return existing.length > 1 ? 'conflict' : 'changed';
+  }
+}
@@ -0,0 +1,286 @@
+import { randomUUID } from 'crypto';
+import { Secret, SecretMetadata, Project, ServerSettings } from '../types';
+import { NewSecret, SecretUpdate, SecretsBackend, SecretsBackendOperation } from './SecretsBackend';
+import { SecretCacheStatus } from './SecretCache';
+import { redactionService } from './RedactionService';
+import { SERVER_PRESETS } from './ServerConfigService';
+
+export interface InMemoryFixtures {
+  organizationId?: string;
+  /** Tokens accepted by `authenticate`; any non-empty token is accepted when unset */
+  accessTokens?: string[];
+  projects?: Project[];
+  secrets?: Secret[];
+}
+
+interface InjectedFailure {
+  error: Error;
+  remaining: number;
+}
+
+/**
+ * Secrets backend that keeps projects and secrets in memory. Used by the test
+ * suite to exercise commands without network access; fixtures can be seeded
+ * and failures injected per operation.
+ */
+export class InMemorySecretsBackend implements SecretsBackend {
+  private server: ServerSettings;
+  private isAuthenticated = false;
+  private organizationId: string | null = null;
+  private fixtureOrganizationId?: string;
+  private accessTokens?: Set<string>;
+  private projects = new Map<string, Project>();
+  private secrets = new Map<string, Secret>();
+  private failures = new Map<SecretsBackendOperation, InjectedFailure>();
+  private calls: SecretsBackendOperation[] = [];
+
+  constructor(server: ServerSettings = SERVER_PRESETS.us, fixtures: InMemoryFixtures = {}) {
+    this.server = { ...server };
+    this.seed(fixtures);
+  }
+
+  /**
+   * Replace all data with the given fixtures
+   */
+  seed(fixtures: InMemoryFixtures): void {
+    this.fixtureOrganizationId = fixtures.organizationId;
+    this.accessTokens = fixtures.accessTokens ? new Set(fixtures.accessTokens) : undefined;
+    this.projects = new Map((fixtures.projects ?? []).map(project => [project.id, { ...project }]));
+    this.secrets = new Map();
+    for (const secret of fixtures.secrets ?? []) {
+      const id = secret.id ?? randomUUID();
+      this.secrets.set(id, { ...secret, id, note: secret.note ?? '' });
+    }
+  }
+
+  /**
+   * Make an operation fail with `error` for the next `times` calls (every call by default)
+   */
+  failOn(operation: SecretsBackendOperation, error: Error = new Error(`${operation} failed`), times = Infinity): void {
+    this.failures.set(operation, { error, remaining: times });
+  }
+
+  clearFailures(): void {
+    this.failures.clear();
+  }
+
+  /**
+   * Operations called so far, in order
+   */
+  getCalls(): SecretsBackendOperation[] {
+    return [...this.calls];
+  }
+
+  resetCalls(): void {
+    this.calls = [];
+  }
+
+  /**
+   * Forget the authenticated session and organization, as a new client would
+   */
+  signOut(): void {
+    this.isAuthenticated = false;
+    this.organizationId = null;
+  }
+
+  getServer(): ServerSettings {
+    return { ...this.server };
+  }
+
+  setServer(server: ServerSettings): void {
+    this.server = { ...server };
+    this.isAuthenticated = false;
+  }
+
+  async testSdkAvailability(): Promise<boolean> {
+    this.record('testSdkAvailability');
+    return true;
+  }
+
+  async authenticate(accessToken: string): Promise<void> {
+    try {
+      this.record('authenticate');
+      if (!accessToken || (this.accessTokens && !this.accessTokens.has(accessToken))) {
+        throw new Error('Invalid access token');
+      }
+      this.isAuthenticated = true;
+    } catch (error) {
+      this.isAuthenticated = false;
+      throw new Error(`Authentication failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  isClientAuthenticated(): boolean {
+    return this.isAuthenticated;
+  }
+
+  setOrganizationId(orgId: string): void {
+    this.organizationId = orgId.trim();
+  }
+
+  getOrganizationId(): string | null {
+    return this.organizationId;
+  }
+
+  setCacheTtl(_cacheTtlSeconds: number): void {
+    // Nothing is fetched remotely, so there is nothing to cache
+  }
+
+  getCacheStatus(): SecretCacheStatus {
+    return { enabled: false, entries: 0, isFresh: false };
+  }
+
+  invalidateCache(): void {
+    // Nothing is cached
+  }
+
+  async listProjects(): Promise<Project[]> {
+    this.record('listProjects');
+    const orgId = this.ensureAccess();
+    return [...this.projects.values()]
+      .filter(project => !project.organizationId || project.organizationId === orgId)
+      .map(project => ({ ...project }));
+  }
+
+  async createProject(name: string): Promise<Project> {
+    this.record('createProject');
+    const orgId = this.ensureAccess();
+    if (!name || name.trim().length === 0) {
+      throw new Error('Project name is required');
+    }
+
+    const now = new Date().toISOString();
+    const project: Project = { id: randomUUID(), name: name.trim(), organizationId: orgId, creationDate: now, revisionDate: now };
+    this.projects.set(project.id, project);
+    return { ...project };
+  }
+
+  async updateProject(projectId: string, name: string): Promise<Project> {
+    this.record('updateProject');
+    this.ensureAccess();
+    const project = this.requireProject(projectId);
+    if (!name || name.trim().length === 0) {
+      throw new Error('Project name is required');
+    }
+
+    project.name = name.trim();
+    project.revisionDate = new Date().toISOString();
+    return { ...project };
+  }
+
+  async deleteProject(projectId: string): Promise<void> {
+    this.record('deleteProject');
+    this.ensureAccess();
+    this.requireProject(projectId);
+    this.projects.delete(projectId);
+    for (const [id, secret] of this.secrets) {
+      if (secret.projectId === projectId) {
+        this.secrets.delete(id);
+      }
+    }
+  }
+
+  async listSecrets(projectId?: string): Promise<Secret[]> {
+    this.record('listSecrets');
+    this.ensureAccess();
+    return [...this.secrets.values()]
+      .filter(secret => !projectId || secret.projectId === projectId)
+      .map(secret => this.fetched(secret));
+  }
+
+  async listSecretMetadata(projectId?: string): Promise<SecretMetadata[]> {
+    this.record('listSecretMetadata');
+    this.ensureAccess();
+    return [...this.secrets.values()]
+      .filter(secret => !projectId || secret.projectId === projectId)
+      .map(secret => ({ id: secret.id!, key: secret.key, projectId: secret.projectId }));
+  }
+
+  async getSecret(secretId: string): Promise<Secret> {
+    this.record('getSecret');
+    this.ensureAccess();
+    return this.fetched(this.requireSecret(secretId));
+  }
+
+  async createSecret(secret: NewSecret): Promise<Secret> {
+    this.record('createSecret');
+    this.ensureAccess();
+    this.requireProject(secret.projectId);
+
+    const now = new Date().toISOString();
+    const created: Secret = { ...secret, id: randomUUID(), creationDate: now, revisionDate: now };
+    this.secrets.set(created.id!, created);
+    return this.fetched(created);
+  }
+
+  async updateSecret(secret: SecretUpdate): Promise<Secret> {
+    this.record('updateSecret');
+    this.ensureAccess();
+    const existing = this.requireSecret(secret.id);
+    this.requireProject(secret.projectId);
+
+    const updated: Secret = { ...existing, ...secret, revisionDate: new Date().toISOString() };
+    this.secrets.set(secret.id, updated);
+    return this.fetched(updated);
+  }
+
+  async deleteSecret(secretId: string): Promise<void> {
+    this.record('deleteSecret');
+    this.ensureAccess();
+    this.requireSecret(secretId);
+    this.secrets.delete(secretId);
+  }
+
+  /**
+   * Record the call and throw an injected failure if one is pending
+   */
+  private record(operation: SecretsBackendOperation): void {
+    this.calls.push(operation);
+
+    const failure = this.failures.get(operation);
+    if (failure) {
+      failure.remaining--;
+      if (failure.remaining <= 0) {
+        this.failures.delete(operation);
+      }
+      throw failure.error;
+    }
+  }
+
+  private ensureAccess(): string {
+    if (!this.isAuthenticated) {
+      throw new Error('Client not authenticated');
+    }
+    if (!this.organizationId) {
+      throw new Error('Organization ID not set');
+    }
+    if (this.fixtureOrganizationId && this.organizationId !== this.fixtureOrganizationId) {
+      throw new Error(`Organization ${this.organizationId} not found`);
+    }
+    return this.organizationId;
+  }
+
+  private requireProject(projectId: string): Project {
+    const project = this.projects.get(projectId);
+    if (!project) {
+      throw new Error(`Project ${projectId} not found`);
+    }
+    return project;
+  }
+
+  private requireSecret(secretId: string): Secret {
+    const secret = this.secrets.get(secretId);
+    if (!secret) {
+      throw new Error(`Secret ${secretId} not found`);
+    }
+    return secret;
+  }
+
+  /**
+   * A copy of a secret handed out to callers, whose value is redacted from then on
+   */
+  private fetched(secret: Secret): Secret {
+    redactionService.remember([secret]);
+    return { ...secret };
+  }
+}
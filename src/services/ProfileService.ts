@@ -0,0 +1,297 @@
+import * as vscode from 'vscode';
+import { randomUUID } from 'crypto';
+import { SecretsBackend } from './SecretsBackend';
+import { getSecretsBackendFactory } from './backendFactory';
+import { ServerConfigService } from './ServerConfigService';
+import { redactionService } from './RedactionService';
+import { ConnectionProfile, ServerSettings } from '../types';
+
+const PROFILES_KEY = 'bitwardenProfiles';
+const ACTIVE_PROFILE_KEY = 'bitwardenActiveProfileId';
+const LEGACY_ACCESS_TOKEN_KEY = 'bitwardenAccessToken';
+const LEGACY_ORGANIZATION_ID_KEY = 'bitwardenOrganizationId';
+const DEFAULT_PROFILE_NAME = 'Default';
+
+/**
+ * Manages named connection profiles. Each profile has its own access token,
+ * organization ID, optional server and secrets backend instance. Profile metadata
+ * lives in global state, credentials in the secret storage.
+ */
+export class ProfileService {
+  private profiles: ConnectionProfile[] = [];
+  private activeProfileId: string | undefined;
+  private backends = new Map<string, SecretsBackend>();
+  private _onDidChangeActiveProfile = new vscode.EventEmitter<ConnectionProfile>();
+  private _onDidChangeProfiles = new vscode.EventEmitter<void>();
+
+  public readonly onDidChangeActiveProfile = this._onDidChangeActiveProfile.event;
+  public readonly onDidChangeProfiles = this._onDidChangeProfiles.event;
+
+  constructor(private context: vscode.ExtensionContext) {}
+
+  /**
+   * Load stored profiles, migrating single-token setups into a default profile
+   */
+  async initialize(): Promise<void> {
+    this.profiles = this.context.globalState.get<ConnectionProfile[]>(PROFILES_KEY, []);
+    this.activeProfileId = this.context.globalState.get<string>(ACTIVE_PROFILE_KEY);
+
+    if (this.profiles.length === 0) {
+      const profile: ConnectionProfile = { id: randomUUID(), name: DEFAULT_PROFILE_NAME };
+      this.profiles = [profile];
+      this.activeProfileId = profile.id;
+
+      const legacyToken = await this.context.secrets.get(LEGACY_ACCESS_TOKEN_KEY);
+      const legacyOrgId = await this.context.secrets.get(LEGACY_ORGANIZATION_ID_KEY);
+      if (legacyToken) {
+        await this.setAccessToken(legacyToken, profile.id);
+        await this.context.secrets.delete(LEGACY_ACCESS_TOKEN_KEY);
+      }
+      if (legacyOrgId) {
+        await this.setOrganizationId(legacyOrgId, profile.id);
+        await this.context.secrets.delete(LEGACY_ORGANIZATION_ID_KEY);
+      }
+
+      await this.save();
+    }
+
+    if (!this.profiles.some(p => p.id === this.activeProfileId)) {
+      this.activeProfileId = this.profiles[0].id;
+      await this.context.globalState.update(ACTIVE_PROFILE_KEY, this.activeProfileId);
+    }
+  }
+
+  getProfiles(): ConnectionProfile[] {
+    return [...this.profiles];
+  }
+
+  getProfile(profileId: string): ConnectionProfile | undefined {
+    return this.profiles.find(p => p.id === profileId);
+  }
+
+  /**
+   * Find a profile by ID or by case-insensitive name, as written in workspace files
+   */
+  findProfile(nameOrId: string): ConnectionProfile | undefined {
+    const lower = nameOrId.toLowerCase();
+    return this.profiles.find(p => p.id === nameOrId) ?? this.profiles.find(p => p.name.toLowerCase() === lower);
+  }
+
+  getActiveProfile(): ConnectionProfile {
+    const profile = this.profiles.find(p => p.id === this.activeProfileId) ?? this.profiles[0];
+    if (!profile) {
+      throw new Error('Profiles have not been initialized');
+    }
+    return profile;
+  }
+
+  async setActiveProfile(profileId: string): Promise<void> {
+    const profile = this.requireProfile(profileId);
+    if (profile.id === this.activeProfileId) {
+      return;
+    }
+
+    this.activeProfileId = profile.id;
+    await this.context.globalState.update(ACTIVE_PROFILE_KEY, profile.id);
+    this._onDidChangeActiveProfile.fire(profile);
+  }
+
+  async addProfile(name: string, server?: ServerSettings): Promise<ConnectionProfile> {
+    const trimmed = name.trim();
+    if (!trimmed) {
+      throw new Error('Profile name is required');
+    }
+    if (this.isNameTaken(trimmed)) {
+      throw new Error(`A profile named "${trimmed}" already exists`);
+    }
+
+    const profile: ConnectionProfile = { id: randomUUID(), name: trimmed, server };
+    this.profiles.push(profile);
+    await this.save();
+    return profile;
+  }
+
+  async renameProfile(profileId: string, name: string): Promise<void> {
+    const profile = this.requireProfile(profileId);
+    const trimmed = name.trim();
+    if (!trimmed) {
+      throw new Error('Profile name is required');
+    }
+    if (this.isNameTaken(trimmed, profileId)) {
+      throw new Error(`A profile named "${trimmed}" already exists`);
+    }
+
+    profile.name = trimmed;
+    await this.save();
+  }
+
+  /**
+   * Remove a profile and its stored credentials. The last profile cannot be removed.
+   */
+  async removeProfile(profileId: string): Promise<void> {
+    this.requireProfile(profileId);
+    if (this.profiles.length === 1) {
+      throw new Error('Cannot remove the only profile');
+    }
+
+    await this.clearCredentials(profileId);
+    this.backends.delete(profileId);
+    this.profiles = this.profiles.filter(p => p.id !== profileId);
+    await this.save();
+
+    if (this.activeProfileId === profileId) {
+      await this.setActiveProfile(this.profiles[0].id);
+    }
+  }
+
+  isNameTaken(name: string, excludeProfileId?: string): boolean {
+    const lower = name.trim().toLowerCase();
+    return this.profiles.some(p => p.id !== excludeProfileId && p.name.toLowerCase() === lower);
+  }
+
+  async getAccessToken(profileId: string = this.getActiveProfile().id): Promise<string | undefined> {
+    return this.context.secrets.get(this.secretKey(LEGACY_ACCESS_TOKEN_KEY, profileId));
+  }
+
+  async setAccessToken(accessToken: string, profileId: string = this.getActiveProfile().id): Promise<void> {
+    await this.context.secrets.store(this.secretKey(LEGACY_ACCESS_TOKEN_KEY, profileId), accessToken);
+  }
+
+  async getOrganizationId(profileId: string = this.getActiveProfile().id): Promise<string | undefined> {
+    return this.context.secrets.get(this.secretKey(LEGACY_ORGANIZATION_ID_KEY, profileId));
+  }
+
+  async setOrganizationId(organizationId: string, profileId: string = this.getActiveProfile().id): Promise<void> {
+    await this.context.secrets.store(this.secretKey(LEGACY_ORGANIZATION_ID_KEY, profileId), organizationId);
+  }
+
+  async deleteAccessToken(profileId: string = this.getActiveProfile().id): Promise<void> {
+    await this.context.secrets.delete(this.secretKey(LEGACY_ACCESS_TOKEN_KEY, profileId));
+  }
+
+  async deleteOrganizationId(profileId: string = this.getActiveProfile().id): Promise<void> {
+    await this.context.secrets.delete(this.secretKey(LEGACY_ORGANIZATION_ID_KEY, profileId));
+  }
+
+  /**
+   * Sign a profile out. Every fetched secret value is forgotten too; values
+   * of other profiles are remembered again when next fetched.
+   */
+  async clearCredentials(profileId: string): Promise<void> {
+    await this.deleteAccessToken(profileId);
+    await this.deleteOrganizationId(profileId);
+    this.backends.delete(profileId);
+    redactionService.clear();
+  }
+
+  async clearAllCredentials(): Promise<void> {
+    for (const profile of this.profiles) {
+      await this.clearCredentials(profile.id);
+    }
+  }
+
+  /**
+   * Get the backend belonging to a profile, creating it on first use
+   */
+  getBackend(profileId: string = this.getActiveProfile().id): SecretsBackend {
+    let backend = this.backends.get(profileId);
+    if (!backend) {
+      const createBackend = getSecretsBackendFactory();
+      backend = createBackend(this.getServerSettings(profileId), ProfileService.getCacheTtlSeconds());
+      this.backends.set(profileId, backend);
+    }
+    return backend;
+  }
+
+  /**
+   * Get the backend of a profile, authenticated with its stored credentials
+   */
+  async getAuthenticatedBackend(profileId: string = this.getActiveProfile().id): Promise<SecretsBackend> {
+    const backend = this.getBackend(profileId);
+    if (!backend.isClientAuthenticated()) {
+      const accessToken = await this.getAccessToken(profileId);
+      if (!accessToken) {
+        throw new Error(`Access token is not set for profile "${this.requireProfile(profileId).name}"`);
+      }
+      await backend.authenticate(accessToken);
+    }
+    if (!backend.getOrganizationId()) {
+      const organizationId = await this.getOrganizationId(profileId);
+      if (!organizationId) {
+        throw new Error(`Organization ID is not set for profile "${this.requireProfile(profileId).name}"`);
+      }
+      backend.setOrganizationId(organizationId);
+    }
+    return backend;
+  }
+
+  /**
+   * Forget all backends so they are recreated with the current backend factory
+   */
+  resetBackends(): void {
+    this.backends.clear();
+  }
+
+  getServerSettings(profileId: string = this.getActiveProfile().id): ServerSettings {
+    return this.getProfile(profileId)?.server ?? ServerConfigService.getServerSettings();
+  }
+
+  /**
+   * Rebuild clients of profiles that follow the configured server
+   */
+  applyServerSettings(server: ServerSettings): void {
+    for (const [profileId, backend] of this.backends) {
+      if (!this.getProfile(profileId)?.server) {
+        backend.setServer(server);
+      }
+    }
+  }
+
+  /**
+   * Apply a new cache TTL to every backend
+   */
+  applyCacheTtl(cacheTtlSeconds: number): void {
+    for (const backend of this.backends.values()) {
+      backend.setCacheTtl(cacheTtlSeconds);
+    }
+  }
+
+  /**
+   * Drop cached secrets of one profile, or of all profiles
+   */
+  invalidateCaches(profileId?: string): void {
+    for (const [id, backend] of this.backends) {
+      if (!profileId || id === profileId) {
+        backend.invalidateCache();
+      }
+    }
+  }
+
+  static getCacheTtlSeconds(): number {
+    const ttl = vscode.workspace.getConfiguration('bitwardenSecretsExplorer.cache').get<number>('ttlSeconds', 300);
+    return Math.max(0, ttl);
+  }
+
+  dispose(): void {
+    this._onDidChangeActiveProfile.dispose();
+    this._onDidChangeProfiles.dispose();
+  }
+
+  private requireProfile(profileId: string): ConnectionProfile {
+    const profile = this.getProfile(profileId);
+    if (!profile) {
+      throw new Error(`Profile ${profileId} not found`);
+    }
+    return profile;
+  }
+
+  private secretKey(base: string, profileId: string): string {
+    return `${base}.${profileId}`;
+  }
+
+  private async save(): Promise<void> {
+    await this.context.globalState.update(PROFILES_KEY, this.profiles);
+    await this.context.globalState.update(ACTIVE_PROFILE_KEY, this.activeProfileId);
+    this._onDidChangeProfiles.fire();
+  }
+}
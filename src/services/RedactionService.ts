@@ -0,0 +1,55 @@
+import { Secret } from '../types';
+import { SecretMasker, StreamMasker } from '../utils/secretMasking';
+
+/**
+ * Remembers every secret value the extension has fetched, so that text it
+ * shows (error messages, logs, output of its terminals) never contains one.
+ * Values are replaced with `••••(KEY)`.
+ */
+export class RedactionService {
+  /** Key of every known value; the first key seen names the mask */
+  private keysByValue = new Map<string, string>();
+  private masker = new SecretMasker();
+
+  /**
+   * Add fetched values to the ones that are redacted
+   */
+  remember(secrets: Pick<Secret, 'key' | 'value'>[] | { [key: string]: string }): void {
+    const entries = Array.isArray(secrets)
+      ? secrets.map(secret => [secret.key, secret.value] as [string, string])
+      : Object.entries(secrets);
+
+    let added = false;
+    for (const [key, value] of entries) {
+      if (typeof value === 'string' && !this.keysByValue.has(value)) {
+        this.keysByValue.set(value, key);
+        added = true;
+      }
+    }
+    if (added) {
+      this.masker.setSecrets([...this.keysByValue].map(([value, key]) => [key, value]));
+    }
+  }
+
+  redact(text: string): string {
+    return this.masker.mask(text);
+  }
+
+  /**
+   * A masker for chunked output, such as a process's stdout. It sees values
+   * remembered after it was created.
+   */
+  createStream(): StreamMasker {
+    return new StreamMasker(this.masker);
+  }
+
+  clear(): void {
+    this.keysByValue.clear();
+    this.masker.setSecrets({});
+  }
+}
+
+/**
+ * Redaction shared by every backend and everything that shows text
+ */
+export const redactionService = new RedactionService();
@@ -0,0 +1,106 @@
+import { Secret } from '../types';
+
+export interface SecretCacheStatus {
+  enabled: boolean;
+  entries: number;
+  lastRefresh?: Date;
+  isFresh: boolean;
+}
+
+/**
+ * In-memory cache of the secrets of one organization. Entries are considered
+ * fresh for `ttlMs`; after that the owner re-validates them with an
+ * incremental sync starting at `lastSyncedDate`.
+ */
+export class SecretCache {
+  private secrets = new Map<string, Secret>();
+  private lastSyncedDate?: Date;
+  private lastRefresh?: number;
+
+  constructor(private ttlMs: number) {}
+
+  setTtl(ttlMs: number): void {
+    this.ttlMs = ttlMs;
+    if (!this.isEnabled()) {
+      this.invalidate();
+    }
+  }
+
+  isEnabled(): boolean {
+    return this.ttlMs > 0;
+  }
+
+  /**
+   * Whether the cache has been populated and is still within its TTL
+   */
+  isFresh(now: number = Date.now()): boolean {
+    return this.isEnabled() && this.lastRefresh !== undefined && now - this.lastRefresh < this.ttlMs;
+  }
+
+  isPopulated(): boolean {
+    return this.lastRefresh !== undefined;
+  }
+
+  getLastSyncedDate(): Date | undefined {
+    return this.lastSyncedDate;
+  }
+
+  /**
+   * Replace every entry with the result of a sync
+   */
+  replaceAll(secrets: Secret[], syncedAt: Date): void {
+    this.secrets.clear();
+    for (const secret of secrets) {
+      if (secret.id) {
+        this.secrets.set(secret.id, secret);
+      }
+    }
+    this.markSynced(syncedAt);
+  }
+
+  /**
+   * Record a sync that reported no changes
+   */
+  markSynced(syncedAt: Date): void {
+    this.lastSyncedDate = syncedAt;
+    this.lastRefresh = syncedAt.getTime();
+  }
+
+  get(secretId: string): Secret | undefined {
+    const secret = this.secrets.get(secretId);
+    return secret ? { ...secret } : undefined;
+  }
+
+  list(projectId?: string): Secret[] {
+    const secrets = [...this.secrets.values()].map(secret => ({ ...secret }));
+    return projectId ? secrets.filter(secret => secret.projectId === projectId) : secrets;
+  }
+
+  upsert(secret: Secret): void {
+    if (this.isPopulated() && secret.id) {
+      this.secrets.set(secret.id, { ...secret });
+    }
+  }
+
+  remove(secretId: string): void {
+    this.secrets.delete(secretId);
+  }
+
+  /**
+   * Drop every entry; the next read performs a full sync
+   */
+  invalidate(): void {
+    this.secrets.clear();
+    this.lastSyncedDate = undefined;
+    this.lastRefresh = undefined;
+  }
+
+  getStatus(): SecretCacheStatus {
+    return {
+      enabled: this.isEnabled(),
+      entries: this.secrets.size,
+      lastRefresh: this.lastRefresh !== undefined ? new Date(this.lastRefresh) : undefined,
+      isFresh: this.isFresh()
+    };
+  }
+}
@@ -0,0 +1,51 @@
+import { ProfileService } from './ProfileService';
+import { isKeyBound } from '../utils/bindings';
+
+/**
+ * Secrets to pass to a process: projects by name or ID, optional key globs and
+ * the connection profile to read them with (the active profile by default)
+ */
+export interface SecretEnvironmentRequest {
+  projects: string[];
+  include?: string[];
+  exclude?: string[];
+  profile?: string;
+}
+
+/**
+ * Resolves project secrets into environment variables for tasks and debug
+ * sessions, without writing them anywhere
+ */
+export class SecretEnvironmentService {
+  constructor(private profiles: ProfileService) {}
+
+  /**
+   * Environment variables for the secrets of the listed projects that pass the
+   * key globs. Later projects win when keys repeat.
+   */
+  async resolve(request: SecretEnvironmentRequest): Promise<{ [key: string]: string }> {
+    const profile = request.profile ? this.profiles.findProfile(request.profile) : this.profiles.getActiveProfile();
+    if (!profile) {
+      throw new Error(`Profile "${request.profile}" not found`);
+    }
+
+    const backend = await this.profiles.getAuthenticatedBackend(profile.id);
+    const projects = await backend.listProjects();
+    const env: { [key: string]: string } = {};
+
+    for (const nameOrId of request.projects) {
+      const project = projects.find(p => p.id === nameOrId) ?? projects.find(p => p.name === nameOrId);
+      if (!project) {
+        throw new Error(`Project "${nameOrId}" not found in profile "${profile.name}"`);
+      }
+      const secrets = await backend.listSecrets(project.id);
+      for (const secret of secrets.sort((a, b) => a.key.localeCompare(b.key))) {
+        if (isKeyBound(request, secret.key)) {
+          env[secret.key] = secret.value;
+        }
+      }
+    }
+
+    return env;
+  }
+}
@@ -0,0 +1,54 @@
+import { Secret, SecretMetadata, Project, ServerSettings } from '../types';
+import { SecretCacheStatus } from './SecretCache';
+
+export interface NewSecret {
+  key: string;
+  value: string;
+  note: string;
+  projectId: string;
+}
+
+export interface SecretUpdate extends NewSecret {
+  id: string;
+}
+
+/**
+ * Everything the extension needs from a Secrets Manager backend. Commands,
+ * the tree and the editors only talk to this interface, so the native SDK
+ * can be swapped for an in-memory implementation in tests.
+ */
+export interface SecretsBackend {
+  getServer(): ServerSettings;
+  setServer(server: ServerSettings): void;
+
+  testSdkAvailability(): Promise<boolean>;
+  authenticate(accessToken: string): Promise<void>;
+  isClientAuthenticated(): boolean;
+  setOrganizationId(orgId: string): void;
+  getOrganizationId(): string | null;
+
+  setCacheTtl(cacheTtlSeconds: number): void;
+  getCacheStatus(): SecretCacheStatus;
+  invalidateCache(): void;
+
+  listProjects(): Promise<Project[]>;
+  createProject(name: string): Promise<Project>;
+  updateProject(projectId: string, name: string): Promise<Project>;
+  deleteProject(projectId: string): Promise<void>;
+
+  listSecrets(projectId?: string): Promise<Secret[]>;
+  listSecretMetadata(projectId?: string): Promise<SecretMetadata[]>;
+  getSecret(secretId: string): Promise<Secret>;
+  createSecret(secret: NewSecret): Promise<Secret>;
+  updateSecret(secret: SecretUpdate): Promise<Secret>;
+  deleteSecret(secretId: string): Promise<void>;
+}
+
+export type SecretsBackendOperation = Exclude<
+  {
+    [K in keyof SecretsBackend]: SecretsBackend[K] extends (...args: any[]) => Promise<any> ? K : never
+  }[keyof SecretsBackend],
+  undefined
+>;
+
+export type SecretsBackendFactory = (server: ServerSettings, cacheTtlSeconds: number) => SecretsBackend;
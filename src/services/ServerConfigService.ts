@@ -0,0 +1,108 @@
+import * as vscode from 'vscode';
+import { ServerPreset, ServerSettings, ValidationResult } from '../types';
+import { ValidationService } from './ValidationService';
+
+const CONFIG_SECTION = 'bitwardenSecretsExplorer.server';
+
+/**
+ * Well-known Bitwarden cloud regions
+ */
+export const SERVER_PRESETS: Record<Exclude<ServerPreset, 'custom'>, ServerSettings & { label: string }> = {
+  us: {
+    label: 'US Cloud (bitwarden.com)',
+    apiUrl: 'https://api.bitwarden.com',
+    identityUrl: 'https://identity.bitwarden.com'
+  },
+  eu: {
+    label: 'EU Cloud (bitwarden.eu)',
+    apiUrl: 'https://api.bitwarden.eu',
+    identityUrl: 'https://identity.bitwarden.eu'
+  }
+};
+
+/**
+ * Reads and writes the server selection stored in the extension settings
+ */
+export class ServerConfigService {
+
+  public static getPreset(): ServerPreset {
+    const preset = this.getUserSetting<ServerPreset>('preset', 'us');
+    return preset === 'eu' || preset === 'custom' ? preset : 'us';
+  }
+
+  public static getServerSettings(): ServerSettings {
+    const preset = this.getPreset();
+    if (preset !== 'custom') {
+      const { apiUrl, identityUrl } = SERVER_PRESETS[preset];
+      return { apiUrl, identityUrl };
+    }
+
+    return {
+      apiUrl: this.normalizeUrl(this.getUserSetting('apiUrl', '')),
+      identityUrl: this.normalizeUrl(this.getUserSetting('identityUrl', ''))
+    };
+  }
+
+  public static validateServerSettings(settings: ServerSettings): ValidationResult {
+    const apiValidation = ValidationService.validateServerUrl(settings.apiUrl, 'apiUrl');
+    const identityValidation = ValidationService.validateServerUrl(settings.identityUrl, 'identityUrl');
+
+    const errors = [...apiValidation.errors, ...identityValidation.errors];
+    return {
+      isValid: errors.length === 0,
+      errors
+    };
+  }
+
+  /**
+   * Derive API and identity URLs from the base URL of a self-hosted instance
+   */
+  public static settingsFromBaseUrl(baseUrl: string): ServerSettings {
+    const base = this.normalizeUrl(baseUrl);
+    return {
+      apiUrl: `${base}/api`,
+      identityUrl: `${base}/identity`
+    };
+  }
+
+  public static async setPreset(preset: ServerPreset, custom?: ServerSettings): Promise<void> {
+    const config = vscode.workspace.getConfiguration(CONFIG_SECTION);
+    if (preset === 'custom' && custom) {
+      await config.update('apiUrl', custom.apiUrl, vscode.ConfigurationTarget.Global);
+      await config.update('identityUrl', custom.identityUrl, vscode.ConfigurationTarget.Global);
+    }
+    await config.update('preset', preset, vscode.ConfigurationTarget.Global);
+  }
+
+  /**
+   * Human readable description of the configured server
+   */
+  public static describe(settings: ServerSettings = this.getServerSettings()): string {
+    for (const preset of Object.values(SERVER_PRESETS)) {
+      if (preset.apiUrl === settings.apiUrl && preset.identityUrl === settings.identityUrl) {
+        return preset.label;
+      }
+    }
+    try {
+      return `Self-hosted (${new URL(settings.apiUrl).host})`;
+    } catch {
+      return 'Custom server (not configured)';
+    }
+  }
+
+  public static affectsServerSettings(event: vscode.ConfigurationChangeEvent): boolean {
+    return event.affectsConfiguration(CONFIG_SECTION);
+  }
+
+  /**
+   * Read a setting from the user settings only. The access token is sent to
+   * the configured server, so a workspace must not be able to redirect it.
+   */
+  private static getUserSetting<T>(key: string, defaultValue: T): T {
+    return vscode.workspace.getConfiguration(CONFIG_SECTION).inspect<T>(key)?.globalValue ?? defaultValue;
+  }
+
+  private static normalizeUrl(url: string): string {
+    return url.trim().replace(/\/+$/, '');
+  }
+}
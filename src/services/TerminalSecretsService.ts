@@ -0,0 +1,79 @@
+import * as vscode from 'vscode';
+import { getClearCommand, getEnvVarCommand } from '../utils/terminalUtils';
+
+/**
+ * How secrets reach a terminal: a new terminal created with them in its
+ * environment, the extension's environment variable collection for every new
+ * terminal, or commands typed into the active terminal
+ */
+export type TerminalInjectionMode = 'newTerminal' | 'environmentCollection' | 'sendText';
+
+const LOADED_CONTEXT_KEY = 'bitwardenSecretsExplorer.hasTerminalSecrets';
+
+/**
+ * Puts secrets into terminal environments. Only `sendText` passes values
+ * through terminal input, where they reach shell history and scrollback.
+ */
+export class TerminalSecretsService {
+  constructor(private collection: vscode.GlobalEnvironmentVariableCollection) {
+    // Keep values in memory only; a persistent collection is written to disk
+    this.collection.persistent = false;
+    this.collection.description = 'Secrets loaded from Bitwarden';
+  }
+
+  public static getInjectionMode(): TerminalInjectionMode {
+    return vscode.workspace.getConfiguration('bitwardenSecretsExplorer.terminal').get<TerminalInjectionMode>('injection', 'newTerminal');
+  }
+
+  /**
+   * Create and show a terminal whose environment contains the values
+   */
+  openTerminal(name: string, values: { [key: string]: string }): vscode.Terminal {
+    const terminal = vscode.window.createTerminal({ name: `Bitwarden: ${name}`, env: values });
+    terminal.show();
+    return terminal;
+  }
+
+  /**
+   * Add the values to the environment of terminals created from now on, until unloaded
+   */
+  async loadIntoCollection(values: { [key: string]: string }): Promise<void> {
+    for (const [key, value] of Object.entries(values)) {
+      this.collection.replace(key, value);
+    }
+    await this.updateContext();
+  }
+
+  /**
+   * Remove every loaded secret from the environment of new terminals; returns their keys
+   */
+  async unload(): Promise<string[]> {
+    const keys = this.loadedKeys();
+    this.collection.clear();
+    await this.updateContext();
+    return keys;
+  }
+
+  loadedKeys(): string[] {
+    const keys: string[] = [];
+    this.collection.forEach(key => keys.push(key));
+    return keys.sort((a, b) => a.localeCompare(b));
+  }
+
+  /**
+   * Type commands for the terminal's shell into the active terminal, then clear its screen
+   */
+  sendToActiveTerminal(values: { [key: string]: string }): void {
+    const terminal = vscode.window.activeTerminal ?? vscode.window.createTerminal('Bitwarden Secrets');
+    // Encode everything first, so a value the shell cannot take sends nothing
+    const commands = Object.entries(values).map(([key, value]) => getEnvVarCommand(key, value, terminal));
+    for (const command of commands) {
+      terminal.sendText(command);
+    }
+    terminal.sendText(getClearCommand(terminal));
+  }
+
+  private async updateContext(): Promise<void> {
+    await vscode.commands.executeCommand('setContext', LOADED_CONTEXT_KEY, this.loadedKeys().length > 0);
+  }
+}
@@ -166,4 +166,45 @@ export class ValidationService {
       errors
     };
   }
+
+
+  public static validateServerUrl(url: string, field: 'apiUrl' | 'identityUrl'): ValidationResult {
+    const errors: ValidationError[] = [];
+
+    let parsed: URL | undefined;
+    try {
+      parsed = new URL(url);
+    } catch {
+      errors.push({
+        field,
+        message: 'Server URL must be an absolute URL, e.g. https://vault.example.com/api',
+        code: 'INVALID_FORMAT'
+      });
+    }
+
+    if (parsed) {
+      // Plain HTTP is only accepted for loopback hosts so a local stand-in server can be used
+      const isLoopback = ['localhost', '127.0.0.1', '[::1]'].includes(parsed.hostname);
+      if (parsed.protocol !== 'https:' && !(parsed.protocol === 'http:' && isLoopback)) {
+        errors.push({
+          field,
+          message: 'Server URL must use https (http is only allowed for localhost)',
+          code: 'INSECURE_PROTOCOL'
+        });
+      }
+
+      if (parsed.search || parsed.hash || parsed.username || parsed.password) {
+        errors.push({
+          field,
+          message: 'Server URL cannot contain credentials, a query string or a fragment',
+          code: 'INVALID_FORMAT'
+        });
+      }
+    }
+
+    return {
+      isValid: errors.length === 0,
+      errors
+    };
+  }
 }
\ No newline at end of file
@@ -0,0 +1,57 @@
+import { BitwardenSdkService } from './BitwardenSdkService';
+import { InMemorySecretsBackend } from './InMemorySecretsBackend';
+import { SecretsBackendFactory } from './SecretsBackend';
+
+/**
+ * Environment variable that selects the backend. Set to `memory` by the test
+ * harness to run against the in-memory fake instead of the native SDK. Only
+ * read once test mode is enabled.
+ */
+export const BACKEND_ENV_VAR = 'BITWARDEN_SECRETS_EXPLORER_BACKEND';
+
+const sdkBackendFactory: SecretsBackendFactory = (server, cacheTtlSeconds) =>
+  new BitwardenSdkService(server, cacheTtlSeconds);
+
+let sharedInMemoryBackend: InMemorySecretsBackend | undefined;
+
+/**
+ * The in-memory backend shared by all profiles when the fake is selected
+ */
+export function getSharedInMemoryBackend(): InMemorySecretsBackend {
+  if (!sharedInMemoryBackend) {
+    sharedInMemoryBackend = new InMemorySecretsBackend();
+  }
+  return sharedInMemoryBackend;
+}
+
+let testMode = false;
+
+function defaultFactory(): SecretsBackendFactory {
+  return testMode && process.env[BACKEND_ENV_VAR] === 'memory'
+    ? () => getSharedInMemoryBackend()
+    : sdkBackendFactory;
+}
+
+let currentFactory: SecretsBackendFactory = defaultFactory();
+
+/**
+ * Let the environment select the in-memory backend. Called on activation
+ * when the extension runs under the test harness, so a shipped build always
+ * talks to the native SDK.
+ */
+export function enableTestMode(): void {
+  testMode = true;
+  currentFactory = defaultFactory();
+}
+
+export function getSecretsBackendFactory(): SecretsBackendFactory {
+  return currentFactory;
+}
+
+/**
+ * Override how backends are created. Pass nothing to restore the default
+ * selection. Existing profile backends have to be recreated afterwards.
+ */
+export function setSecretsBackendFactory(factory?: SecretsBackendFactory): void {
+  currentFactory = factory ?? defaultFactory();
+}
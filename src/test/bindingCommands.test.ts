@@ -0,0 +1,130 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { pullBoundSecretsCommand, pushBoundSecretsCommand } from '../commands';
+import { ExtensionApi } from '../core';
+import { BindingService } from '../services/BindingService';
+import { InMemorySecretsBackend } from '../services/InMemorySecretsBackend';
+import {
+  ACCESS_TOKEN,
+  activateWithFakeBackend,
+  captureMessages,
+  defaultFixtures,
+  deleteWorkspaceFile,
+  ORGANIZATION_ID,
+  PROJECT_API_ID,
+  readWorkspaceFile,
+  setCredentials,
+  Stubs,
+  writeWorkspaceFile
+} from './helpers';
+
+const BINDING_FOLDER = '.bitwarden';
+const ENV_FILE = 'packages/api/.env.binding';
+
+suite('Binding file sync', () => {
+  let api: ExtensionApi;
+  let backend: InMemorySecretsBackend;
+  let bindings: BindingService;
+  let stubs: Stubs;
+  let messages: ReturnType<typeof captureMessages>;
+
+  suiteSetup(async () => {
+    ({ api, backend } = await activateWithFakeBackend());
+    bindings = new BindingService(api.appState.profileService);
+  });
+
+  setup(async () => {
+    stubs = new Stubs();
+    messages = captureMessages(stubs);
+    backend.seed(defaultFixtures());
+    await setCredentials(api, ACCESS_TOKEN, ORGANIZATION_ID);
+  });
+
+  teardown(async () => {
+    stubs.restoreAll();
+    await deleteWorkspaceFile(BINDING_FOLDER);
+    await deleteWorkspaceFile('packages');
+  });
+
+  async function writeBindings(binding: object): Promise<void> {
+    await writeWorkspaceFile(`${BINDING_FOLDER}/secrets.json`, JSON.stringify({ bindings: [binding] }, null, 2));
+  }
+
+  test('pulls bound secrets into a new env file with renamed keys', async () => {
+    await writeBindings({ project: 'api', folder: 'packages/api', envFile: '.env.binding', rename: { DATABASE_URL: 'DB_URL' } });
+
+    await pullBoundSecretsCommand(bindings);
+
+    assert.strictEqual(await readWorkspaceFile(ENV_FILE), '# Added by Bitwarden Secrets Explorer\nAPI_KEY=abc123\nDB_URL=postgres://localhost/app\n');
+    assert.deepStrictEqual(messages.error, []);
+  });
+
+  test('keeps unbound entries of an existing env file', async () => {
+    await writeBindings({ project: PROJECT_API_ID, folder: 'packages/api', envFile: '.env.binding', include: ['API_*'] });
+    await writeWorkspaceFile(ENV_FILE, '# local\nPORT=3000\nAPI_KEY=old\n');
+
+    await pullBoundSecretsCommand(bindings);
+
+    assert.strictEqual(await readWorkspaceFile(ENV_FILE), '# local\nPORT=3000\nAPI_KEY=abc123\n');
+  });
+
+  test('leaves out and reports keys that are not valid .env keys', async () => {
+    const fixtures = defaultFixtures();
+    fixtures.secrets!.push(
+      { id: 'secret-space', key: 'my key', value: 'v', note: '', projectId: PROJECT_API_ID },
+      { id: 'secret-equals', key: 'API_KEY=2', value: 'x', note: '', projectId: PROJECT_API_ID }
+    );
+    backend.seed(fixtures);
+    await writeBindings({ project: 'api', folder: 'packages/api', envFile: '.env.binding' });
+    const warnings = stubs.queue(vscode.window, 'showWarningMessage', []);
+
+    await pullBoundSecretsCommand(bindings);
+
+    assert.strictEqual(await readWorkspaceFile(ENV_FILE), '# Added by Bitwarden Secrets Explorer\nAPI_KEY=abc123\nDATABASE_URL=postgres://localhost/app\n');
+    assert.strictEqual(warnings.calls.length, 1);
+    assert.match(warnings.calls[0][0], /^2 secrets were left out.*: API_KEY=2 \(packages\/api\/\.env\.binding\), my key \(packages\/api\/\.env\.binding\)$/);
+  });
+
+  test('pushes changed and new bound keys after confirmation', async () => {
+    await writeBindings({ project: 'api', folder: 'packages/api', envFile: '.env.binding', exclude: ['PORT'] });
+    await writeWorkspaceFile(ENV_FILE, 'PORT=3000\nAPI_KEY=rotated\nNEW_TOKEN=xyz\n');
+    const confirm = stubs.queue(vscode.window, 'showWarningMessage', [async () => 'Push Changes']);
+
+    assert.strictEqual(await pushBoundSecretsCommand(bindings), true);
+
+    assert.match(confirm.calls[0][0], /^Push 2 changes/);
+    const secrets = new Map((await backend.listSecrets(PROJECT_API_ID)).map(secret => [secret.key, secret.value]));
+    assert.strictEqual(secrets.get('API_KEY'), 'rotated');
+    assert.strictEqual(secrets.get('NEW_TOKEN'), 'xyz');
+    assert.strictEqual(secrets.get('DATABASE_URL'), 'postgres://localhost/app');
+    assert.strictEqual(secrets.has('PORT'), false);
+  });
+
+  test('pushes nothing when the confirmation is dismissed', async () => {
+    await writeBindings({ project: 'api', folder: 'packages/api', envFile: '.env.binding' });
+    await writeWorkspaceFile(ENV_FILE, 'API_KEY=rotated\n');
+    stubs.queue(vscode.window, 'showWarningMessage', []);
+
+    assert.strictEqual(await pushBoundSecretsCommand(bindings), false);
+
+    const apiKey = (await backend.listSecrets(PROJECT_API_ID)).find(secret => secret.key === 'API_KEY');
+    assert.strictEqual(apiKey?.value, 'abc123');
+  });
+
+  test('reports invalid binding files without syncing', async () => {
+    await writeBindings({ project: 'api', folder: '../elsewhere' });
+
+    await pullBoundSecretsCommand(bindings);
+
+    assert.strictEqual(messages.error.length, 1);
+    assert.match(messages.error[0], /folder must be a path inside the workspace folder/);
+  });
+
+  test('reports unknown projects', async () => {
+    await writeBindings({ project: 'missing', folder: 'packages/api', envFile: '.env.binding' });
+
+    await pullBoundSecretsCommand(bindings);
+
+    assert.match(messages.error[0], /Project "missing" not found/);
+  });
+});
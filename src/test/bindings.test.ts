@@ -0,0 +1,90 @@
+import * as assert from 'assert';
+import { Secret, SecretBinding } from '../types';
+import { envFilePath, fromEnvValues, isKeyBound, parseBindingFile, toEnvValues } from '../utils/bindings';
+
+function secret(key: string, value: string): Secret {
+  return { id: `id-${key}`, key, value, note: '', projectId: 'project' };
+}
+
+suite('Binding files', () => {
+  test('parses bindings with comments and trailing commas', () => {
+    const { file, errors } = parseBindingFile(`{
+      // Shared by the whole team
+      "profile": "Work",
+      "bindings": [
+        { "project": "api", "folder": "packages/api", "include": ["DB_*"], },
+      ],
+    }`);
+
+    assert.deepStrictEqual(errors, []);
+    assert.strictEqual(file?.profile, 'Work');
+    assert.deepStrictEqual(file?.bindings, [{ project: 'api', folder: 'packages/api', include: ['DB_*'] }]);
+  });
+
+  test('reports every problem at once', () => {
+    const { file, errors } = parseBindingFile(JSON.stringify({
+      bindings: [
+        { folder: '../outside', color: 'blue' },
+        { project: 'api', include: 'DB_*', rename: { A: 'X', B: 'X' } },
+        { project: 'web', envFile: '/etc/passwd' },
+        { project: 'web' }
+      ]
+    }));
+
+    assert.strictEqual(file, undefined);
+    assert.deepStrictEqual(errors, [
+      'bindings[0] has unknown property "color"',
+      'bindings[0].project must be a project name or ID',
+      'bindings[0].folder must be a path inside the workspace folder',
+      'bindings[1].include must be an array of key globs',
+      'bindings[1].rename maps several keys to "X"',
+      'bindings[2].envFile must be a path inside the folder',
+      'Several bindings write .env'
+    ]);
+  });
+
+  test('rejects renames to keys a .env file cannot hold', () => {
+    const { file, errors } = parseBindingFile(JSON.stringify({
+      bindings: [{ project: 'api', rename: { DATABASE_URL: 'DB URL', API_KEY: 'KEY=1', PORT: 'APP_PORT' } }]
+    }));
+
+    assert.strictEqual(file, undefined);
+    assert.deepStrictEqual(errors, [
+      'bindings[0].rename maps "DATABASE_URL" to "DB URL", which is not a valid .env key',
+      'bindings[0].rename maps "API_KEY" to "KEY=1", which is not a valid .env key'
+    ]);
+  });
+
+  test('rejects files that are not binding files', () => {
+    assert.match(parseBindingFile('{ "bindings": ').errors[0], /^Invalid JSON/);
+    assert.deepStrictEqual(parseBindingFile('[]').errors, ['Expected an object with a "bindings" array']);
+    assert.deepStrictEqual(parseBindingFile('{}').errors, ['Expected a "bindings" array']);
+  });
+
+  test('resolves env file paths relative to the workspace folder', () => {
+    assert.strictEqual(envFilePath({ project: 'api' }), '.env');
+    assert.strictEqual(envFilePath({ project: 'api', folder: './packages/api/', envFile: '.env.local' }), 'packages/api/.env.local');
+    assert.strictEqual(envFilePath({ project: 'api', folder: 'packages\\api' }), 'packages/api/.env');
+  });
+
+  test('applies include and exclude globs', () => {
+    const binding: SecretBinding = { project: 'api', include: ['DB_*', 'API_KEY?'], exclude: ['DB_ADMIN_*'] };
+
+    assert.strictEqual(isKeyBound(binding, 'DB_URL'), true);
+    assert.strictEqual(isKeyBound(binding, 'API_KEY2'), true);
+    assert.strictEqual(isKeyBound(binding, 'API_KEY'), false);
+    assert.strictEqual(isKeyBound(binding, 'DB_ADMIN_PASSWORD'), false);
+    assert.strictEqual(isKeyBound({}, 'ANYTHING'), true);
+  });
+
+  test('renames keys on the way to and from the env file', () => {
+    const binding: SecretBinding = { project: 'api', exclude: ['INTERNAL'], rename: { DATABASE_URL: 'DB_URL' } };
+    const secrets = [secret('DATABASE_URL', 'postgres://db'), secret('API_KEY', 'abc'), secret('INTERNAL', 'x')];
+
+    assert.deepStrictEqual(toEnvValues(binding, secrets), { API_KEY: 'abc', DB_URL: 'postgres://db' });
+    assert.deepStrictEqual(
+      fromEnvValues(binding, { DB_URL: 'postgres://new', DATABASE_URL: 'stale', API_KEY: 'abc', INTERNAL: 'x' }),
+      { DATABASE_URL: 'postgres://new', API_KEY: 'abc' }
+    );
+  });
+});
@@ -0,0 +1,117 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { ExtensionApi } from '../core';
+import { InMemorySecretsBackend } from '../services/InMemorySecretsBackend';
+import { BitwardenSecretsProvider } from '../ui/treeProvider';
+import {
+  ACCESS_TOKEN,
+  activateWithFakeBackend,
+  captureMessages,
+  ensureProvider,
+  EXTENSION_ID,
+  ORGANIZATION_ID,
+  PROJECT_API_ID,
+  setCredentials,
+  Stubs
+} from './helpers';
+
+function contributedCommands(): string[] {
+  const extension = vscode.extensions.getExtension(EXTENSION_ID)!;
+  return extension.packageJSON.contributes.commands.map((c: { command: string }) => c.command);
+}
+
+suite('CommandRegistry', () => {
+  let api: ExtensionApi;
+  let backend: InMemorySecretsBackend;
+  let provider: BitwardenSecretsProvider;
+  let stubs: Stubs;
+
+  suiteSetup(async () => {
+    ({ api, backend } = await activateWithFakeBackend());
+    await setCredentials(api, ACCESS_TOKEN, ORGANIZATION_ID);
+    provider = await ensureProvider(api);
+    await provider.getChildren();
+  });
+
+  setup(() => {
+    stubs = new Stubs();
+  });
+
+  teardown(() => {
+    stubs.restoreAll();
+  });
+
+  test('registers every command contributed in package.json', async () => {
+    const registered = new Set(await vscode.commands.getCommands(true));
+
+    const missing = contributedCommands().filter(command => !registered.has(command));
+    assert.deepStrictEqual(missing, []);
+  });
+
+  test('registers only contributed commands', async () => {
+    const contributed = new Set(contributedCommands());
+    const registered = (await vscode.commands.getCommands(true))
+      .filter(command => command.startsWith('bitwardenSecretsExplorer.'));
+
+    const unexpected = registered.filter(command => !contributed.has(command));
+    assert.deepStrictEqual(unexpected, []);
+  });
+
+  test('createProject creates the project entered by the user', async () => {
+    const messages = captureMessages(stubs);
+    stubs.queue(vscode.window, 'showInputBox', [() => '  billing  ']);
+
+    await vscode.commands.executeCommand('bitwardenSecretsExplorer.createProject');
+
+    const projects = await backend.listProjects();
+    assert.ok(projects.some(project => project.name === 'billing'));
+    assert.deepStrictEqual(messages.error, []);
+  });
+
+  test('createProject does nothing when the prompt is dismissed', async () => {
+    captureMessages(stubs);
+    stubs.queue(vscode.window, 'showInputBox', []);
+    backend.resetCalls();
+
+    await vscode.commands.executeCommand('bitwardenSecretsExplorer.createProject');
+
+    assert.ok(!backend.getCalls().includes('createProject'));
+  });
+
+  test('deleteSecret asks for confirmation before deleting', async () => {
+    captureMessages(stubs);
+    const [secret] = await provider.getSecretsForProject(PROJECT_API_ID, '');
+
+    stubs.queue(vscode.window, 'showWarningMessage', [() => undefined]);
+    await vscode.commands.executeCommand('bitwardenSecretsExplorer.deleteSecret', secret);
+    assert.ok((await backend.listSecrets()).some(s => s.id === secret.id));
+
+    stubs.restoreAll();
+    captureMessages(stubs);
+    stubs.queue(vscode.window, 'showWarningMessage', [() => 'Delete']);
+    await vscode.commands.executeCommand('bitwardenSecretsExplorer.deleteSecret', secret);
+    assert.ok(!(await backend.listSecrets()).some(s => s.id === secret.id));
+  });
+
+  test('backend errors are reported instead of thrown', async () => {
+    const messages = captureMessages(stubs);
+    stubs.queue(vscode.window, 'showInputBox', [() => 'broken']);
+    backend.failOn('createProject', new Error('Service unavailable'), 1);
+
+    await vscode.commands.executeCommand('bitwardenSecretsExplorer.createProject');
+
+    assert.strictEqual(messages.error.length, 1);
+    assert.match(messages.error[0], /Failed to create project: .*Service unavailable/);
+  });
+
+  test('secret values are masked in error messages', async () => {
+    const messages = captureMessages(stubs);
+    stubs.queue(vscode.window, 'showInputBox', [() => 'broken']);
+    await backend.createSecret({ key: 'SERVICE_TOKEN', value: 'tok-9f8e7d', note: '', projectId: PROJECT_API_ID });
+    backend.failOn('createProject', new Error('Invalid request: {"token":"tok-9f8e7d"}'), 1);
+
+    await vscode.commands.executeCommand('bitwardenSecretsExplorer.createProject');
+
+    assert.deepStrictEqual(messages.error, ['Failed to create project: Error: Invalid request: {"token":"••••(SERVICE_TOKEN)"}']);
+  });
+});
@@ -0,0 +1,106 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { ExtensionApi } from '../core';
+import { InMemorySecretsBackend } from '../services/InMemorySecretsBackend';
+import { SecretEnvironmentService } from '../services/SecretEnvironmentService';
+import { BitwardenDebugConfigurationProvider } from '../ui/debugConfigurationProvider';
+import {
+  ACCESS_TOKEN,
+  activateWithFakeBackend,
+  captureMessages,
+  defaultFixtures,
+  ORGANIZATION_ID,
+  setCredentials,
+  Stubs
+} from './helpers';
+
+suite('Debug configuration secrets', () => {
+  let api: ExtensionApi;
+  let backend: InMemorySecretsBackend;
+  let debugProvider: BitwardenDebugConfigurationProvider;
+  let stubs: Stubs;
+  let messages: ReturnType<typeof captureMessages>;
+
+  suiteSetup(async () => {
+    ({ api, backend } = await activateWithFakeBackend());
+    debugProvider = new BitwardenDebugConfigurationProvider(new SecretEnvironmentService(api.appState.profileService));
+  });
+
+  setup(async () => {
+    stubs = new Stubs();
+    messages = captureMessages(stubs);
+    backend.seed(defaultFixtures());
+    await setCredentials(api, ACCESS_TOKEN, ORGANIZATION_ID);
+  });
+
+  teardown(() => {
+    stubs.restoreAll();
+  });
+
+  function resolve(configuration: Partial<vscode.DebugConfiguration>): Promise<vscode.DebugConfiguration | undefined> {
+    return debugProvider.resolveDebugConfigurationWithSubstitutedVariables(undefined, {
+      type: 'node',
+      request: 'launch',
+      name: 'Launch',
+      ...configuration
+    });
+  }
+
+  test('leaves configurations without bitwardenProjects alone', async () => {
+    backend.resetCalls();
+    const configuration = await resolve({ env: { PORT: '3000' } });
+
+    assert.deepStrictEqual(configuration?.env, { PORT: '3000' });
+    assert.deepStrictEqual(backend.getCalls(), []);
+  });
+
+  test('merges project secrets into env, which keeps its own values', async () => {
+    const configuration = await resolve({
+      bitwardenProjects: ['api'],
+      env: { PORT: '3000', API_KEY: 'local' },
+      envFile: '${workspaceFolder}/.env'
+    });
+
+    assert.deepStrictEqual(configuration?.env, { DATABASE_URL: 'postgres://localhost/app', API_KEY: 'local', PORT: '3000' });
+    assert.strictEqual(configuration?.envFile, '${workspaceFolder}/.env');
+  });
+
+  test('lets secrets replace env with bitwardenOverrideEnv and filters keys', async () => {
+    const configuration = await resolve({
+      bitwardenProjects: 'api',
+      bitwardenKeys: ['API_*'],
+      bitwardenOverrideEnv: true,
+      env: { API_KEY: 'local' }
+    });
+
+    assert.deepStrictEqual(configuration?.env, { API_KEY: 'abc123' });
+  });
+
+  test('uses the environment array of C++ configurations', async () => {
+    const configuration = await resolve({
+      type: 'cppdbg',
+      bitwardenProjects: ['api'],
+      environment: [{ name: 'API_KEY', value: 'local' }]
+    });
+
+    assert.deepStrictEqual(configuration?.environment, [
+      { name: 'API_KEY', value: 'local' },
+      { name: 'DATABASE_URL', value: 'postgres://localhost/app' }
+    ]);
+    assert.strictEqual(configuration?.env, undefined);
+  });
+
+  test('stops the launch when secrets cannot be resolved', async () => {
+    const configuration = await resolve({ bitwardenProjects: ['missing'] });
+
+    assert.strictEqual(configuration, undefined);
+    assert.match(messages.error[0], /Failed to resolve Bitwarden secrets for "Launch": Project "missing" not found/);
+  });
+
+  test('rejects invalid properties', async () => {
+    const configuration = await resolve({ bitwardenProjects: ['api'], bitwardenKeys: 'API_*' });
+
+    assert.strictEqual(configuration, undefined);
+    assert.match(messages.error[0], /"bitwardenKeys" must be an array/);
+  });
+});
@@ -0,0 +1,130 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { compareWithProjectCommand, pullComparedKeyCommand, pushComparedKeyCommand } from '../commands';
+import { ExtensionApi } from '../core';
+import { EnvCompareProvider } from '../ui/envCompareProvider';
+import { InMemorySecretsBackend } from '../services/InMemorySecretsBackend';
+import {
+  ACCESS_TOKEN,
+  activateWithFakeBackend,
+  captureMessages,
+  defaultFixtures,
+  deleteWorkspaceFile,
+  ORGANIZATION_ID,
+  pickLabel,
+  PROJECT_API_ID,
+  readWorkspaceFile,
+  setCredentials,
+  Stubs,
+  waitFor,
+  writeWorkspaceFile
+} from './helpers';
+
+const ENV_FILE = '.env.compare';
+
+suite('Compare with Bitwarden project', () => {
+  let api: ExtensionApi;
+  let backend: InMemorySecretsBackend;
+  let compare: EnvCompareProvider;
+  let stubs: Stubs;
+  let messages: ReturnType<typeof captureMessages>;
+
+  suiteSetup(async () => {
+    ({ api, backend } = await activateWithFakeBackend());
+    compare = api.appState.envCompareProvider;
+  });
+
+  setup(async () => {
+    stubs = new Stubs();
+    messages = captureMessages(stubs);
+    backend.seed(defaultFixtures());
+    await setCredentials(api, ACCESS_TOKEN, ORGANIZATION_ID);
+  });
+
+  teardown(async () => {
+    stubs.restoreAll();
+    await compare.setRevealed(false);
+    await vscode.commands.executeCommand('workbench.action.closeAllEditors');
+    await deleteWorkspaceFile(ENV_FILE);
+  });
+
+  /**
+   * Compare the test file with the api project and return both sides of the diff
+   */
+  async function openComparison(): Promise<{ remote: vscode.TextDocument; local: vscode.TextDocument }> {
+    const uri = await writeWorkspaceFile(ENV_FILE, 'API_KEY=abc123\nDATABASE_URL=postgres://localhost/other\nLOCAL_ONLY=1\n');
+    stubs.queue(vscode.window, 'showQuickPick', [pickLabel('api')]);
+
+    await compareWithProjectCommand(api.appState.profileService, compare, uri);
+
+    // Documents of earlier comparisons may still be open; the newest session has the highest ID
+    const sides = () => {
+      const documents = vscode.workspace.textDocuments.filter(document => document.uri.scheme === EnvCompareProvider.scheme);
+      const newest = Math.max(...documents.map(document => Number(document.uri.query)));
+      return documents.filter(document => Number(document.uri.query) === newest);
+    };
+    await waitFor(() => sides().length === 2);
+    const [first, second] = sides();
+    return first.uri.path.startsWith('/remote/') ? { remote: first, local: second } : { remote: second, local: first };
+  }
+
+  test('opens a diff with masked values', async () => {
+    const { remote, local } = await openComparison();
+
+    assert.strictEqual(remote.getText(), 'API_KEY=••••••••\nDATABASE_URL=•••••••• (Bitwarden)\n');
+    assert.strictEqual(local.getText(), 'API_KEY=••••••••\nDATABASE_URL=•••••••• (local)\nLOCAL_ONLY=••••••••\n');
+    assert.deepStrictEqual(messages.error, []);
+  });
+
+  test('reveals values on request', async () => {
+    const { remote } = await openComparison();
+
+    await vscode.commands.executeCommand('bitwardenSecretsExplorer.revealComparedValues');
+
+    await waitFor(() => remote.getText().includes('postgres'));
+    assert.strictEqual(remote.getText(), 'API_KEY=abc123\nDATABASE_URL=postgres://localhost/app\n');
+  });
+
+  test('offers pull and push lenses for differing keys only', async () => {
+    const { local } = await openComparison();
+
+    const lenses = await vscode.commands.executeCommand<vscode.CodeLens[]>('vscode.executeCodeLensProvider', local.uri);
+    const commands = lenses.map(lens => `${lens.command?.command}:${lens.command?.arguments?.[1]}`).sort();
+    assert.deepStrictEqual(commands, [
+      'bitwardenSecretsExplorer.pullComparedKey:DATABASE_URL',
+      'bitwardenSecretsExplorer.pushComparedKey:DATABASE_URL',
+      'bitwardenSecretsExplorer.pushComparedKey:LOCAL_ONLY'
+    ]);
+  });
+
+  test('pulls the project value of a key into the file', async () => {
+    const { local } = await openComparison();
+
+    await pullComparedKeyCommand(compare, local.uri.query, 'DATABASE_URL');
+
+    assert.strictEqual(await readWorkspaceFile(ENV_FILE), 'API_KEY=abc123\nDATABASE_URL=postgres://localhost/app\nLOCAL_ONLY=1\n');
+  });
+
+  test('pushes a new key without confirmation', async () => {
+    const { local } = await openComparison();
+
+    assert.strictEqual(await pushComparedKeyCommand(compare, local.uri.query, 'LOCAL_ONLY'), true);
+
+    const created = (await backend.listSecrets(PROJECT_API_ID)).find(secret => secret.key === 'LOCAL_ONLY');
+    assert.strictEqual(created?.value, '1');
+    assert.strictEqual(created?.note, `Pushed from ${ENV_FILE}`);
+  });
+
+  test('asks before overwriting an existing secret', async () => {
+    const { local } = await openComparison();
+    const confirm = stubs.queue(vscode.window, 'showWarningMessage', []);
+
+    assert.strictEqual(await pushComparedKeyCommand(compare, local.uri.query, 'DATABASE_URL'), false);
+    assert.strictEqual(confirm.calls.length, 1);
+
+    stubs.queue(vscode.window, 'showWarningMessage', [async () => 'Push']);
+    assert.strictEqual(await pushComparedKeyCommand(compare, local.uri.query, 'DATABASE_URL'), true);
+    const updated = (await backend.listSecrets(PROJECT_API_ID)).find(secret => secret.key === 'DATABASE_URL');
+    assert.strictEqual(updated?.value, 'postgres://localhost/other');
+  });
+});
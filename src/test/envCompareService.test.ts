@@ -0,0 +1,51 @@
+import * as assert from 'assert';
+import { EnvCompareService } from '../services/EnvCompareService';
+import { Secret } from '../types';
+
+function secret(key: string, value: string): Secret {
+  return { id: `id-${key}`, key, value, note: '', projectId: 'project' };
+}
+
+suite('EnvCompareService', () => {
+  const secrets = [secret('DATABASE_URL', 'postgres://db'), secret('API_KEY', 'abc'), secret('REMOTE_ONLY', 'r')];
+  const local = { API_KEY: 'abc', DATABASE_URL: 'postgres://local', LOCAL_ONLY: 'l' };
+
+  test('classifies every key of either side', () => {
+    const entries = EnvCompareService.compare(local, secrets);
+
+    assert.deepStrictEqual(entries.map(entry => [entry.key, entry.status]), [
+      ['API_KEY', 'unchanged'],
+      ['DATABASE_URL', 'changed'],
+      ['LOCAL_ONLY', 'localOnly'],
+      ['REMOTE_ONLY', 'remoteOnly']
+    ]);
+    assert.strictEqual(EnvCompareService.countDifferences(entries), 3);
+  });
+
+  test('compares the first secret when keys repeat', () => {
+    const entries = EnvCompareService.compare({ API_KEY: 'abc' }, [secret('API_KEY', 'abc'), secret('API_KEY', 'other')]);
+
+    assert.strictEqual(entries[0].status, 'unchanged');
+  });
+
+  test('renders revealed values as env documents', () => {
+    const entries = EnvCompareService.compare(local, secrets);
+
+    assert.strictEqual(EnvCompareService.render(entries, 'remote', true), 'API_KEY=abc\nDATABASE_URL=postgres://db\nREMOTE_ONLY=r\n');
+    assert.strictEqual(EnvCompareService.render(entries, 'local', true), 'API_KEY=abc\nDATABASE_URL=postgres://local\nLOCAL_ONLY=l\n');
+  });
+
+  test('masks values but keeps changed keys different between sides', () => {
+    const entries = EnvCompareService.compare(local, secrets);
+    const remote = EnvCompareService.render(entries, 'remote', false);
+    const localText = EnvCompareService.render(entries, 'local', false);
+
+    assert.strictEqual(remote, 'API_KEY=••••••••\nDATABASE_URL=•••••••• (Bitwarden)\nREMOTE_ONLY=••••••••\n');
+    assert.strictEqual(localText, 'API_KEY=••••••••\nDATABASE_URL=•••••••• (local)\nLOCAL_ONLY=••••••••\n');
+    assert.ok(!remote.includes('postgres') && !localText.includes('postgres'));
+  });
+
+  test('renders an empty side as an empty document', () => {
+    assert.strictEqual(EnvCompareService.render(EnvCompareService.compare({}, secrets), 'local', true), '');
+  });
+});
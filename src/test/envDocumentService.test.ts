@@ -0,0 +1,77 @@
+import * as assert from 'assert';
+import { EnvDocumentService } from '../services/EnvDocumentService';
+import { Secret } from '../types';
+import { parseEnvFile } from '../utils/envFile';
+
+function secret(id: string, key: string, value: string): Secret {
+  return { id, key, value, note: '', projectId: 'project' };
+}
+
+suite('EnvDocumentService', () => {
+  const secrets = [
+    secret('1', 'B_KEY', 'two'),
+    secret('2', 'A_KEY', 'one'),
+    secret('3', 'MULTI', 'first\nsecond')
+  ];
+
+  test('render sorts keys and quotes multi-line values', () => {
+    const content = EnvDocumentService.render('api', secrets);
+    const lines = content.split('\n').filter(line => line && !line.startsWith('#'));
+
+    assert.deepStrictEqual(lines, ['A_KEY=one', 'B_KEY=two', 'MULTI="first\\nsecond"']);
+  });
+
+  test('an unchanged document has no changes', () => {
+    const changes = EnvDocumentService.computeChanges(secrets, parseEnvFile(EnvDocumentService.render('api', secrets)));
+
+    assert.strictEqual(EnvDocumentService.countChanges(changes), 0);
+  });
+
+  test('computes creates, updates and deletes', () => {
+    const changes = EnvDocumentService.computeChanges(secrets, { A_KEY: 'changed', C_KEY: 'three' });
+
+    assert.deepStrictEqual(changes.creates, [{ key: 'C_KEY', value: 'three' }]);
+    assert.deepStrictEqual(changes.updates.map(u => [u.secret.id, u.value]), [['2', 'changed']]);
+    assert.deepStrictEqual(changes.deletes.map(s => s.id), ['1', '3']);
+  });
+
+  test('leaves secrets sharing a key alone until their line changes', () => {
+    const duplicated = [secret('1', 'KEY', 'a'), secret('2', 'KEY', 'b'), secret('3', 'OTHER', 'x')];
+
+    const untouched = EnvDocumentService.computeChanges(duplicated, { KEY: 'a', OTHER: 'y' });
+    assert.deepStrictEqual(untouched.updates.map(u => [u.secret.id, u.value]), [['3', 'y']]);
+
+    const changed = EnvDocumentService.computeChanges(duplicated, { KEY: 'c', OTHER: 'x' });
+    assert.deepStrictEqual(changed.updates.map(u => [u.secret.id, u.value]), [['1', 'c'], ['2', 'c']]);
+  });
+
+  test('compares with the values the document was rendered with', () => {
+    const current = [secret('1', 'A_KEY', 'changed remotely'), secret('2', 'B_KEY', 'two')];
+
+    const changes = EnvDocumentService.computeChanges(current, { A_KEY: 'one' }, { A_KEY: 'one' });
+
+    // A_KEY was not edited and B_KEY was created after the document was opened
+    assert.strictEqual(EnvDocumentService.countChanges(changes), 0);
+  });
+
+  test('leaves out keys a .env file cannot hold without deleting them', () => {
+    const withInvalid = [...secrets, secret('4', 'db:password', 'hunter2'), secret('5', 'MY KEY', 'v')];
+
+    const content = EnvDocumentService.render('api', withInvalid);
+    assert.match(content, /^# Not shown, as they are not valid \.env keys: "db:password", "MY KEY"$/m);
+    assert.ok(!content.includes('hunter2'));
+
+    const changes = EnvDocumentService.computeChanges(withInvalid, parseEnvFile(content));
+    assert.strictEqual(EnvDocumentService.countChanges(changes), 0);
+  });
+
+  test('describe lists keys without values', () => {
+    const changes = EnvDocumentService.computeChanges(secrets, { A_KEY: 'changed', C_KEY: 'three', MULTI: 'first\nsecond' });
+
+    assert.deepStrictEqual(EnvDocumentService.describe(changes), [
+      '+ C_KEY (new)',
+      '~ A_KEY (value changed)',
+      '- B_KEY (deleted)'
+    ]);
+  });
+});
@@ -0,0 +1,198 @@
+import * as assert from 'assert';
+import { ADDED_SECTION_MARKER, formatEnvFile, parseDotenv, parseEnvFile, updateDotenv } from '../utils/envFile';
+
+suite('parseDotenv', () => {
+  test('reads plain assignments and skips comments and blank lines', () => {
+    const result = parseDotenv('# comment\n\nA=1\n  B = two  \n');
+
+    assert.deepStrictEqual(result.values, { A: '1', B: 'two' });
+    assert.deepStrictEqual(result.diagnostics, []);
+  });
+
+  test('strips export prefixes', () => {
+    const result = parseDotenv('export TOKEN=abc\nexport   OTHER="x"');
+
+    assert.deepStrictEqual(result.values, { TOKEN: 'abc', OTHER: 'x' });
+    assert.ok(result.entries.every(entry => entry.exported));
+  });
+
+  test('handles BOM and CRLF line endings', () => {
+    const result = parseDotenv('\uFEFFA=1\r\nB=2\r\n');
+
+    assert.deepStrictEqual(result.values, { A: '1', B: '2' });
+  });
+
+  test('strips inline comments only after whitespace', () => {
+    const result = parseDotenv('A=value # comment\nB=color#fff\nC="quoted # kept" # dropped');
+
+    assert.deepStrictEqual(result.values, { A: 'value', B: 'color#fff', C: 'quoted # kept' });
+  });
+
+  test('keeps single-quoted and backtick-quoted values literally', () => {
+    const result = parseDotenv("A='raw \\n $HOME'\nB=`it's \"mixed\"`");
+
+    assert.deepStrictEqual(result.values, { A: 'raw \\n $HOME', B: 'it\'s "mixed"' });
+  });
+
+  test('expands escape sequences in double quotes', () => {
+    const result = parseDotenv('A="line1\\nline2\\t\\"quoted\\" \\\\ end"');
+
+    assert.strictEqual(result.values.A, 'line1\nline2\t"quoted" \\ end');
+  });
+
+  test('reads multiline double-quoted values', () => {
+    const content = 'KEY="-----BEGIN KEY-----\nabc\n-----END KEY-----"\nNEXT=1';
+
+    const result = parseDotenv(content);
+
+    assert.strictEqual(result.values.KEY, '-----BEGIN KEY-----\nabc\n-----END KEY-----');
+    assert.strictEqual(result.values.NEXT, '1');
+    assert.deepStrictEqual(result.entries.map(entry => [entry.key, entry.line, entry.endLine]), [['KEY', 1, 3], ['NEXT', 4, 4]]);
+  });
+
+  test('preserves empty values', () => {
+    assert.deepStrictEqual(parseDotenv('A=\nB=""\nC=\'\'').values, { A: '', B: '', C: '' });
+  });
+
+  test('reports malformed lines with line numbers and keeps parsing', () => {
+    const result = parseDotenv('A=1\nnot an assignment\n=missing\nBAD KEY=1\nB=2');
+
+    assert.deepStrictEqual(result.values, { A: '1', B: '2' });
+    assert.deepStrictEqual(result.diagnostics.map(d => [d.line, d.severity]), [[2, 'error'], [3, 'error'], [4, 'error']]);
+  });
+
+  test('reports unterminated quotes and resumes on the next line', () => {
+    const result = parseDotenv('A="never closed\nB=2');
+
+    assert.deepStrictEqual(result.values, { B: '2' });
+    assert.strictEqual(result.diagnostics[0].line, 1);
+    assert.match(result.diagnostics[0].message, /Unterminated double-quoted value/);
+  });
+
+  test('reports characters after a closing quote', () => {
+    const result = parseDotenv('A="value" trailing');
+
+    assert.deepStrictEqual(result.values, {});
+    assert.match(result.diagnostics[0].message, /after closing quote/);
+  });
+
+  test('warns about duplicate keys and keeps the last value', () => {
+    const result = parseDotenv('A=1\nA=2');
+
+    assert.strictEqual(result.values.A, '2');
+    assert.deepStrictEqual(result.diagnostics.map(d => [d.line, d.severity]), [[2, 'warning']]);
+  });
+});
+
+suite('formatEnvFile', () => {
+  test('round-trips values through parseEnvFile', () => {
+    const values = {
+      PLAIN: 'abc',
+      SPACES: '  padded  ',
+      MULTILINE: 'first\nsecond',
+      QUOTES: '"already quoted"',
+      COMMENT: 'a #b',
+      BACKSLASH: 'C:\\path',
+      EMPTY: ''
+    };
+
+    assert.deepStrictEqual(parseEnvFile(formatEnvFile(values)), values);
+  });
+
+  test('leaves simple values unquoted', () => {
+    assert.strictEqual(formatEnvFile({ A: 'postgres://localhost/app', B: 'hello world' }), 'A=postgres://localhost/app\nB=hello world');
+  });
+
+  test('skips keys that are not valid .env keys', () => {
+    assert.strictEqual(formatEnvFile({ 'my key': 'v', 'B=C': 'x', A: '1' }), 'A=1');
+  });
+});
+
+suite('updateDotenv', () => {
+  test('updates keys in place and keeps comments and layout', () => {
+    const content = [
+      '# Database',
+      'DB_HOST=localhost # dev only',
+      '',
+      'export API_KEY=old',
+      'PORT=80',
+      ''
+    ].join('\n');
+
+    const updated = updateDotenv(content, { DB_HOST: 'db.internal', API_KEY: 'new' });
+
+    assert.strictEqual(updated, [
+      '# Database',
+      'DB_HOST=db.internal # dev only',
+      '',
+      'export API_KEY=new',
+      'PORT=80',
+      ''
+    ].join('\n'));
+  });
+
+  test('keeps the quote style of replaced values', () => {
+    const content = 'A="old"\nB=\'old\'\nC=`old`\n';
+
+    const updated = updateDotenv(content, { A: 'new', B: 'it\'s', C: 'new' });
+
+    assert.strictEqual(updated, 'A="new"\nB=it\'s\nC=`new`\n');
+  });
+
+  test('replaces multiline values entirely', () => {
+    const content = 'CERT="line1\nline2"\nNEXT=1\n';
+
+    const updated = updateDotenv(content, { CERT: 'a\nb' });
+
+    assert.strictEqual(updated, 'CERT="a\\nb"\nNEXT=1\n');
+    assert.deepStrictEqual(parseEnvFile(updated), { CERT: 'a\nb', NEXT: '1' });
+  });
+
+  test('appends new keys in a marked section', () => {
+    const updated = updateDotenv('A=1\n\n', { B: 'two words #1', C: '' });
+
+    assert.strictEqual(updated, `A=1\n\n${ADDED_SECTION_MARKER}\nB="two words #1"\nC=\n`);
+  });
+
+  test('appends to an existing marked section', () => {
+    const content = `A=1\n\n${ADDED_SECTION_MARKER}\nB=2\n\n# Local overrides\nZ=9\n`;
+
+    const updated = updateDotenv(content, { C: '3' });
+
+    assert.strictEqual(updated, `A=1\n\n${ADDED_SECTION_MARKER}\nB=2\nC=3\n\n# Local overrides\nZ=9\n`);
+  });
+
+  test('updates the effective definition of duplicated keys', () => {
+    assert.strictEqual(updateDotenv('A=1\nA=2\n', { A: '3' }), 'A=1\nA=3\n');
+  });
+
+  test('preserves CRLF line endings, BOM and a missing final newline', () => {
+    const updated = updateDotenv('\uFEFFA=1\r\nB=2', { B: '3', C: '4' });
+
+    assert.strictEqual(updated, `\uFEFFA=1\r\nB=3\r\n\r\n${ADDED_SECTION_MARKER}\r\nC=4`);
+  });
+
+  test('leaves malformed lines untouched', () => {
+    assert.strictEqual(updateDotenv('A=1\nnot valid\n', { A: '2' }), 'A=2\nnot valid\n');
+  });
+
+  test('writes an empty file as just the marked section', () => {
+    assert.strictEqual(updateDotenv('', { A: '1' }), `${ADDED_SECTION_MARKER}\nA=1\n`);
+  });
+
+  test('output round-trips through the parser', () => {
+    const values = { SPACES: ' x ', HASH: 'a #b', QUOTE: '"q"', NEWLINE: 'a\r\nb', BACKSLASH: '\\n' };
+
+    const updated = updateDotenv('SPACES=old # keep\nHASH=\'old\'\n', values);
+
+    assert.deepStrictEqual(parseEnvFile(updated), values);
+    assert.match(updated, /# keep/);
+  });
+
+  test('skips keys that are not valid .env keys', () => {
+    const updated = updateDotenv('A=1\nB=2\n', { 'my key': 'v', 'B=C': 'x', A: '3' });
+
+    assert.strictEqual(updated, 'A=3\nB=2\n');
+    assert.deepStrictEqual(parseEnvFile(updated), { A: '3', B: '2' });
+  });
+});
@@ -0,0 +1,444 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { importSecretsFromEnvCommand, exportProjectSecretsCommand, copyProjectSecretsCommand } from '../commands';
+import { ExtensionApi } from '../core';
+import { InMemorySecretsBackend } from '../services/InMemorySecretsBackend';
+import { BitwardenSecretItem, BitwardenSecretsProvider } from '../ui/treeProvider';
+import { parseEnvFile } from '../utils/envFile';
+import {
+  ACCESS_TOKEN,
+  activateWithFakeBackend,
+  captureMessages,
+  createTestContext,
+  defaultFixtures,
+  deleteWorkspaceFile,
+  ensureProvider,
+  getWorkspaceFolder,
+  FakeWebviewPanel,
+  ORGANIZATION_ID,
+  pickFile,
+  pickLabel,
+  PROJECT_API_ID,
+  readWorkspaceFile,
+  setCredentials,
+  Stubs,
+  waitFor,
+  writeWorkspaceFile
+} from './helpers';
+
+const ENV_FILE = '.env.test';
+const DOTENV = 'Dotenv (.env)';
+const EXPORT_FILE = 'secrets.test.json';
+const MANIFEST_FILE = 'secret.test.yaml';
+const JSON_FILE = 'config.test.json';
+const NESTED_ENV_FILE = 'packages/app/.env.test';
+
+suite('.env import and export', () => {
+  let api: ExtensionApi;
+  let backend: InMemorySecretsBackend;
+  let provider: BitwardenSecretsProvider;
+  let project: BitwardenSecretItem;
+  let context: vscode.ExtensionContext;
+  let stubs: Stubs;
+  let messages: ReturnType<typeof captureMessages>;
+
+  suiteSetup(async () => {
+    ({ api, backend } = await activateWithFakeBackend());
+    provider = await ensureProvider(api);
+    context = createTestContext();
+  });
+
+  setup(async () => {
+    stubs = new Stubs();
+    messages = captureMessages(stubs);
+    backend.seed(defaultFixtures());
+    await setCredentials(api, ACCESS_TOKEN, ORGANIZATION_ID);
+    const projects = await provider.getChildren();
+    project = projects.find(item => item.id === PROJECT_API_ID)!;
+  });
+
+  teardown(async () => {
+    stubs.restoreAll();
+    await deleteWorkspaceFile(ENV_FILE);
+    await deleteWorkspaceFile(EXPORT_FILE);
+    await deleteWorkspaceFile(MANIFEST_FILE);
+    await deleteWorkspaceFile(JSON_FILE);
+    await deleteWorkspaceFile('packages');
+  });
+
+  async function secretsByKey(): Promise<Map<string, string>> {
+    const secrets = await backend.listSecrets(PROJECT_API_ID);
+    return new Map(secrets.map(secret => [secret.key, secret.value]));
+  }
+
+  suite('import', () => {
+    /**
+     * Run the import and answer the preview with the given message
+     */
+    async function runImport(reply: any, dryRun = false, file = ENV_FILE): Promise<FakeWebviewPanel> {
+      const panel = new FakeWebviewPanel();
+      stubs.stub(vscode.window, 'createWebviewPanel', (() => panel) as any);
+      stubs.queue(vscode.window, 'showQuickPick', [pickFile(file)]);
+
+      const done = importSecretsFromEnvCommand(context, provider, project, dryRun);
+      await waitFor(() => panel.messageHandler !== undefined);
+      await panel.send(reply);
+      await done;
+      return panel;
+    }
+
+    test('previews every key with its status and masked values', async () => {
+      await writeWorkspaceFile(ENV_FILE, 'PORT=8080\nAPI_KEY=from-file\nDATABASE_URL=postgres://localhost/app\n');
+
+      const panel = await runImport({ command: 'cancel' });
+
+      const html = panel.webview.html;
+      assert.match(html, /data-status="new"[\s\S]*PORT/);
+      assert.match(html, /data-status="changed"[\s\S]*API_KEY/);
+      assert.match(html, /data-status="unchanged"[\s\S]*DATABASE_URL/);
+      assert.doesNotMatch(html, /from-file|abc123|8080/);
+    });
+
+    test('creates the selected new keys', async () => {
+      await writeWorkspaceFile(ENV_FILE, 'PORT=8080\n# comment\nLOG_LEVEL=debug\n');
+
+      await runImport({ command: 'import', keys: ['PORT', 'LOG_LEVEL'] });
+
+      const secrets = await secretsByKey();
+      assert.strictEqual(secrets.get('PORT'), '8080');
+      assert.strictEqual(secrets.get('LOG_LEVEL'), 'debug');
+      assert.strictEqual(secrets.get('API_KEY'), 'abc123');
+      assert.deepStrictEqual(messages.error, []);
+    });
+
+    test('reads quoted and multiline values and reports malformed lines', async () => {
+      await writeWorkspaceFile(ENV_FILE, 'export PORT="8080" # web\nCERT="a\nb"\nnot valid\n');
+      const warnings = stubs.queue(vscode.window, 'showWarningMessage', []);
+
+      await runImport({ command: 'import', keys: ['PORT', 'CERT'] });
+
+      const secrets = await secretsByKey();
+      assert.strictEqual(secrets.get('PORT'), '8080');
+      assert.strictEqual(secrets.get('CERT'), 'a\nb');
+      assert.strictEqual(warnings.calls.length, 1);
+      assert.match(warnings.calls[0][0], /line 4/);
+    });
+
+    test('keeps existing secrets that are not selected', async () => {
+      await writeWorkspaceFile(ENV_FILE, 'API_KEY=from-file\nPORT=8080\n');
+
+      await runImport({ command: 'import', keys: ['PORT'] });
+
+      const secrets = await secretsByKey();
+      assert.strictEqual(secrets.get('API_KEY'), 'abc123');
+      assert.strictEqual(secrets.get('PORT'), '8080');
+    });
+
+    test('updates overwritten secrets in place', async () => {
+      await writeWorkspaceFile(ENV_FILE, 'API_KEY=from-file\n');
+      backend.resetCalls();
+
+      await runImport({ command: 'import', keys: ['API_KEY'] });
+
+      const apiKeys = (await backend.listSecrets(PROJECT_API_ID)).filter(secret => secret.key === 'API_KEY');
+      assert.strictEqual(apiKeys.length, 1);
+      assert.strictEqual(apiKeys[0].id, 'secret-api-key');
+      assert.strictEqual(apiKeys[0].value, 'from-file');
+      assert.strictEqual(apiKeys[0].note, 'Rotated monthly');
+      assert.ok(!backend.getCalls().includes('deleteSecret'));
+    });
+
+    test('rolls back all changes when a later step fails', async () => {
+      await writeWorkspaceFile(ENV_FILE, 'API_KEY=from-file\nPORT=8080\nHOST=example\n');
+      backend.failOn('createSecret', new Error('Quota exceeded'), 1);
+
+      await runImport({ command: 'import', keys: ['API_KEY', 'PORT', 'HOST'] });
+
+      const secrets = await secretsByKey();
+      assert.strictEqual(secrets.get('API_KEY'), 'abc123');
+      assert.ok(!secrets.has('PORT'));
+      assert.ok(!secrets.has('HOST'));
+      assert.strictEqual(messages.error.length, 1);
+      assert.match(messages.error[0], /Quota exceeded.*rolled back/);
+    });
+
+    test('changes nothing when the preview is cancelled', async () => {
+      await writeWorkspaceFile(ENV_FILE, 'API_KEY=from-file\nPORT=8080\n');
+      backend.resetCalls();
+
+      await runImport({ command: 'cancel' });
+
+      const calls = backend.getCalls();
+      assert.ok(!calls.includes('createSecret'));
+      assert.ok(!calls.includes('updateSecret'));
+      assert.ok(!calls.includes('deleteSecret'));
+      assert.strictEqual((await secretsByKey()).get('API_KEY'), 'abc123');
+    });
+
+    test('imports a Kubernetes Secret manifest', async () => {
+      await writeWorkspaceFile(MANIFEST_FILE, 'apiVersion: v1\nkind: Secret\nmetadata:\n  name: api\ndata:\n  PORT: ODA4MA==\n');
+
+      await runImport({ command: 'import', keys: ['PORT'] }, false, MANIFEST_FILE);
+
+      assert.strictEqual((await secretsByKey()).get('PORT'), '8080');
+    });
+
+    test('imports other YAML files with nested keys flattened', async () => {
+      await writeWorkspaceFile(MANIFEST_FILE, 'kind: ConfigMap\ndata:\n  PORT: 8080\n');
+
+      await runImport({ command: 'import', keys: ['kind', 'data__PORT'] }, false, MANIFEST_FILE);
+
+      const secrets = await secretsByKey();
+      assert.strictEqual(secrets.get('kind'), 'ConfigMap');
+      assert.strictEqual(secrets.get('data__PORT'), '8080');
+    });
+
+    test('flattens nested JSON with the configured separator', async () => {
+      await writeWorkspaceFile(JSON_FILE, '{"Database": {"Host": "db", "Port": 5432}, "Hosts": ["a", "b"]}');
+      const config = vscode.workspace.getConfiguration('bitwardenSecretsExplorer.import');
+      await config.update('flattenSeparator', '_', vscode.ConfigurationTarget.Global);
+
+      try {
+        await runImport({ command: 'import', keys: ['Database_Host', 'Database_Port', 'Hosts_1'] }, false, JSON_FILE);
+      } finally {
+        await config.update('flattenSeparator', undefined, vscode.ConfigurationTarget.Global);
+      }
+
+      const secrets = await secretsByKey();
+      assert.strictEqual(secrets.get('Database_Host'), 'db');
+      assert.strictEqual(secrets.get('Database_Port'), '5432');
+      assert.strictEqual(secrets.get('Hosts_1'), 'b');
+    });
+
+    test('finds files in subfolders of the workspace', async () => {
+      await writeWorkspaceFile(NESTED_ENV_FILE, 'NESTED=yes\n');
+
+      await runImport({ command: 'import', keys: ['NESTED'] }, false, NESTED_ENV_FILE);
+
+      assert.strictEqual((await secretsByKey()).get('NESTED'), 'yes');
+    });
+
+    test('groups files by folder and skips folders ignored by .gitignore', async () => {
+      await writeWorkspaceFile(ENV_FILE, 'A=1\n');
+      await writeWorkspaceFile(NESTED_ENV_FILE, 'B=2\n');
+      await writeWorkspaceFile('packages/app/dist/.env.test', 'C=3\n');
+      await writeWorkspaceFile('.gitignore', 'dist/\n.env*\n');
+      const picks = stubs.queue(vscode.window, 'showQuickPick', []);
+
+      try {
+        await importSecretsFromEnvCommand(context, provider, project);
+      } finally {
+        await deleteWorkspaceFile('.gitignore');
+      }
+
+      const items: (vscode.QuickPickItem & { uri?: vscode.Uri })[] = await picks.calls[0][0];
+      const files = items.filter(item => item.uri).map(item => vscode.workspace.asRelativePath(item.uri!));
+      const separators = items.filter(item => item.kind === vscode.QuickPickItemKind.Separator).map(item => item.label);
+      assert.ok(files.includes(ENV_FILE));
+      assert.ok(files.includes(NESTED_ENV_FILE));
+      assert.ok(!files.includes('packages/app/dist/.env.test'));
+      assert.ok(separators.includes('packages/app'));
+    });
+
+    test('applies the configured include and exclude globs', async () => {
+      await writeWorkspaceFile(ENV_FILE, 'A=1\n');
+      await writeWorkspaceFile(NESTED_ENV_FILE, 'B=2\n');
+      await writeWorkspaceFile('packages/lib/.env.test', 'C=3\n');
+      const config = vscode.workspace.getConfiguration('bitwardenSecretsExplorer.discovery');
+      await config.update('include', ['packages/*/.env*'], vscode.ConfigurationTarget.Global);
+      await config.update('exclude', ['packages/lib/**'], vscode.ConfigurationTarget.Global);
+      const picks = stubs.queue(vscode.window, 'showQuickPick', []);
+
+      try {
+        await importSecretsFromEnvCommand(context, provider, project);
+      } finally {
+        await config.update('include', undefined, vscode.ConfigurationTarget.Global);
+        await config.update('exclude', undefined, vscode.ConfigurationTarget.Global);
+      }
+
+      const items: (vscode.QuickPickItem & { uri?: vscode.Uri })[] = await picks.calls[0][0];
+      const files = items.filter(item => item.uri).map(item => vscode.workspace.asRelativePath(item.uri!));
+      assert.deepStrictEqual(files, [NESTED_ENV_FILE]);
+    });
+
+    test('a dry run never changes anything', async () => {
+      await writeWorkspaceFile(ENV_FILE, 'API_KEY=from-file\nPORT=8080\n');
+      backend.resetCalls();
+
+      const panel = await runImport({ command: 'import', keys: ['API_KEY', 'PORT'] }, true);
+
+      assert.match(panel.webview.html, /no changes will be made/);
+      assert.doesNotMatch(panel.webview.html, /id="importBtn"/);
+      assert.ok(!backend.getCalls().includes('createSecret'));
+      assert.ok(!backend.getCalls().includes('updateSecret'));
+    });
+  });
+
+  suite('export', () => {
+    test('writes project secrets to an existing file without conflicts', async () => {
+      await writeWorkspaceFile(ENV_FILE, 'PORT=8080\n');
+      stubs.queue(vscode.window, 'showQuickPick', [pickLabel(DOTENV), pickFile(ENV_FILE)]);
+
+      await exportProjectSecretsCommand(provider, project);
+
+      const content = await readWorkspaceFile(ENV_FILE);
+      assert.match(content, /^PORT=8080$/m);
+      assert.match(content, /^API_KEY=/m);
+      assert.match(content, /^DATABASE_URL=/m);
+    });
+
+    test('leaves out and reports keys that are not valid .env keys', async () => {
+      const fixtures = defaultFixtures();
+      fixtures.secrets!.push(
+        { id: 'secret-space', key: 'my key', value: 'v', note: '', projectId: PROJECT_API_ID },
+        { id: 'secret-equals', key: 'B=C', value: 'x', note: '', projectId: PROJECT_API_ID }
+      );
+      backend.seed(fixtures);
+      await writeWorkspaceFile(ENV_FILE, 'PORT=8080\n');
+      stubs.queue(vscode.window, 'showQuickPick', [pickLabel(DOTENV), pickFile(ENV_FILE)]);
+      const warnings = stubs.queue(vscode.window, 'showWarningMessage', []);
+
+      await exportProjectSecretsCommand(provider, project);
+
+      assert.deepStrictEqual(parseEnvFile(await readWorkspaceFile(ENV_FILE)), {
+        PORT: '8080',
+        API_KEY: 'abc123',
+        DATABASE_URL: 'postgres://localhost/app'
+      });
+      assert.strictEqual(warnings.calls.length, 1);
+      assert.match(warnings.calls[0][0], /"B=C", "my key"/);
+    });
+
+    test('keeps comments and layout of the existing file', async () => {
+      await writeWorkspaceFile(ENV_FILE, '# Local settings\nAPI_KEY=local # from vault\n\nPORT=8080\n');
+      stubs.queue(vscode.window, 'showQuickPick', [pickLabel(DOTENV), pickFile(ENV_FILE), pickLabel('Overwrite all conflicts')]);
+
+      await exportProjectSecretsCommand(provider, project);
+
+      const content = await readWorkspaceFile(ENV_FILE);
+      assert.ok(content.startsWith('# Local settings\nAPI_KEY=abc123 # from vault\n\nPORT=8080\n'));
+      assert.match(content, /# Added by Bitwarden Secrets Explorer\nDATABASE_URL=postgres:\/\/localhost\/app\n$/);
+    });
+
+    test('overwrites all conflicting keys when asked to', async () => {
+      await writeWorkspaceFile(ENV_FILE, 'API_KEY=local\n');
+      stubs.queue(vscode.window, 'showQuickPick', [pickLabel(DOTENV), pickFile(ENV_FILE), pickLabel('Overwrite all conflicts')]);
+
+      await exportProjectSecretsCommand(provider, project);
+
+      const content = await readWorkspaceFile(ENV_FILE);
+      assert.doesNotMatch(content, /local/);
+      assert.match(content, /abc123/);
+    });
+
+    test('keeps conflicting keys when conflicts are skipped', async () => {
+      await writeWorkspaceFile(ENV_FILE, 'API_KEY=local\n');
+      stubs.queue(vscode.window, 'showQuickPick', [pickLabel(DOTENV), pickFile(ENV_FILE), pickLabel('Skip conflicts')]);
+
+      await exportProjectSecretsCommand(provider, project);
+
+      const content = await readWorkspaceFile(ENV_FILE);
+      assert.match(content, /local/);
+      assert.doesNotMatch(content, /abc123/);
+      assert.match(content, /^DATABASE_URL=/m);
+    });
+
+    test('decides per key when choosing for each conflict', async () => {
+      await writeWorkspaceFile(ENV_FILE, 'API_KEY=local\nDATABASE_URL=sqlite://local\n');
+      stubs.queue(vscode.window, 'showQuickPick', [
+        pickLabel(DOTENV),
+        pickFile(ENV_FILE),
+        pickLabel('Choose for each conflict'),
+        pickLabel('Overwrite'),
+        pickLabel('Keep existing')
+      ]);
+
+      await exportProjectSecretsCommand(provider, project);
+
+      const content = await readWorkspaceFile(ENV_FILE);
+      assert.match(content, /abc123/);
+      assert.match(content, /sqlite:\/\/local/);
+    });
+
+    test('updates .env files in subfolders', async () => {
+      await writeWorkspaceFile(NESTED_ENV_FILE, 'PORT=8080\n');
+      stubs.queue(vscode.window, 'showQuickPick', [pickLabel(DOTENV), pickFile(NESTED_ENV_FILE)]);
+
+      await exportProjectSecretsCommand(provider, project);
+
+      assert.match(await readWorkspaceFile(NESTED_ENV_FILE), /^API_KEY=abc123$/m);
+    });
+
+    test('creates a new .env file in any folder', async () => {
+      const folder = vscode.Uri.joinPath(getWorkspaceFolder().uri, 'packages', 'app');
+      stubs.queue(vscode.window, 'showQuickPick', [pickLabel(DOTENV), pickLabel(/Create new \.env file/), pickLabel(/Browse/)]);
+      stubs.queue(vscode.window, 'showOpenDialog', [async () => [folder]]);
+      stubs.queue(vscode.window, 'showInputBox', [async () => '.env.test']);
+
+      await exportProjectSecretsCommand(provider, project);
+
+      assert.match(await readWorkspaceFile(NESTED_ENV_FILE), /^DATABASE_URL=postgres:\/\/localhost\/app$/m);
+    });
+
+    test('writes other formats to the file chosen in the save dialog', async () => {
+      stubs.queue(vscode.window, 'showQuickPick', [pickLabel('JSON')]);
+      const dialog = stubs.queue(vscode.window, 'showSaveDialog', [
+        async () => vscode.Uri.joinPath(getWorkspaceFolder().uri, EXPORT_FILE)
+      ]);
+
+      await exportProjectSecretsCommand(provider, project);
+
+      assert.match(dialog.calls[0][0].defaultUri.path, /\/secrets\.json$/);
+      assert.deepStrictEqual(JSON.parse(await readWorkspaceFile(EXPORT_FILE)), {
+        DATABASE_URL: 'postgres://localhost/app',
+        API_KEY: 'abc123'
+      });
+    });
+
+    test('asks for Kubernetes Secret options before writing the manifest', async () => {
+      stubs.queue(vscode.window, 'showQuickPick', [pickLabel('Kubernetes Secret'), pickLabel('stringData'), pickLabel('Lowercase with dashes')]);
+      const inputs = stubs.queue(vscode.window, 'showInputBox', [async () => 'api-secrets', async () => 'prod']);
+      stubs.queue(vscode.window, 'showSaveDialog', [
+        async () => vscode.Uri.joinPath(getWorkspaceFolder().uri, MANIFEST_FILE)
+      ]);
+
+      await exportProjectSecretsCommand(provider, project);
+
+      assert.strictEqual(inputs.calls[0][0].value, 'api');
+      const manifest = await readWorkspaceFile(MANIFEST_FILE);
+      assert.match(manifest, /^ {2}name: "api-secrets"\n {2}namespace: "prod"$/m);
+      assert.match(manifest, /^ {2}database-url: "postgres:\/\/localhost\/app"$/m);
+    });
+
+    test('writes nothing when the save dialog is cancelled', async () => {
+      stubs.queue(vscode.window, 'showQuickPick', [pickLabel('YAML')]);
+      stubs.queue(vscode.window, 'showSaveDialog', []);
+
+      await exportProjectSecretsCommand(provider, project);
+
+      await assert.rejects(readWorkspaceFile(EXPORT_FILE));
+    });
+  });
+
+  suite('copy', () => {
+    test('copies secrets in the chosen format', async () => {
+      stubs.queue(vscode.window, 'showQuickPick', [pickLabel('Shell script (export)')]);
+
+      await copyProjectSecretsCommand(provider, project);
+
+      const copied = await vscode.env.clipboard.readText();
+      assert.match(copied, /^export API_KEY='abc123'$/m);
+      assert.match(copied, /^export DATABASE_URL='postgres:\/\/localhost\/app'$/m);
+      assert.match(messages.info[0], /2 secrets copied to clipboard as Shell script/);
+    });
+
+    test('copies nothing when no format is chosen', async () => {
+      await vscode.env.clipboard.writeText('unchanged');
+      stubs.queue(vscode.window, 'showQuickPick', []);
+
+      await copyProjectSecretsCommand(provider, project);
+
+      assert.strictEqual(await vscode.env.clipboard.readText(), 'unchanged');
+    });
+  });
+});
@@ -0,0 +1,131 @@
+import * as assert from 'assert';
+import { ExporterRegistry, exporterRegistry, SecretExporter } from '../formats';
+import { parseDotenv } from '../utils/envFile';
+
+function exporter(id: string): SecretExporter {
+  const found = exporterRegistry.get(id);
+  assert.ok(found, `exporter ${id} is registered`);
+  return found;
+}
+
+const TRICKY = {
+  PLAIN: 'value',
+  QUOTES: `it's "quoted"`,
+  MULTILINE: 'line one\nline two',
+  SPACES: '  padded  ',
+  DOLLAR: '$HOME and `cmd`'
+};
+
+suite('ExporterRegistry', () => {
+  test('lists the built-in formats in order', () => {
+    assert.deepStrictEqual(exporterRegistry.list().map(e => e.id), ['dotenv', 'json', 'yaml', 'shell', 'docker', 'kubernetes']);
+  });
+
+  test('rejects duplicate ids', () => {
+    const registry = new ExporterRegistry();
+    registry.register(exporter('json'));
+
+    assert.throws(() => registry.register(exporter('json')), /already registered/);
+  });
+});
+
+suite('exporters', () => {
+  test('dotenv output parses back to the same values', () => {
+    const result = exporter('dotenv').export(TRICKY);
+
+    assert.deepStrictEqual(parseDotenv(result.content).values, TRICKY);
+    assert.deepStrictEqual(result.skipped, []);
+  });
+
+  test('dotenv skips keys that are not valid .env keys', () => {
+    const result = exporter('dotenv').export({ 'my key': 'v', 'B=C': 'x', A: '1' });
+
+    assert.strictEqual(result.content, 'A=1\n');
+    assert.deepStrictEqual(result.skipped.map(entry => entry.key), ['my key', 'B=C']);
+  });
+
+  test('json output parses back to the same values', () => {
+    const result = exporter('json').export(TRICKY);
+
+    assert.deepStrictEqual(JSON.parse(result.content), TRICKY);
+  });
+
+  test('yaml quotes every value and keys that would not stay strings', () => {
+    const result = exporter('yaml').export({ PORT: '8080', 'true': 'yes', 'my key': 'a\nb', 'a.b-c': '' });
+
+    assert.strictEqual(result.content, 'PORT: "8080"\n"true": "yes"\n"my key": "a\\nb"\na.b-c: ""\n');
+  });
+
+  test('yaml writes an empty mapping when there is nothing to export', () => {
+    assert.strictEqual(exporter('yaml').export({}).content, '{}\n');
+  });
+
+  test('shell single-quotes values and escapes embedded single quotes', () => {
+    const result = exporter('shell').export({ QUOTES: TRICKY.QUOTES, DOLLAR: TRICKY.DOLLAR, MULTILINE: TRICKY.MULTILINE });
+
+    assert.match(result.content, /^export QUOTES='it'\\''s "quoted"'$/m);
+    assert.match(result.content, /^export DOLLAR='\$HOME and `cmd`'$/m);
+    assert.match(result.content, /^export MULTILINE='line one\nline two'$/m);
+  });
+
+  test('shell skips keys that are not variable names', () => {
+    const result = exporter('shell').export({ 'app.name': 'x', OK: 'y' });
+
+    assert.doesNotMatch(result.content, /app\.name/);
+    assert.deepStrictEqual(result.skipped.map(entry => entry.key), ['app.name']);
+  });
+
+  test('docker writes values literally and skips multi-line values', () => {
+    const result = exporter('docker').export(TRICKY);
+
+    assert.match(result.content, /^QUOTES=it's "quoted"$/m);
+    assert.match(result.content, /^SPACES= {2}padded {2}$/m);
+    assert.doesNotMatch(result.content, /MULTILINE/);
+    assert.deepStrictEqual(result.skipped.map(entry => entry.key), ['MULTILINE']);
+  });
+});
+
+suite('Kubernetes Secret exporter', () => {
+  const kubernetes = () => exporter('kubernetes');
+
+  test('writes base64 data with name and namespace', () => {
+    const result = kubernetes().export({ API_KEY: 'abc123' }, { name: 'api', namespace: 'prod', encoding: 'data', keyNames: 'keep' });
+
+    assert.strictEqual(result.content, [
+      'apiVersion: v1',
+      'kind: Secret',
+      'metadata:',
+      '  name: "api"',
+      '  namespace: "prod"',
+      'type: Opaque',
+      'data:',
+      '  API_KEY: "YWJjMTIz"',
+      ''
+    ].join('\n'));
+  });
+
+  test('writes stringData and omits an empty namespace', () => {
+    const result = kubernetes().export({ CERT: 'a\nb' }, { name: 'api', namespace: '', encoding: 'stringData', keyNames: 'keep' });
+
+    assert.doesNotMatch(result.content, /namespace/);
+    assert.match(result.content, /^stringData:\n {2}CERT: "a\\nb"$/m);
+  });
+
+  test('maps keys to lowercase-dash and skips keys that collide or are invalid', () => {
+    const result = kubernetes().export(
+      { DATABASE_URL: 'x', 'database-url': 'y', 'NOT VALID': 'z' },
+      { name: 'api', encoding: 'stringData', keyNames: 'lowercase-dash' }
+    );
+
+    assert.match(result.content, /^ {2}database-url: "x"$/m);
+    assert.deepStrictEqual(result.skipped.map(entry => entry.key), ['database-url', 'NOT VALID']);
+  });
+
+  test('suggests a valid resource name from the project name', () => {
+    const name = kubernetes().options!.find(option => option.id === 'name')!;
+
+    assert.strictEqual(name.defaultValue!({ projectName: 'My API / Prod' }), 'my-api-prod');
+    assert.strictEqual(name.validate!('my-api-prod'), undefined);
+    assert.ok(name.validate!('My_API'));
+  });
+});
@@ -0,0 +1,221 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { ExtensionApi } from '../core';
+import { BitwardenFileSystemProvider } from '../fileSystemProvider';
+import { InMemorySecretsBackend } from '../services/InMemorySecretsBackend';
+import {
+  ACCESS_TOKEN,
+  activateWithFakeBackend,
+  defaultFixtures,
+  ORGANIZATION_ID,
+  PROJECT_API_ID,
+  PROJECT_WEB_ID,
+  setCredentials,
+  Stubs
+} from './helpers';
+
+function bitwardenUri(path: string): vscode.Uri {
+  return vscode.Uri.from({ scheme: 'bitwarden', path });
+}
+
+async function read(path: string): Promise<string> {
+  return Buffer.from(await vscode.workspace.fs.readFile(bitwardenUri(path))).toString('utf8');
+}
+
+async function write(path: string, content: string): Promise<void> {
+  await vscode.workspace.fs.writeFile(bitwardenUri(path), Buffer.from(content, 'utf8'));
+}
+
+suite('bitwarden: file system', () => {
+  let api: ExtensionApi;
+  let backend: InMemorySecretsBackend;
+
+  suiteSetup(async () => {
+    ({ api, backend } = await activateWithFakeBackend());
+  });
+
+  setup(async () => {
+    backend.seed(defaultFixtures());
+    await setCredentials(api, ACCESS_TOKEN, ORGANIZATION_ID);
+  });
+
+  test('lists projects and secrets', async () => {
+    const root = await vscode.workspace.fs.readDirectory(bitwardenUri('/'));
+    assert.deepStrictEqual(root.map(([name]) => name).sort(), ['api', 'web']);
+    assert.ok(root.every(([, type]) => type === vscode.FileType.Directory));
+
+    const project = await vscode.workspace.fs.readDirectory(bitwardenUri('/api'));
+    assert.deepStrictEqual(project.map(([name]) => name).sort(), ['API_KEY', 'DATABASE_URL']);
+    assert.ok(project.every(([, type]) => type === vscode.FileType.File));
+  });
+
+  test('reads the value and the JSON document of a secret', async () => {
+    assert.strictEqual(await read('/api/API_KEY'), 'abc123');
+
+    const document = JSON.parse(await read('/api/API_KEY.json'));
+    assert.strictEqual(document.key, 'API_KEY');
+    assert.strictEqual(document.value, 'abc123');
+    assert.strictEqual(document.note, 'Rotated monthly');
+    assert.strictEqual(document.projectId, PROJECT_API_ID);
+  });
+
+  test('saving a value file updates the secret value', async () => {
+    await write('/api/API_KEY', 'rotated');
+
+    const [secret] = (await backend.listSecrets(PROJECT_API_ID)).filter(s => s.key === 'API_KEY');
+    assert.strictEqual(secret.value, 'rotated');
+    assert.strictEqual(secret.note, 'Rotated monthly');
+    assert.ok(backend.getCalls().includes('updateSecret'));
+  });
+
+  test('saving a JSON document can rename and move a secret', async () => {
+    const document = JSON.parse(await read('/api/API_KEY.json'));
+    document.key = 'WEB_API_KEY';
+    document.projectId = PROJECT_WEB_ID;
+    await write('/api/API_KEY.json', JSON.stringify(document));
+
+    assert.strictEqual(await read('/web/WEB_API_KEY'), 'abc123');
+  });
+
+  test('validation errors fail the save', async () => {
+    const document = JSON.parse(await read('/api/API_KEY.json'));
+    document.key = '';
+
+    await assert.rejects(write('/api/API_KEY.json', JSON.stringify(document)), /Secret key cannot be empty/);
+    await assert.rejects(write('/api/API_KEY.json', '{ not json'), /Invalid secret document/);
+    assert.strictEqual(await read('/api/API_KEY'), 'abc123');
+  });
+
+  test('creating a file in a project creates a secret', async () => {
+    await write('/web/SENTRY_DSN', 'https://sentry.example');
+
+    const secrets = await backend.listSecrets(PROJECT_WEB_ID);
+    assert.deepStrictEqual(secrets.map(secret => [secret.key, secret.value]), [['SENTRY_DSN', 'https://sentry.example']]);
+  });
+
+  test('secrets whose key contains a slash are addressed by ID', async () => {
+    const secret = await backend.createSecret({ key: 'db/password', value: 'hunter2!', note: '', projectId: PROJECT_WEB_ID });
+    const [project] = (await backend.listProjects()).filter(p => p.id === PROJECT_WEB_ID);
+
+    const uri = BitwardenFileSystemProvider.uriFor(project, secret);
+    assert.strictEqual(uri.path, `/web/${secret.id}`);
+    assert.strictEqual(Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8'), 'hunter2!');
+    assert.strictEqual(JSON.parse(await read(`/web/${secret.id}.json`)).key, 'db/password');
+
+    const entries = await vscode.workspace.fs.readDirectory(bitwardenUri('/web'));
+    assert.deepStrictEqual(entries.map(([name]) => name), ['.env', secret.id]);
+  });
+
+  test('unknown paths are reported as missing', async () => {
+    await assert.rejects(read('/missing/API_KEY'), (error: vscode.FileSystemError) => error.code === 'FileNotFound');
+    await assert.rejects(read('/api/MISSING'), (error: vscode.FileSystemError) => error.code === 'FileNotFound');
+  });
+
+  suite('.env document', () => {
+    let stubs: Stubs;
+
+    setup(() => {
+      stubs = new Stubs();
+    });
+
+    teardown(() => {
+      stubs.restoreAll();
+    });
+
+    test('is listed in every project and holds all secrets', async () => {
+      const entries = await vscode.workspace.fs.readDirectory(bitwardenUri('/web'));
+      assert.deepStrictEqual(entries.map(([name]) => name), ['.env']);
+
+      const content = await read('/api/.env');
+      assert.match(content, /^API_KEY=abc123$/m);
+      assert.match(content, /^DATABASE_URL=postgres:\/\/localhost\/app$/m);
+    });
+
+    test('saving applies creates, updates and deletes after confirmation', async () => {
+      const prompt = stubs.queue(vscode.window, 'showWarningMessage', [() => 'Apply Changes']);
+
+      await write('/api/.env', 'API_KEY=rotated\nPORT=8080\n');
+
+      const secrets = await backend.listSecrets(PROJECT_API_ID);
+      assert.deepStrictEqual(
+        secrets.map(secret => [secret.key, secret.value]).sort(),
+        [['API_KEY', 'rotated'], ['PORT', '8080']]
+      );
+      assert.strictEqual(prompt.calls.length, 1);
+      const detail: string = prompt.calls[0][1].detail;
+      assert.match(detail, /\+ PORT/);
+      assert.match(detail, /~ API_KEY/);
+      assert.match(detail, /- DATABASE_URL/);
+      assert.doesNotMatch(detail, /rotated|8080/);
+    });
+
+    test('declining the preview changes nothing and fails the save', async () => {
+      stubs.queue(vscode.window, 'showWarningMessage', [() => undefined]);
+      backend.resetCalls();
+
+      await assert.rejects(write('/api/.env', 'PORT=8080\n'), /Save cancelled/);
+
+      const calls = backend.getCalls();
+      assert.ok(!calls.includes('createSecret'));
+      assert.ok(!calls.includes('deleteSecret'));
+    });
+
+    test('saving an unchanged document does not prompt', async () => {
+      const prompt = stubs.queue(vscode.window, 'showWarningMessage', []);
+
+      await write('/api/.env', await read('/api/.env'));
+
+      assert.strictEqual(prompt.calls.length, 0);
+    });
+
+    test('multi-line values round-trip through the document', async () => {
+      await backend.createSecret({ key: 'CERT', value: 'line1\nline2', note: '', projectId: PROJECT_API_ID });
+      stubs.queue(vscode.window, 'showWarningMessage', [() => 'Apply Changes']);
+
+      const content = await read('/api/.env');
+      assert.match(content, /^CERT="line1\\nline2"$/m);
+      await write('/api/.env', content.replace(/^API_KEY=.*$/m, 'API_KEY=rotated'));
+
+      const cert = (await backend.listSecrets(PROJECT_API_ID)).find(secret => secret.key === 'CERT');
+      assert.strictEqual(cert?.value, 'line1\nline2');
+    });
+
+    test('saving another line keeps the values of secrets sharing a key', async () => {
+      await backend.createSecret({ key: 'API_KEY', value: 'web-key', note: '', projectId: PROJECT_API_ID });
+      stubs.queue(vscode.window, 'showWarningMessage', [() => 'Apply Changes']);
+
+      const content = await read('/api/.env');
+      await write('/api/.env', content.replace(/^DATABASE_URL=.*$/m, 'DATABASE_URL=postgres://db/app'));
+
+      const apiKeys = (await backend.listSecrets(PROJECT_API_ID)).filter(secret => secret.key === 'API_KEY');
+      assert.deepStrictEqual(apiKeys.map(secret => secret.value).sort(), ['abc123', 'web-key']);
+    });
+
+    test('secrets with keys a .env file cannot hold are listed but kept', async () => {
+      await backend.createSecret({ key: 'db:password', value: 'hunter2', note: '', projectId: PROJECT_API_ID });
+      stubs.queue(vscode.window, 'showWarningMessage', [() => 'Apply Changes']);
+
+      const content = await read('/api/.env');
+      assert.match(content, /^# Not shown, as they are not valid \.env keys: "db:password"$/m);
+      await write('/api/.env', content.replace(/^API_KEY=.*$/m, 'API_KEY=rotated'));
+
+      const keys = (await backend.listSecrets(PROJECT_API_ID)).map(secret => secret.key).sort();
+      assert.deepStrictEqual(keys, ['API_KEY', 'DATABASE_URL', 'db:password']);
+    });
+
+    test('malformed lines fail the save without prompting', async () => {
+      const prompt = stubs.queue(vscode.window, 'showWarningMessage', []);
+
+      await assert.rejects(write('/api/.env', 'API_KEY=abc123\nDATABASE_URL\n'), /line 2/);
+
+      assert.strictEqual(prompt.calls.length, 0);
+      assert.strictEqual((await backend.listSecrets(PROJECT_API_ID)).length, 2);
+    });
+  });
+
+  test('requires an access token', async () => {
+    await setCredentials(api, undefined, ORGANIZATION_ID);
+
+    await assert.rejects(read('/api/API_KEY'), /Access Token not set/);
+  });
+});
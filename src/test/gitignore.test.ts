@@ -0,0 +1,39 @@
+import * as assert from 'assert';
+import { GitignoreMatcher } from '../utils/gitignore';
+
+suite('GitignoreMatcher', () => {
+  test('matches unanchored names at any depth', () => {
+    const matcher = new GitignoreMatcher('# build output\nnode_modules\n*.log\n');
+
+    assert.strictEqual(matcher.ignores('node_modules', true), true);
+    assert.strictEqual(matcher.ignores('packages/app/node_modules', true), true);
+    assert.strictEqual(matcher.ignores('logs/debug.log', false), true);
+    assert.strictEqual(matcher.ignores('src', true), undefined);
+  });
+
+  test('anchors patterns that contain a slash', () => {
+    const matcher = new GitignoreMatcher('/build\npackages/*/tmp\n');
+
+    assert.strictEqual(matcher.ignores('build', true), true);
+    assert.strictEqual(matcher.ignores('app/build', true), undefined);
+    assert.strictEqual(matcher.ignores('packages/app/tmp', true), true);
+    assert.strictEqual(matcher.ignores('packages/app/nested/tmp', true), undefined);
+  });
+
+  test('applies directory-only patterns to directories', () => {
+    const matcher = new GitignoreMatcher('dist/\n');
+
+    assert.strictEqual(matcher.ignores('dist', true), true);
+    assert.strictEqual(matcher.ignores('dist', false), undefined);
+  });
+
+  test('supports ** and negation, with the last match winning', () => {
+    const matcher = new GitignoreMatcher('**/generated/**\n!keep/generated/**\ncache?\n[Tt]emp\n');
+
+    assert.strictEqual(matcher.ignores('a/generated/b', true), true);
+    assert.strictEqual(matcher.ignores('keep/generated/b', true), false);
+    assert.strictEqual(matcher.ignores('cache1', true), true);
+    assert.strictEqual(matcher.ignores('Temp', true), true);
+    assert.strictEqual(matcher.ignores('temp', true), true);
+  });
+});
@@ -0,0 +1,254 @@
+import * as vscode from 'vscode';
+import { ExtensionApi } from '../core';
+import { InMemoryFixtures, InMemorySecretsBackend } from '../services/InMemorySecretsBackend';
+import { BitwardenSecretsProvider } from '../ui/treeProvider';
+
+export const EXTENSION_ID = 'DesignGears.bitwarden-secrets-explorer';
+export const ORGANIZATION_ID = '00000000-0000-4000-8000-000000000000';
+export const ACCESS_TOKEN = '0.test-access-token';
+export const PROJECT_API_ID = '11111111-1111-4111-8111-111111111111';
+export const PROJECT_WEB_ID = '22222222-2222-4222-8222-222222222222';
+
+/**
+ * Default fixtures: two projects, one of them with secrets
+ */
+export function defaultFixtures(): InMemoryFixtures {
+  return {
+    organizationId: ORGANIZATION_ID,
+    accessTokens: [ACCESS_TOKEN],
+    projects: [
+      { id: PROJECT_WEB_ID, name: 'web', organizationId: ORGANIZATION_ID },
+      { id: PROJECT_API_ID, name: 'api', organizationId: ORGANIZATION_ID }
+    ],
+    secrets: [
+      { id: 'secret-db-url', key: 'DATABASE_URL', value: 'postgres://localhost/app', note: '', projectId: PROJECT_API_ID },
+      { id: 'secret-api-key', key: 'API_KEY', value: 'abc123', note: 'Rotated monthly', projectId: PROJECT_API_ID }
+    ]
+  };
+}
+
+/**
+ * Activate the extension and route all profiles to a fresh in-memory backend
+ */
+export async function activateWithFakeBackend(
+  fixtures: InMemoryFixtures = defaultFixtures()
+): Promise<{ api: ExtensionApi; backend: InMemorySecretsBackend }> {
+  const extension = vscode.extensions.getExtension<ExtensionApi>(EXTENSION_ID);
+  if (!extension) {
+    throw new Error(`Extension ${EXTENSION_ID} not found`);
+  }
+
+  const api = await extension.activate();
+  if (!api) {
+    throw new Error(`Extension ${EXTENSION_ID} did not return its API; is it running in test mode?`);
+  }
+  const backend = new InMemorySecretsBackend(undefined, fixtures);
+  api.useSecretsBackend(() => backend);
+  return { api, backend };
+}
+
+/**
+ * Store credentials for the active profile, or remove them when undefined.
+ * The backend is signed out so the next tree load authenticates again.
+ */
+export async function setCredentials(
+  api: ExtensionApi,
+  accessToken: string | undefined,
+  organizationId: string | undefined
+): Promise<void> {
+  const profiles = api.appState.profileService;
+  if (accessToken) {
+    await profiles.setAccessToken(accessToken);
+  } else {
+    await profiles.deleteAccessToken();
+  }
+  if (organizationId) {
+    await profiles.setOrganizationId(organizationId);
+  } else {
+    await profiles.deleteOrganizationId();
+  }
+  profiles.resetBackends();
+  const backend = profiles.getBackend();
+  if (backend instanceof InMemorySecretsBackend) {
+    backend.signOut();
+  }
+}
+
+/**
+ * Make sure the tree view and its provider exist, as they would once the
+ * welcome view found data
+ */
+export async function ensureProvider(api: ExtensionApi): Promise<BitwardenSecretsProvider> {
+  await api.appState.setHasData(true);
+  const provider = api.appState.bitwardenSecretsProvider;
+  if (!provider) {
+    throw new Error('Tree provider was not created');
+  }
+  return provider;
+}
+
+/**
+ * A minimal extension context for calling editors and commands directly
+ */
+export function createTestContext(): vscode.ExtensionContext {
+  const extension = vscode.extensions.getExtension(EXTENSION_ID)!;
+  return { extensionPath: extension.extensionPath, subscriptions: [] } as unknown as vscode.ExtensionContext;
+}
+
+/**
+ * Poll until the condition holds
+ */
+export async function waitFor(condition: () => boolean, timeoutMs = 5000): Promise<void> {
+  const start = Date.now();
+  while (!condition()) {
+    if (Date.now() - start > timeoutMs) {
+      throw new Error('Timed out waiting for condition');
+    }
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+}
+
+type AnyFunction = (...args: any[]) => any;
+
+/**
+ * Minimal method stubbing with restore, so UI prompts can be answered in tests
+ */
+export class Stubs {
+  private restores: (() => void)[] = [];
+
+  stub<T extends object, K extends keyof T>(target: T, method: K, replacement: T[K] & AnyFunction): void {
+    const original = target[method];
+    (target as any)[method] = replacement;
+    this.restores.push(() => {
+      (target as any)[method] = original;
+    });
+  }
+
+  /**
+   * Answer successive calls with the given responses; further calls get undefined
+   */
+  queue<T extends object, K extends keyof T>(target: T, method: K, responses: ((args: any[]) => any)[]): { calls: any[][] } {
+    const record = { calls: [] as any[][] };
+    this.stub(target, method, (async (...args: any[]) => {
+      record.calls.push(args);
+      const next = responses.shift();
+      return next ? next(args) : undefined;
+    }) as any);
+    return record;
+  }
+
+  restoreAll(): void {
+    while (this.restores.length > 0) {
+      this.restores.pop()!();
+    }
+  }
+}
+
+/**
+ * Silence information/warning/error notifications and record their messages
+ */
+export function captureMessages(stubs: Stubs): { info: string[]; warning: string[]; error: string[] } {
+  const messages = { info: [] as string[], warning: [] as string[], error: [] as string[] };
+  stubs.stub(vscode.window, 'showInformationMessage', (async (message: string) => {
+    messages.info.push(message);
+    return undefined;
+  }) as any);
+  stubs.stub(vscode.window, 'showErrorMessage', (async (message: string) => {
+    messages.error.push(message);
+    return undefined;
+  }) as any);
+  return messages;
+}
+
+/**
+ * Pick the quick pick item whose label matches
+ */
+export function pickLabel(label: string | RegExp): (args: any[]) => Promise<any> {
+  return async ([items]: any[]) => {
+    const resolved: vscode.QuickPickItem[] = await items;
+    return resolved.find(item => typeof label === 'string' ? item.label === label : label.test(item.label));
+  };
+}
+
+/**
+ * Pick the quick pick item for a workspace file, given its path relative to the workspace folder
+ */
+export function pickFile(relativePath: string): (args: any[]) => Promise<any> {
+  return async ([items]: any[]) => {
+    const resolved: (vscode.QuickPickItem & { uri?: vscode.Uri })[] = await items;
+    return resolved.find(item => item.uri && vscode.workspace.asRelativePath(item.uri) === relativePath);
+  };
+}
+
+export function getWorkspaceFolder(): vscode.WorkspaceFolder {
+  const folder = vscode.workspace.workspaceFolders?.[0];
+  if (!folder) {
+    throw new Error('Tests must run with a workspace folder');
+  }
+  return folder;
+}
+
+export async function writeWorkspaceFile(name: string, content: string): Promise<vscode.Uri> {
+  const uri = vscode.Uri.joinPath(getWorkspaceFolder().uri, name);
+  await vscode.workspace.fs.writeFile(uri, Buffer.from(content, 'utf8'));
+  return uri;
+}
+
+export async function readWorkspaceFile(name: string): Promise<string> {
+  const uri = vscode.Uri.joinPath(getWorkspaceFolder().uri, name);
+  return Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8');
+}
+
+export async function deleteWorkspaceFile(name: string): Promise<void> {
+  try {
+    await vscode.workspace.fs.delete(vscode.Uri.joinPath(getWorkspaceFolder().uri, name), { recursive: true });
+  } catch {
+    // Already gone
+  }
+}
+
+/**
+ * A fake webview panel that captures the message handler registered by the editors
+ */
+export class FakeWebviewPanel {
+  public title = '';
+  public disposed = false;
+  public posted: any[] = [];
+  public messageHandler?: (message: any) => Promise<void> | void;
+  private disposeListeners: (() => void)[] = [];
+
+  public readonly webview = {
+    html: '',
+    cspSource: 'vscode-resource:',
+    asWebviewUri: (uri: vscode.Uri) => uri,
+    postMessage: async (message: any) => {
+      this.posted.push(message);
+      return true;
+    },
+    onDidReceiveMessage: (handler: (message: any) => any) => {
+      this.messageHandler = handler;
+      return { dispose: () => undefined };
+    }
+  };
+
+  reveal(): void {
+    // Nothing to reveal
+  }
+
+  onDidDispose(listener: () => void): vscode.Disposable {
+    this.disposeListeners.push(listener);
+    return { dispose: () => undefined };
+  }
+
+  dispose(): void {
+    this.disposed = true;
+    this.disposeListeners.forEach(listener => listener());
+  }
+
+  async send(message: any): Promise<void> {
+    if (!this.messageHandler) {
+      throw new Error('Webview message handler not registered');
+    }
+    await this.messageHandler(message);
+  }
+}
@@ -0,0 +1,48 @@
+import * as assert from 'assert';
+import { ImportPreviewService } from '../services/ImportPreviewService';
+import { Secret } from '../types';
+
+function secret(id: string, key: string, value: string): Secret {
+  return { id, key, value, note: '', projectId: 'project' };
+}
+
+suite('ImportPreviewService', () => {
+  const secrets = [
+    secret('1', 'SAME', 'value'),
+    secret('2', 'CHANGED', 'old'),
+    secret('3', 'SHARED', 'a'),
+    secret('4', 'SHARED', 'b')
+  ];
+
+  test('classifies keys as new, changed, unchanged or conflicting', () => {
+    const items = ImportPreviewService.build({ NEW: 'x', SAME: 'value', CHANGED: 'new', SHARED: 'c' }, secrets);
+
+    assert.deepStrictEqual(items.map(item => [item.key, item.status]), [
+      ['NEW', 'new'],
+      ['SAME', 'unchanged'],
+      ['CHANGED', 'changed'],
+      ['SHARED', 'conflict']
+    ]);
+    assert.deepStrictEqual(items.find(item => item.key === 'SHARED')!.existing.map(s => s.id), ['3', '4']);
+  });
+
+  test('selects only new keys by default', () => {
+    const items = ImportPreviewService.build({ NEW: 'x', CHANGED: 'new' }, secrets);
+
+    assert.deepStrictEqual(items.filter(item => item.selected).map(item => item.key), ['NEW']);
+  });
+
+  test('never exposes values', () => {
+    const items = ImportPreviewService.build({ CHANGED: 'new-secret-value' }, secrets);
+
+    assert.strictEqual(items[0].before, '••• (3 chars)');
+    assert.strictEqual(items[0].after, '•••••••• (16 chars)');
+    assert.strictEqual(ImportPreviewService.mask(''), '(empty)');
+  });
+
+  test('summarizes counts per status', () => {
+    const items = ImportPreviewService.build({ NEW: 'x', SAME: 'value', CHANGED: 'new' }, secrets);
+
+    assert.strictEqual(ImportPreviewService.summarize(items), '1 new, 1 changed, 1 unchanged, 0 conflicting');
+  });
+});
@@ -0,0 +1,129 @@
+import * as assert from 'assert';
+import { exporterRegistry, importerRegistry } from '../formats';
+
+suite('importerRegistry', () => {
+  test('picks the importer by file name and content', () => {
+    assert.strictEqual(importerRegistry.find('.env.local', 'A=1')?.id, 'dotenv');
+    assert.strictEqual(importerRegistry.find('secret.yaml', 'apiVersion: v1\nkind: Secret\n')?.id, 'kubernetes');
+    assert.strictEqual(importerRegistry.find('deployment.yaml', 'kind: Deployment\n')?.id, 'yaml');
+    assert.strictEqual(importerRegistry.find('notes.txt', 'A=1'), undefined);
+  });
+});
+
+suite('Kubernetes Secret importer', () => {
+  const kubernetes = () => importerRegistry.get('kubernetes')!;
+
+  test('decodes data and lets stringData win', () => {
+    const result = kubernetes().import([
+      'apiVersion: v1',
+      'kind: Secret',
+      'metadata:',
+      '  name: api',
+      'data:',
+      '  API_KEY: YWJjMTIz',
+      '  PORT: ODA4MA==',
+      'stringData:',
+      '  PORT: "9090"',
+      '  CERT: |',
+      '    line one',
+      '    line two'
+    ].join('\n'));
+
+    assert.deepStrictEqual(result.values, { API_KEY: 'abc123', PORT: '9090', CERT: 'line one\nline two\n' });
+    assert.deepStrictEqual(result.diagnostics, []);
+  });
+
+  test('reads every Secret of a multi-document manifest and skips other kinds', () => {
+    const result = kubernetes().import([
+      'kind: ConfigMap',
+      'data:',
+      '  IGNORED: x',
+      '---',
+      'kind: Secret',
+      'stringData:',
+      '  A: "1"',
+      '---',
+      'kind: List',
+      'items:',
+      '- kind: Secret',
+      '  stringData:',
+      '    B: "2"'
+    ].join('\n'));
+
+    assert.deepStrictEqual(result.values, { A: '1', B: '2' });
+  });
+
+  test('reports invalid base64 and YAML errors', () => {
+    const invalid = kubernetes().import('kind: Secret\ndata:\n  A: not*base64\n  B: Yg==');
+    assert.deepStrictEqual(invalid.values, { B: 'b' });
+    assert.match(invalid.diagnostics[0].message, /data\.A .* not valid base64/);
+
+    const broken = kubernetes().import('kind: Secret\ndata:\n  A: "open');
+    assert.strictEqual(broken.diagnostics[0].line, 3);
+  });
+
+  test('round-trips the exporter output', () => {
+    const values = { DATABASE_URL: 'postgres://localhost/app', CERT: 'multi\nline "quoted"' };
+    for (const encoding of ['data', 'stringData']) {
+      const manifest = exporterRegistry.get('kubernetes')!.export(values, { name: 'api', encoding, keyNames: 'keep' }).content;
+
+      assert.deepStrictEqual(kubernetes().import(manifest).values, values);
+    }
+  });
+});
+
+suite('structured file importers', () => {
+  test('picks appsettings over plain JSON and ignores tool files', () => {
+    assert.strictEqual(importerRegistry.find('appsettings.Development.json', '{}')?.id, 'appsettings');
+    assert.strictEqual(importerRegistry.find('secrets.json', '{}')?.id, 'json');
+    assert.strictEqual(importerRegistry.find('values.yaml', 'a: 1')?.id, 'yaml');
+    assert.strictEqual(importerRegistry.find('package.json', '{}'), undefined);
+    assert.strictEqual(importerRegistry.find('tsconfig.build.json', '{}'), undefined);
+  });
+
+  test('json flattens nested objects and arrays with the separator', () => {
+    const result = importerRegistry.get('json')!.import(
+      '{"API_KEY": "abc", "Database": {"Host": "db", "Port": 5432, "Ssl": true}, "Hosts": ["a", "b"], "Empty": null}',
+      { flattenSeparator: '.' }
+    );
+
+    assert.deepStrictEqual(result.values, {
+      API_KEY: 'abc',
+      'Database.Host': 'db',
+      'Database.Port': '5432',
+      'Database.Ssl': 'true',
+      'Hosts.0': 'a',
+      'Hosts.1': 'b',
+      Empty: ''
+    });
+  });
+
+  test('json reports documents that are not objects or not valid', () => {
+    assert.match(importerRegistry.get('json')!.import('["a"]').diagnostics[0].message, /Expected an object/);
+    assert.match(importerRegistry.get('json')!.import('{"a": }').diagnostics[0].message, /Invalid JSON/);
+  });
+
+  test('appsettings allows comments and trailing commas and always uses __', () => {
+    const result = importerRegistry.get('appsettings')!.import([
+      '{',
+      '  "$schema": "https://json.schemastore.org/appsettings.json",',
+      '  // Connection strings',
+      '  "ConnectionStrings": { "Default": "Server=db;Password=p//w" /* inline */, },',
+      '}'
+    ].join('\n'), { flattenSeparator: '.' });
+
+    assert.deepStrictEqual(result.values, { ConnectionStrings__Default: 'Server=db;Password=p//w' });
+  });
+
+  test('yaml keeps scalars as written and reports the line of syntax errors', () => {
+    const yaml = importerRegistry.get('yaml')!;
+
+    assert.deepStrictEqual(yaml.import('version: 1.10\ndb:\n  port: 0123\n  hosts: [a, b]').values, {
+      version: '1.10',
+      db__port: '0123',
+      db__hosts__0: 'a',
+      db__hosts__1: 'b'
+    });
+    assert.strictEqual(yaml.import('a: 1\nb: "open').diagnostics[0].line, 2);
+  });
+});
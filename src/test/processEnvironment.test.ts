@@ -0,0 +1,26 @@
+import * as assert from 'assert';
+import { sanitizeProcessEnvironment } from '../utils/processEnvironment';
+
+suite('Process environment', () => {
+  test('removes the variables of the extension host', () => {
+    const env = sanitizeProcessEnvironment({
+      PATH: '/usr/bin',
+      HOME: '/home/user',
+      ELECTRON_RUN_AS_NODE: '1',
+      VSCODE_IPC_HOOK: '/tmp/vscode-ipc.sock',
+      VSCODE_PID: '1234',
+      VSCODE_PORTABLE: '/opt/vscode-data',
+      SNAP: '/snap/code/1',
+      SNAP_NAME: 'code',
+      SNAPSHOT_DIR: '/backups',
+      GDK_PIXBUF_MODULE_FILE: '/snap/code/loaders.cache'
+    });
+
+    assert.deepStrictEqual(env, {
+      PATH: '/usr/bin',
+      HOME: '/home/user',
+      VSCODE_PORTABLE: '/opt/vscode-data',
+      SNAPSHOT_DIR: '/backups'
+    });
+  });
+});
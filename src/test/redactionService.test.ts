@@ -0,0 +1,41 @@
+import * as assert from 'assert';
+import { RedactionService } from '../services/RedactionService';
+
+suite('RedactionService', () => {
+  test('redacts every value it has been given', () => {
+    const redaction = new RedactionService();
+    redaction.remember([{ key: 'API_KEY', value: 'abc123' }]);
+    redaction.remember({ DATABASE_URL: 'postgres://localhost/app' });
+
+    assert.strictEqual(
+      redaction.redact('Error: could not use abc123 with postgres://localhost/app'),
+      'Error: could not use ••••(API_KEY) with ••••(DATABASE_URL)'
+    );
+  });
+
+  test('keeps old values of a key and names a shared value after its first key', () => {
+    const redaction = new RedactionService();
+    redaction.remember([{ key: 'TOKEN', value: 'first-token' }, { key: 'COPY', value: 'first-token' }]);
+    redaction.remember([{ key: 'TOKEN', value: 'second-token' }]);
+
+    assert.strictEqual(redaction.redact('first-token second-token'), '••••(TOKEN) ••••(TOKEN)');
+  });
+
+  test('streams see values remembered after they were created', () => {
+    const redaction = new RedactionService();
+    const stream = redaction.createStream();
+    redaction.remember({ API_KEY: 'abc123' });
+
+    const output = stream.push('key=ab') + stream.push('c123\n') + stream.flush();
+
+    assert.strictEqual(output, 'key=••••(API_KEY)\n');
+  });
+
+  test('forgets values when cleared', () => {
+    const redaction = new RedactionService();
+    redaction.remember({ API_KEY: 'abc123' });
+    redaction.clear();
+
+    assert.strictEqual(redaction.redact('abc123'), 'abc123');
+  });
+});
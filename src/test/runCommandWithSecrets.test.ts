@@ -0,0 +1,125 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { runCommandWithSecretsCommand } from '../commands';
+import { ExtensionApi } from '../core';
+import { InMemorySecretsBackend } from '../services/InMemorySecretsBackend';
+import { SecretEnvironmentService } from '../services/SecretEnvironmentService';
+import { SecretCommandTerminal } from '../ui/secretCommandTerminal';
+import {
+  ACCESS_TOKEN,
+  activateWithFakeBackend,
+  captureMessages,
+  createTestContext,
+  defaultFixtures,
+  ORGANIZATION_ID,
+  pickLabel,
+  setCredentials,
+  Stubs
+} from './helpers';
+
+/**
+ * Run the terminal's process to completion and return everything it wrote
+ */
+async function runToExit(terminal: SecretCommandTerminal): Promise<string> {
+  let output = '';
+  terminal.onDidWrite(text => output += text);
+  const exited = new Promise<number>(resolve => terminal.onDidExit(resolve));
+  terminal.open();
+  await exited;
+  return output;
+}
+
+suite('Run command with secrets', () => {
+  let api: ExtensionApi;
+  let backend: InMemorySecretsBackend;
+  let stubs: Stubs;
+  let messages: ReturnType<typeof captureMessages>;
+
+  suiteSetup(async () => {
+    ({ api, backend } = await activateWithFakeBackend());
+  });
+
+  setup(async () => {
+    stubs = new Stubs();
+    messages = captureMessages(stubs);
+    backend.seed(defaultFixtures());
+    await setCredentials(api, ACCESS_TOKEN, ORGANIZATION_ID);
+  });
+
+  teardown(() => {
+    stubs.restoreAll();
+  });
+
+  test('gives the process the secrets and masks them in its output', async () => {
+    const terminal = new SecretCommandTerminal(
+      'node -e "console.log(process.env.API_KEY); console.error(process.env.DATABASE_URL)"',
+      { API_KEY: 'abc123', DATABASE_URL: 'postgres://localhost/app' },
+      undefined
+    );
+
+    const output = await runToExit(terminal);
+
+    assert.ok(output.includes('••••(API_KEY)\r\n'));
+    assert.ok(output.includes('••••(DATABASE_URL)'));
+    assert.ok(!output.includes('abc123') && !output.includes('postgres://'));
+    assert.match(output, /Process exited with code 0/);
+  });
+
+  test('does not pass the variables of the extension host to the process', async () => {
+    const terminal = new SecretCommandTerminal(
+      'node -e "console.log(Object.keys(process.env).filter(key => /^(ELECTRON_|VSCODE_IPC)/.test(key)).length)"',
+      {},
+      undefined
+    );
+
+    const output = await runToExit(terminal);
+
+    assert.match(output, /^0\r$/m);
+  });
+
+  test('reports the exit code and closes on the next key', async () => {
+    const terminal = new SecretCommandTerminal('node -e "process.exit(3)"', {}, undefined);
+    let closedWith: number | void | undefined;
+    terminal.onDidClose(code => closedWith = code);
+
+    const output = await runToExit(terminal);
+    terminal.handleInput('x');
+
+    assert.match(output, /Process exited with code 3/);
+    assert.strictEqual(closedWith, 3);
+  });
+
+  test('asks for the command and projects, then opens a terminal', async () => {
+    const context = createTestContext();
+    const state = new Map<string, unknown>();
+    (context as any).workspaceState = {
+      get: (key: string, defaultValue: unknown) => state.get(key) ?? defaultValue,
+      update: async (key: string, value: unknown) => { state.set(key, value); }
+    };
+    const created: vscode.ExtensionTerminalOptions[] = [];
+    stubs.stub(vscode.window, 'createTerminal', ((options: vscode.ExtensionTerminalOptions) => {
+      created.push(options);
+      return { show: () => undefined };
+    }) as any);
+    stubs.queue(vscode.window, 'showInputBox', [async () => 'npm start']);
+    const projectPick = stubs.queue(vscode.window, 'showQuickPick', [
+      async ([items]: any[]) => (await items).filter((item: vscode.QuickPickItem) => item.label === 'api')
+    ]);
+
+    const profiles = api.appState.profileService;
+    await runCommandWithSecretsCommand(context, profiles, new SecretEnvironmentService(profiles));
+
+    assert.deepStrictEqual(messages.error, []);
+    assert.strictEqual(projectPick.calls[0][1].canPickMany, true);
+    assert.strictEqual(created.length, 1);
+    assert.strictEqual(created[0].name, 'Bitwarden: npm start');
+    assert.ok(created[0].pty instanceof SecretCommandTerminal);
+    assert.deepStrictEqual(state.get('bitwardenSecretsExplorer.commandHistory'), ['npm start']);
+
+    // The next run offers the command again
+    stubs.queue(vscode.window, 'showQuickPick', [pickLabel('npm start'), async () => undefined]);
+    stubs.queue(vscode.window, 'showInputBox', [async ([options]: any[]) => options.value]);
+    await runCommandWithSecretsCommand(context, profiles, new SecretEnvironmentService(profiles));
+    assert.strictEqual(created.length, 1);
+  });
+});
@@ -0,0 +1,158 @@
+import * as assert from 'assert';
+import { SecretCache } from '../services/SecretCache';
+import { Secret } from '../types';
+
+function secret(id: string, key: string, projectId = 'project-a'): Secret {
+  return { id, key, value: `value-of-${key}`, note: '', projectId };
+}
+
+const SYNCED_AT = new Date('2026-01-01T12:00:00Z');
+const TTL_MS = 60_000;
+
+suite('SecretCache', () => {
+  test('is empty and stale until the first sync', () => {
+    const cache = new SecretCache(TTL_MS);
+
+    assert.strictEqual(cache.isPopulated(), false);
+    assert.strictEqual(cache.isFresh(SYNCED_AT.getTime()), false);
+    assert.strictEqual(cache.getLastSyncedDate(), undefined);
+    assert.deepStrictEqual(cache.list(), []);
+  });
+
+  test('stays fresh for the TTL after a sync and expires afterwards', () => {
+    const cache = new SecretCache(TTL_MS);
+
+    cache.replaceAll([secret('1', 'A')], SYNCED_AT);
+
+    assert.strictEqual(cache.isFresh(SYNCED_AT.getTime()), true);
+    assert.strictEqual(cache.isFresh(SYNCED_AT.getTime() + TTL_MS - 1), true);
+    assert.strictEqual(cache.isFresh(SYNCED_AT.getTime() + TTL_MS), false);
+    assert.strictEqual(cache.isPopulated(), true);
+  });
+
+  test('a sync without changes keeps the entries and restarts the TTL', () => {
+    const cache = new SecretCache(TTL_MS);
+    cache.replaceAll([secret('1', 'A')], SYNCED_AT);
+    const nextSync = new Date(SYNCED_AT.getTime() + TTL_MS);
+
+    cache.markSynced(nextSync);
+
+    assert.deepStrictEqual(cache.getLastSyncedDate(), nextSync);
+    assert.strictEqual(cache.isFresh(nextSync.getTime() + TTL_MS - 1), true);
+    assert.deepStrictEqual(cache.list().map(entry => entry.key), ['A']);
+  });
+
+  test('incremental syncs start at the date of the last sync', () => {
+    const cache = new SecretCache(TTL_MS);
+    const changedAt = new Date(SYNCED_AT.getTime() + 5 * TTL_MS);
+
+    cache.replaceAll([secret('1', 'A')], SYNCED_AT);
+    assert.deepStrictEqual(cache.getLastSyncedDate(), SYNCED_AT);
+
+    cache.replaceAll([secret('1', 'A'), secret('2', 'B')], changedAt);
+    assert.deepStrictEqual(cache.getLastSyncedDate(), changedAt);
+    assert.deepStrictEqual(cache.list().map(entry => entry.key), ['A', 'B']);
+  });
+
+  test('a sync with changes replaces every entry', () => {
+    const cache = new SecretCache(TTL_MS);
+    cache.replaceAll([secret('1', 'A'), secret('2', 'B')], SYNCED_AT);
+
+    cache.replaceAll([secret('2', 'B2')], SYNCED_AT);
+
+    assert.deepStrictEqual(cache.list().map(entry => entry.key), ['B2']);
+    assert.strictEqual(cache.get('1'), undefined);
+  });
+
+  test('lists the secrets of one project', () => {
+    const cache = new SecretCache(TTL_MS);
+    cache.replaceAll([secret('1', 'A', 'project-a'), secret('2', 'B', 'project-b')], SYNCED_AT);
+
+    assert.deepStrictEqual(cache.list('project-b').map(entry => entry.key), ['B']);
+  });
+
+  test('returns copies, so callers cannot change cached entries', () => {
+    const cache = new SecretCache(TTL_MS);
+    cache.replaceAll([secret('1', 'A')], SYNCED_AT);
+
+    cache.get('1')!.value = 'changed';
+    cache.list()[0].key = 'changed';
+
+    assert.strictEqual(cache.get('1')!.value, 'value-of-A');
+    assert.strictEqual(cache.get('1')!.key, 'A');
+  });
+
+  test('ignores upserts before the first sync', () => {
+    const cache = new SecretCache(TTL_MS);
+
+    cache.upsert(secret('1', 'A'));
+
+    assert.strictEqual(cache.get('1'), undefined);
+    assert.strictEqual(cache.isPopulated(), false);
+  });
+
+  test('upserts add and update entries once populated', () => {
+    const cache = new SecretCache(TTL_MS);
+    cache.replaceAll([secret('1', 'A')], SYNCED_AT);
+
+    cache.upsert({ ...secret('1', 'A'), value: 'updated' });
+    cache.upsert(secret('2', 'B'));
+
+    assert.strictEqual(cache.get('1')!.value, 'updated');
+    assert.strictEqual(cache.get('2')!.key, 'B');
+  });
+
+  test('removes single entries', () => {
+    const cache = new SecretCache(TTL_MS);
+    cache.replaceAll([secret('1', 'A'), secret('2', 'B')], SYNCED_AT);
+
+    cache.remove('1');
+
+    assert.deepStrictEqual(cache.list().map(entry => entry.key), ['B']);
+    assert.strictEqual(cache.isFresh(SYNCED_AT.getTime()), true);
+  });
+
+  test('invalidating drops every entry and forces a full sync', () => {
+    const cache = new SecretCache(TTL_MS);
+    cache.replaceAll([secret('1', 'A')], SYNCED_AT);
+
+    cache.invalidate();
+
+    assert.deepStrictEqual(cache.list(), []);
+    assert.strictEqual(cache.isPopulated(), false);
+    assert.strictEqual(cache.isFresh(SYNCED_AT.getTime()), false);
+    assert.strictEqual(cache.getLastSyncedDate(), undefined);
+  });
+
+  test('a TTL of 0 turns the cache off', () => {
+    const cache = new SecretCache(0);
+
+    cache.replaceAll([secret('1', 'A')], SYNCED_AT);
+
+    assert.strictEqual(cache.isEnabled(), false);
+    assert.strictEqual(cache.isFresh(SYNCED_AT.getTime()), false);
+    assert.strictEqual(cache.getStatus().enabled, false);
+  });
+
+  test('setting the TTL to 0 drops the cached entries', () => {
+    const cache = new SecretCache(TTL_MS);
+    cache.replaceAll([secret('1', 'A')], SYNCED_AT);
+
+    cache.setTtl(0);
+
+    assert.strictEqual(cache.isEnabled(), false);
+    assert.deepStrictEqual(cache.list(), []);
+    assert.strictEqual(cache.getLastSyncedDate(), undefined);
+  });
+
+  test('reports its status', () => {
+    const cache = new SecretCache(TTL_MS);
+    cache.replaceAll([secret('1', 'A'), secret('2', 'B')], SYNCED_AT);
+
+    const status = cache.getStatus();
+
+    assert.strictEqual(status.enabled, true);
+    assert.strictEqual(status.entries, 2);
+    assert.deepStrictEqual(status.lastRefresh, SYNCED_AT);
+  });
+});
@@ -0,0 +1,87 @@
+import * as assert from 'assert';
+import { maskFor, SecretMasker, StreamMasker } from '../utils/secretMasking';
+
+suite('Secret masking', () => {
+  const secrets = { API_KEY: 'abc123', DATABASE_URL: 'postgres://user:pw@db/app', PASSWORD: 'pw@db', SHORT: 'on' };
+
+  test('replaces values with the key name', () => {
+    const masker = new SecretMasker(secrets);
+
+    assert.strictEqual(masker.mask('key=abc123, again abc123'), `key=${maskFor('API_KEY')}, again ${maskFor('API_KEY')}`);
+    assert.strictEqual(maskFor('API_KEY'), '••••(API_KEY)');
+  });
+
+  test('replaces longer values before values they contain', () => {
+    const masker = new SecretMasker(secrets);
+
+    assert.strictEqual(masker.mask('url: postgres://user:pw@db/app'), 'url: ••••(DATABASE_URL)');
+    assert.strictEqual(masker.mask('password pw@db'), 'password ••••(PASSWORD)');
+  });
+
+  test('leaves short values alone', () => {
+    const masker = new SecretMasker(secrets);
+
+    assert.strictEqual(masker.mask('logging is on'), 'logging is on');
+    assert.strictEqual(new SecretMasker({ SHORT: 'on' }).isEmpty, true);
+  });
+
+  test('leaves short plain words and numbers alone', () => {
+    const masker = new SecretMasker({ STAGE: 'prod', YEAR: '2024', PIN: 'a1b2', NAME: 'production' });
+
+    assert.strictEqual(masker.mask('prod build 2024, pin a1b2'), 'prod build 2024, pin ••••(PIN)');
+    assert.strictEqual(masker.mask('deploying production'), 'deploying ••••(NAME)');
+  });
+
+  test('treats values literally', () => {
+    const masker = new SecretMasker({ PATTERN: 'a.b*c' });
+
+    assert.strictEqual(masker.mask('axbbc a.b*c'), 'axbbc ••••(PATTERN)');
+  });
+
+  test('masks values split across chunks', () => {
+    const stream = new StreamMasker(new SecretMasker(secrets));
+
+    const output = [stream.push('token: ab'), stream.push('c1'), stream.push('23\nnext'), stream.flush()].join('');
+
+    assert.strictEqual(output, 'token: ••••(API_KEY)\nnext');
+  });
+
+  test('holds back only what could start a value', () => {
+    const stream = new StreamMasker(new SecretMasker(secrets));
+
+    assert.strictEqual(stream.push('prompt> ab'), 'prompt> ');
+    assert.strictEqual(stream.hasPending, true);
+    assert.strictEqual(stream.push('x'), 'abx');
+    assert.strictEqual(stream.hasPending, false);
+  });
+
+  test('masks a held-back start of a value when the stream ends', () => {
+    const stream = new StreamMasker(new SecretMasker(secrets));
+
+    assert.strictEqual(stream.push('ends with abc12'), 'ends with ');
+    assert.strictEqual(stream.flush(), '••••(API_KEY)');
+    assert.strictEqual(stream.flush(), '');
+
+    assert.strictEqual(stream.push('ends with ab'), 'ends with ');
+    assert.strictEqual(stream.flush(), 'ab');
+  });
+
+  test('shows short held text after a pause and masks the rest of the value', () => {
+    const stream = new StreamMasker(new SecretMasker(secrets));
+
+    assert.strictEqual(stream.push('key=ab'), 'key=');
+    assert.strictEqual(stream.releaseIdle(), 'ab');
+    assert.strictEqual(stream.push('c1'), '');
+    assert.strictEqual(stream.releaseIdle(), '');
+    assert.strictEqual(stream.push('23 done'), '••••(API_KEY) done');
+  });
+
+  test('shows text after a pause that turns out not to be a value', () => {
+    const stream = new StreamMasker(new SecretMasker(secrets));
+
+    assert.strictEqual(stream.push('prompt> ab'), 'prompt> ');
+    assert.strictEqual(stream.releaseIdle(), 'ab');
+    assert.strictEqual(stream.push('x abc123'), 'x ••••(API_KEY)');
+    assert.strictEqual(stream.hasPending, false);
+  });
+});
@@ -0,0 +1,207 @@
+import * as assert from 'assert';
+import { ValidationError } from '../errors';
+import { clearScreenCommand, formatEnvAssignment, formatEnvEcho, ShellType, shellTypeFromPath } from '../utils/shellQuoting';
+
+interface QuotingCase {
+  name: string;
+  value: string;
+  expected: { [shell in ShellType]: string };
+}
+
+const PEM = '-----BEGIN KEY-----\nabc\n-----END KEY-----';
+
+const CASES: QuotingCase[] = [
+  {
+    name: 'plain value',
+    value: 'abc123',
+    expected: {
+      bash: "export KEY='abc123'",
+      zsh: "export KEY='abc123'",
+      sh: "export KEY='abc123'",
+      wsl: "export KEY='abc123'",
+      fish: "set -gx KEY 'abc123'",
+      nu: '$env.KEY = "abc123"',
+      pwsh: "$env:KEY = 'abc123'",
+      cmd: 'set KEY=abc123'
+    }
+  },
+  {
+    name: 'dollar signs',
+    value: 'p@$$w0rd',
+    expected: {
+      bash: "export KEY='p@$$w0rd'",
+      zsh: "export KEY='p@$$w0rd'",
+      sh: "export KEY='p@$$w0rd'",
+      wsl: "export KEY='p@$$w0rd'",
+      fish: "set -gx KEY 'p@$$w0rd'",
+      nu: '$env.KEY = "p@$$w0rd"',
+      pwsh: "$env:KEY = 'p@$$w0rd'",
+      cmd: 'set KEY=p@$$w0rd'
+    }
+  },
+  {
+    name: 'quotes, backticks and command substitution',
+    value: `it's "$(id)" \`id\``,
+    expected: {
+      bash: `export KEY='it'\\''s "$(id)" \`id\`'`,
+      zsh: `export KEY='it'\\''s "$(id)" \`id\`'`,
+      sh: `export KEY='it'\\''s "$(id)" \`id\`'`,
+      wsl: `export KEY='it'\\''s "$(id)" \`id\`'`,
+      fish: `set -gx KEY 'it\\'s "$(id)" \`id\`'`,
+      nu: `$env.KEY = "it's \\"$(id)\\" \`id\`"`,
+      pwsh: `$env:KEY = 'it''s "$(id)" \`id\`'`,
+      cmd: 'set KEY=it\'s ^"$^(id^)^" `id`'
+    }
+  },
+  {
+    name: 'history expansion and percent signs',
+    value: 'a!!b%PATH%',
+    expected: {
+      bash: "export KEY='a!!b%PATH%'",
+      zsh: "export KEY='a!!b%PATH%'",
+      sh: "export KEY='a!!b%PATH%'",
+      wsl: "export KEY='a!!b%PATH%'",
+      fish: "set -gx KEY 'a!!b%PATH%'",
+      nu: '$env.KEY = "a!!b%PATH%"',
+      pwsh: "$env:KEY = 'a!!b%PATH%'",
+      cmd: 'set KEY=a^!^!b^%PATH^%'
+    }
+  },
+  {
+    name: 'backslashes',
+    value: 'C:\\path\\',
+    expected: {
+      bash: "export KEY='C:\\path\\'",
+      zsh: "export KEY='C:\\path\\'",
+      sh: "export KEY='C:\\path\\'",
+      wsl: "export KEY='C:\\path\\'",
+      fish: "set -gx KEY 'C:\\\\path\\\\'",
+      nu: '$env.KEY = "C:\\\\path\\\\"',
+      pwsh: "$env:KEY = 'C:\\path\\'",
+      cmd: 'set KEY=C:\\path\\'
+    }
+  },
+  {
+    name: 'cmd operators',
+    value: 'a&b|c<d>e^f',
+    expected: {
+      bash: "export KEY='a&b|c<d>e^f'",
+      zsh: "export KEY='a&b|c<d>e^f'",
+      sh: "export KEY='a&b|c<d>e^f'",
+      wsl: "export KEY='a&b|c<d>e^f'",
+      fish: "set -gx KEY 'a&b|c<d>e^f'",
+      nu: '$env.KEY = "a&b|c<d>e^f"',
+      pwsh: "$env:KEY = 'a&b|c<d>e^f'",
+      cmd: 'set KEY=a^&b^|c^<d^>e^^f'
+    }
+  },
+  {
+    name: 'empty value',
+    value: '',
+    expected: {
+      bash: "export KEY=''",
+      zsh: "export KEY=''",
+      sh: "export KEY=''",
+      wsl: "export KEY=''",
+      fish: "set -gx KEY ''",
+      nu: '$env.KEY = ""',
+      pwsh: "$env:KEY = ''",
+      cmd: 'set KEY='
+    }
+  }
+];
+
+const MULTILINE_CASES: { name: string; value: string; expected: { [shell in Exclude<ShellType, 'cmd'>]: string } }[] = [
+  {
+    name: 'PEM key',
+    value: PEM,
+    expected: {
+      bash: "export KEY=$'-----BEGIN KEY-----\\nabc\\n-----END KEY-----'",
+      zsh: "export KEY=$'-----BEGIN KEY-----\\nabc\\n-----END KEY-----'",
+      wsl: "export KEY=$'-----BEGIN KEY-----\\nabc\\n-----END KEY-----'",
+      sh: `export KEY='${PEM}'`,
+      fish: "set -gx KEY '-----BEGIN KEY-----'\\n'abc'\\n'-----END KEY-----'",
+      nu: '$env.KEY = "-----BEGIN KEY-----\\nabc\\n-----END KEY-----"',
+      pwsh: '$env:KEY = "-----BEGIN KEY-----`nabc`n-----END KEY-----"'
+    }
+  },
+  {
+    name: 'control characters next to quotes and dollars',
+    value: "it's\t$HOME!\x1b",
+    expected: {
+      bash: "export KEY=$'it\\x27s\\t$HOME\\x21\\x1b'",
+      zsh: "export KEY=$'it\\x27s\\t$HOME\\x21\\x1b'",
+      wsl: "export KEY=$'it\\x27s\\t$HOME\\x21\\x1b'",
+      sh: "export KEY='it'\\''s\t$HOME!\x1b'",
+      fish: "set -gx KEY 'it\\'s'\\t'$HOME!'\\x1b",
+      nu: '$env.KEY = "it\'s\\t$HOME!\\u{1b}"',
+      pwsh: '$env:KEY = "it\'s`t`$HOME!$([char]0x1b)"'
+    }
+  }
+];
+
+suite('Shell quoting', () => {
+  for (const testCase of CASES) {
+    for (const [shell, expected] of Object.entries(testCase.expected)) {
+      test(`${shell}: ${testCase.name}`, () => {
+        assert.strictEqual(formatEnvAssignment(shell as ShellType, 'KEY', testCase.value), expected);
+      });
+    }
+  }
+
+  for (const testCase of MULTILINE_CASES) {
+    for (const [shell, expected] of Object.entries(testCase.expected)) {
+      test(`${shell}: ${testCase.name}`, () => {
+        assert.strictEqual(formatEnvAssignment(shell as ShellType, 'KEY', testCase.value), expected);
+      });
+    }
+  }
+
+  test('pwsh: doubles typographic single quotes', () => {
+    assert.strictEqual(formatEnvAssignment('pwsh', 'KEY', 'a\u2019b'), "$env:KEY = 'a\u2019\u2019b'");
+  });
+
+  test('cmd: rejects line breaks', () => {
+    assert.throws(() => formatEnvAssignment('cmd', 'KEY', PEM), ValidationError);
+  });
+
+  test('rejects keys that are not variable names', () => {
+    for (const key of ['1KEY', 'KEY;id', 'A-B', '']) {
+      assert.throws(() => formatEnvAssignment('bash', key, 'x'), ValidationError, key);
+    }
+  });
+
+  test('prints and clears per shell', () => {
+    assert.strictEqual(formatEnvEcho('bash', 'KEY'), 'echo $KEY');
+    assert.strictEqual(formatEnvEcho('nu', 'KEY'), '$env.KEY');
+    assert.strictEqual(formatEnvEcho('pwsh', 'KEY'), '$env:KEY');
+    assert.strictEqual(formatEnvEcho('cmd', 'KEY'), 'echo %KEY%');
+    assert.strictEqual(clearScreenCommand('cmd'), 'cls');
+    assert.strictEqual(clearScreenCommand('pwsh'), 'Clear-Host');
+    assert.strictEqual(clearScreenCommand('fish'), 'clear');
+  });
+
+  const SHELL_PATHS: [string, ShellType | undefined][] = [
+    ['/bin/bash', 'bash'],
+    ['/usr/bin/zsh', 'zsh'],
+    ['/bin/dash', 'sh'],
+    ['/opt/homebrew/bin/fish', 'fish'],
+    ['/usr/local/bin/nu', 'nu'],
+    ['C:\\Program Files\\PowerShell\\7\\pwsh.exe', 'pwsh'],
+    ['C:\\Windows\\System32\\WindowsPowerShell\\v1.0\\powershell.exe', 'pwsh'],
+    ['C:\\Windows\\System32\\cmd.exe', 'cmd'],
+    ['C:\\Windows\\System32\\wsl.exe', 'wsl'],
+    ['Ubuntu-22.04', 'wsl'],
+    ['Git Bash', 'bash'],
+    ['Command Prompt', 'cmd'],
+    ['Windows PowerShell', 'pwsh'],
+    ['node', undefined],
+    ['Bitwarden: api', undefined]
+  ];
+
+  for (const [shellPath, expected] of SHELL_PATHS) {
+    test(`detects ${expected ?? 'no shell'} from ${shellPath}`, () => {
+      assert.strictEqual(shellTypeFromPath(shellPath), expected);
+    });
+  }
+});
@@ -0,0 +1,142 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { ExtensionApi } from '../core';
+import { InMemorySecretsBackend } from '../services/InMemorySecretsBackend';
+import { SecretEnvironmentService } from '../services/SecretEnvironmentService';
+import { BitwardenTaskDefinition, BitwardenTaskProvider } from '../ui/taskProvider';
+import {
+  ACCESS_TOKEN,
+  activateWithFakeBackend,
+  captureMessages,
+  defaultFixtures,
+  deleteWorkspaceFile,
+  ORGANIZATION_ID,
+  PROJECT_WEB_ID,
+  readWorkspaceFile,
+  setCredentials,
+  Stubs,
+  writeWorkspaceFile
+} from './helpers';
+
+const PRINT_ENV_SCRIPT = 'print-env.test.js';
+const ENV_OUTPUT_FILE = 'env.test.json';
+
+suite('Bitwarden tasks', () => {
+  let api: ExtensionApi;
+  let backend: InMemorySecretsBackend;
+  let taskProvider: BitwardenTaskProvider;
+  let stubs: Stubs;
+  let messages: ReturnType<typeof captureMessages>;
+
+  suiteSetup(async () => {
+    ({ api, backend } = await activateWithFakeBackend());
+    taskProvider = new BitwardenTaskProvider(new SecretEnvironmentService(api.appState.profileService));
+  });
+
+  setup(async () => {
+    stubs = new Stubs();
+    messages = captureMessages(stubs);
+    const fixtures = defaultFixtures();
+    fixtures.secrets!.push(
+      { id: 'secret-web-key', key: 'API_KEY', value: 'web-key', note: '', projectId: PROJECT_WEB_ID },
+      { id: 'secret-web-url', key: 'PUBLIC_URL', value: 'https://example.com', note: '', projectId: PROJECT_WEB_ID }
+    );
+    backend.seed(fixtures);
+    await setCredentials(api, ACCESS_TOKEN, ORGANIZATION_ID);
+    // Writes the environment of the process, and its third argument as ARGUMENT
+    await writeWorkspaceFile(PRINT_ENV_SCRIPT, [
+      'const [, , file, argument] = process.argv;',
+      'require("fs").writeFileSync(file, JSON.stringify({ ...process.env, ARGUMENT: argument }));'
+    ].join('\n'));
+  });
+
+  teardown(async () => {
+    stubs.restoreAll();
+    await deleteWorkspaceFile(PRINT_ENV_SCRIPT);
+    await deleteWorkspaceFile(ENV_OUTPUT_FILE);
+  });
+
+  function resolve(definition: Omit<BitwardenTaskDefinition, 'type'>): Promise<vscode.Task | undefined> {
+    const task = new vscode.Task(
+      { type: BitwardenTaskProvider.type, ...definition },
+      vscode.TaskScope.Workspace,
+      'start',
+      BitwardenTaskProvider.type
+    );
+    return taskProvider.resolveTask(task);
+  }
+
+  /**
+   * Run a resolved task to its end and return the environment its process saw
+   */
+  async function runForEnvironment(task: vscode.Task | undefined): Promise<{ [key: string]: string }> {
+    assert.ok(task?.execution instanceof vscode.CustomExecution);
+    const ended = new Promise<void>(resolve => {
+      const listener = vscode.tasks.onDidEndTask(event => {
+        if (event.execution.task.name === task.name) {
+          listener.dispose();
+          resolve();
+        }
+      });
+    });
+    await vscode.tasks.executeTask(task);
+    await ended;
+    return JSON.parse(await readWorkspaceFile(ENV_OUTPUT_FILE));
+  }
+
+  test('passes project secrets to the environment of the process', async () => {
+    const env = await runForEnvironment(await resolve({ projects: ['api'], command: 'node', args: [PRINT_ENV_SCRIPT, ENV_OUTPUT_FILE] }));
+
+    assert.strictEqual(env.API_KEY, 'abc123');
+    assert.strictEqual(env.DATABASE_URL, 'postgres://localhost/app');
+  });
+
+  test('applies key globs, project order and task variables', async () => {
+    const env = await runForEnvironment(await resolve({
+      projects: ['api', PROJECT_WEB_ID],
+      command: 'node',
+      args: [PRINT_ENV_SCRIPT, ENV_OUTPUT_FILE],
+      exclude: ['DATABASE_*'],
+      env: { PUBLIC_URL: 'http://localhost:3000' }
+    }));
+
+    assert.strictEqual(env.API_KEY, 'web-key');
+    assert.strictEqual(env.PUBLIC_URL, 'http://localhost:3000');
+    assert.strictEqual(env.DATABASE_URL, undefined);
+  });
+
+  test('passes values with ${...} variables to the process unchanged', async () => {
+    const value = '${env:HOME}:${workspaceFolder}:${config:editor.fontSize}';
+    const fixtures = defaultFixtures();
+    fixtures.secrets!.push({ id: 'secret-template', key: 'TEMPLATE', value, note: '', projectId: PROJECT_WEB_ID });
+    backend.seed(fixtures);
+
+    const env = await runForEnvironment(await resolve({ projects: ['web'], command: 'node', args: [PRINT_ENV_SCRIPT, ENV_OUTPUT_FILE] }));
+
+    assert.strictEqual(env.TEMPLATE, value);
+  });
+
+  test('quotes arguments for the shell', async () => {
+    const env = await runForEnvironment(await resolve({ projects: ['api'], command: 'node', args: [PRINT_ENV_SCRIPT, ENV_OUTPUT_FILE, 'two words'] }));
+
+    assert.strictEqual(env.ARGUMENT, 'two words');
+  });
+
+  test('reports unknown projects instead of running without secrets', async () => {
+    const task = await resolve({ projects: ['missing'], command: 'npm start' });
+
+    assert.strictEqual(task, undefined);
+    assert.match(messages.error[0], /Project "missing" not found/);
+  });
+
+  test('reports invalid definitions', async () => {
+    const task = await resolve({ projects: [], command: 'npm start' });
+
+    assert.strictEqual(task, undefined);
+    assert.match(messages.error[0], /"projects" must list at least one project/);
+  });
+
+  test('provides no tasks of its own', () => {
+    assert.deepStrictEqual(taskProvider.provideTasks(), []);
+  });
+});
@@ -0,0 +1,103 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { loadProjectSecretsToEnvCommand, loadSecretToEnvCommand, unloadTerminalSecretsCommand } from '../commands';
+import { ExtensionApi } from '../core';
+import { InMemorySecretsBackend } from '../services/InMemorySecretsBackend';
+import { TerminalSecretsService } from '../services/TerminalSecretsService';
+import { BitwardenSecretItem, BitwardenSecretsProvider } from '../ui/treeProvider';
+import {
+  ACCESS_TOKEN,
+  activateWithFakeBackend,
+  captureMessages,
+  defaultFixtures,
+  ensureProvider,
+  ORGANIZATION_ID,
+  PROJECT_API_ID,
+  setCredentials,
+  Stubs
+} from './helpers';
+
+suite('Terminal secrets', () => {
+  let api: ExtensionApi;
+  let backend: InMemorySecretsBackend;
+  let provider: BitwardenSecretsProvider;
+  let project: BitwardenSecretItem;
+  let terminalSecrets: TerminalSecretsService;
+  let stubs: Stubs;
+  let messages: ReturnType<typeof captureMessages>;
+
+  suiteSetup(async () => {
+    ({ api, backend } = await activateWithFakeBackend());
+    provider = await ensureProvider(api);
+    terminalSecrets = api.appState.terminalSecrets;
+  });
+
+  setup(async () => {
+    stubs = new Stubs();
+    messages = captureMessages(stubs);
+    backend.seed(defaultFixtures());
+    await setCredentials(api, ACCESS_TOKEN, ORGANIZATION_ID);
+    const projects = await provider.getChildren();
+    project = projects.find(item => item.id === PROJECT_API_ID)!;
+  });
+
+  teardown(async () => {
+    stubs.restoreAll();
+    await terminalSecrets.unload();
+    await setInjectionMode(undefined);
+    vscode.window.terminals.forEach(terminal => terminal.dispose());
+  });
+
+  async function setInjectionMode(mode: string | undefined): Promise<void> {
+    await vscode.workspace.getConfiguration('bitwardenSecretsExplorer.terminal')
+      .update('injection', mode, vscode.ConfigurationTarget.Global);
+  }
+
+  test('opens a new terminal with the project secrets in its environment', async () => {
+    const created: vscode.TerminalOptions[] = [];
+    const createTerminal = vscode.window.createTerminal;
+    stubs.stub(vscode.window, 'createTerminal', ((options: vscode.TerminalOptions) => {
+      created.push(options);
+      return createTerminal(options);
+    }) as any);
+
+    await loadProjectSecretsToEnvCommand(provider, terminalSecrets, project);
+
+    assert.strictEqual(created.length, 1);
+    assert.strictEqual(created[0].name, 'Bitwarden: api');
+    assert.deepStrictEqual(created[0].env, { DATABASE_URL: 'postgres://localhost/app', API_KEY: 'abc123' });
+    assert.match(messages.info[0], /2 environment variables have been set in the new terminal/);
+  });
+
+  test('never types values into a terminal by default', async () => {
+    const sent: string[] = [];
+    const terminal = vscode.window.createTerminal('existing');
+    terminal.show();
+    stubs.stub(terminal, 'sendText', ((text: string) => sent.push(text)) as any);
+    const [secret] = await provider.getChildren(project);
+
+    await loadSecretToEnvCommand(provider, terminalSecrets, secret);
+
+    assert.deepStrictEqual(sent, []);
+  });
+
+  test('loads secrets into the environment collection until unloaded', async () => {
+    await setInjectionMode('environmentCollection');
+
+    await loadProjectSecretsToEnvCommand(provider, terminalSecrets, project);
+
+    assert.deepStrictEqual(terminalSecrets.loadedKeys(), ['API_KEY', 'DATABASE_URL']);
+    assert.match(messages.info[0], /set for new terminals/);
+
+    await unloadTerminalSecretsCommand(terminalSecrets);
+
+    assert.deepStrictEqual(terminalSecrets.loadedKeys(), []);
+    assert.match(messages.info[1], /^Unloaded 2 secrets from new terminals: API_KEY, DATABASE_URL/);
+  });
+
+  test('reports when nothing is loaded', async () => {
+    await unloadTerminalSecretsCommand(terminalSecrets);
+
+    assert.deepStrictEqual(messages.info, ['No secrets are loaded into terminals']);
+  });
+});
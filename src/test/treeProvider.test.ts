@@ -0,0 +1,148 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { ExtensionApi } from '../core';
+import { InMemorySecretsBackend } from '../services/InMemorySecretsBackend';
+import { BitwardenSecretsProvider } from '../ui/treeProvider';
+import {
+  ACCESS_TOKEN,
+  activateWithFakeBackend,
+  captureMessages,
+  defaultFixtures,
+  ensureProvider,
+  ORGANIZATION_ID,
+  PROJECT_API_ID,
+  setCredentials,
+  Stubs
+} from './helpers';
+
+suite('BitwardenSecretsProvider.getChildren', () => {
+  let api: ExtensionApi;
+  let backend: InMemorySecretsBackend;
+  let provider: BitwardenSecretsProvider;
+  let stubs: Stubs;
+  let messages: ReturnType<typeof captureMessages>;
+
+  suiteSetup(async () => {
+    ({ api, backend } = await activateWithFakeBackend());
+    provider = await ensureProvider(api);
+  });
+
+  setup(async () => {
+    stubs = new Stubs();
+    messages = captureMessages(stubs);
+    backend.seed(defaultFixtures());
+    backend.clearFailures();
+    await setCredentials(api, ACCESS_TOKEN, ORGANIZATION_ID);
+  });
+
+  teardown(async () => {
+    stubs.restoreAll();
+    await vscode.workspace.getConfiguration('bitwardenSecretsExplorer.tree')
+      .update('showOrganizations', undefined, vscode.ConfigurationTarget.Global);
+  });
+
+  test('shows a placeholder when no access token is set', async () => {
+    await setCredentials(api, undefined, ORGANIZATION_ID);
+
+    const children = await provider.getChildren();
+
+    assert.strictEqual(children.length, 1);
+    assert.strictEqual(children[0].label, 'No Access Token');
+    assert.strictEqual(children[0].contextValue, 'placeholder');
+  });
+
+  test('shows a placeholder when authentication fails', async () => {
+    await setCredentials(api, '0.revoked-token', ORGANIZATION_ID);
+
+    const children = await provider.getChildren();
+
+    assert.strictEqual(children.length, 1);
+    assert.strictEqual(children[0].label, 'Authentication Failed');
+    assert.strictEqual(children[0].contextValue, 'placeholder');
+    assert.strictEqual(messages.error.length, 1);
+    assert.match(messages.error[0], /Invalid access token/);
+  });
+
+  test('shows a placeholder when no organization ID is set', async () => {
+    await setCredentials(api, ACCESS_TOKEN, undefined);
+
+    const children = await provider.getChildren();
+
+    assert.strictEqual(children[0].label, 'Authentication Failed');
+    assert.match(messages.error[0], /No organization ID available/);
+  });
+
+  test('shows a placeholder for an organization without projects', async () => {
+    backend.seed({ ...defaultFixtures(), projects: [], secrets: [] });
+
+    const children = await provider.getChildren();
+
+    assert.strictEqual(children.length, 1);
+    assert.strictEqual(children[0].label, 'No Projects Found');
+    assert.strictEqual(children[0].contextValue, 'placeholder');
+  });
+
+  test('lists projects sorted by name', async () => {
+    const children = await provider.getChildren();
+
+    assert.deepStrictEqual(children.map(child => child.label), ['api', 'web']);
+    assert.ok(children.every(child => child.type === 'project'));
+  });
+
+  test('lists secrets of a project sorted by key from their metadata', async () => {
+    const [api] = await provider.getChildren();
+    backend.resetCalls();
+
+    const secrets = await provider.getChildren(api);
+
+    assert.deepStrictEqual(secrets.map(secret => secret.label), ['API_KEY', 'DATABASE_URL']);
+    assert.ok(secrets.every(secret => secret.projectId === api.id));
+    assert.ok(!backend.getCalls().includes('listSecrets'));
+    assert.ok(!backend.getCalls().includes('getSecret'));
+  });
+
+  test('shows a placeholder for a project without secrets', async () => {
+    const children = await provider.getChildren();
+    const web = children.find(child => child.label === 'web')!;
+
+    const secrets = await provider.getChildren(web);
+
+    assert.strictEqual(secrets.length, 1);
+    assert.strictEqual(secrets[0].label, 'No Secrets Found');
+  });
+
+  test('shows an error item when projects cannot be loaded', async () => {
+    backend.failOn('listProjects', new Error('Service unavailable'), 1);
+
+    const children = await provider.getChildren();
+
+    assert.strictEqual(children[0].label, 'Error Loading Projects');
+    assert.strictEqual(children[0].description, 'Service unavailable');
+  });
+
+  test('masks secret values in error items', async () => {
+    await backend.createSecret({ key: 'SERVICE_TOKEN', value: 'tok-9f8e7d', note: '', projectId: PROJECT_API_ID });
+    backend.failOn('listProjects', new Error('Invalid request: {"token":"tok-9f8e7d"}'), 1);
+
+    const children = await provider.getChildren();
+
+    assert.strictEqual(children[0].description, 'Invalid request: {"token":"••••(SERVICE_TOKEN)"}');
+    assert.strictEqual(children[0].tooltip, children[0].description);
+  });
+
+  test('shows one organization node per profile when enabled', async () => {
+    await vscode.workspace.getConfiguration('bitwardenSecretsExplorer.tree')
+      .update('showOrganizations', true, vscode.ConfigurationTarget.Global);
+
+    const organizations = await provider.getChildren();
+    assert.strictEqual(organizations.length, 1);
+    assert.strictEqual(organizations[0].type, 'organization');
+    assert.strictEqual(organizations[0].id, ORGANIZATION_ID);
+    assert.strictEqual(organizations[0].label, ORGANIZATION_ID);
+    assert.strictEqual(organizations[0].description, api.appState.profileService.getActiveProfile().name);
+
+    const projects = await provider.getChildren(organizations[0]);
+    assert.deepStrictEqual(projects.map(project => project.label), ['api', 'web']);
+    assert.ok(projects.every(project => project.profileId === organizations[0].profileId));
+  });
+});
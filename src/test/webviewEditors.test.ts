@@ -0,0 +1,163 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { ExtensionApi } from '../core';
+import { InMemorySecretsBackend } from '../services/InMemorySecretsBackend';
+import { BitwardenSecretItem, BitwardenSecretsProvider } from '../ui/treeProvider';
+import { openNewSecretEditor, openSecretEditor } from '../ui/webviewEditors';
+import {
+  ACCESS_TOKEN,
+  activateWithFakeBackend,
+  captureMessages,
+  defaultFixtures,
+  createTestContext,
+  ensureProvider,
+  FakeWebviewPanel,
+  ORGANIZATION_ID,
+  PROJECT_API_ID,
+  PROJECT_WEB_ID,
+  setCredentials,
+  Stubs
+} from './helpers';
+
+suite('Secret editor webviews', () => {
+  let api: ExtensionApi;
+  let backend: InMemorySecretsBackend;
+  let provider: BitwardenSecretsProvider;
+  let context: vscode.ExtensionContext;
+  let stubs: Stubs;
+  let panel: FakeWebviewPanel;
+  let messages: ReturnType<typeof captureMessages>;
+
+  suiteSetup(async () => {
+    ({ api, backend } = await activateWithFakeBackend());
+    provider = await ensureProvider(api);
+    context = createTestContext();
+  });
+
+  setup(async () => {
+    stubs = new Stubs();
+    messages = captureMessages(stubs);
+    panel = new FakeWebviewPanel();
+    stubs.stub(vscode.window, 'createWebviewPanel', ((_viewType: string, title: string) => {
+      panel.title = title;
+      return panel;
+    }) as any);
+    backend.seed(defaultFixtures());
+    await setCredentials(api, ACCESS_TOKEN, ORGANIZATION_ID);
+    await provider.getChildren();
+  });
+
+  teardown(() => {
+    stubs.restoreAll();
+    // Closing the panel releases it from the editors' duplicate tracking
+    if (!panel.disposed) {
+      panel.dispose();
+    }
+  });
+
+  async function secretItem(): Promise<BitwardenSecretItem> {
+    const secrets = await provider.getSecretsForProject(PROJECT_API_ID, '');
+    return secrets.find(secret => secret.label === 'API_KEY')!;
+  }
+
+  suite('edit', () => {
+    test('loads the secret into the panel', async () => {
+      await openSecretEditor(context, provider, await secretItem());
+
+      assert.strictEqual(panel.title, 'Edit Secret: API_KEY');
+      assert.match(panel.webview.html, /API_KEY/);
+    });
+
+    test('save updates the secret and closes the panel', async () => {
+      const item = await secretItem();
+      await openSecretEditor(context, provider, item);
+
+      await panel.send({
+        command: 'save',
+        data: { key: 'API_KEY', value: 'rotated', note: 'Rotated today', projectId: PROJECT_WEB_ID }
+      });
+
+      const secret = await backend.getSecret(item.id!);
+      assert.strictEqual(secret.value, 'rotated');
+      assert.strictEqual(secret.note, 'Rotated today');
+      assert.strictEqual(secret.projectId, PROJECT_WEB_ID);
+      assert.ok(panel.disposed);
+      assert.deepStrictEqual(messages.info, ['Secret updated successfully!']);
+    });
+
+    test('a failed save posts an error and keeps the panel open', async () => {
+      const item = await secretItem();
+      await openSecretEditor(context, provider, item);
+      backend.failOn('updateSecret', new Error('Permission denied'), 1);
+
+      await panel.send({
+        command: 'save',
+        data: { key: 'API_KEY', value: 'rotated', note: '', projectId: PROJECT_API_ID }
+      });
+
+      assert.strictEqual(panel.disposed, false);
+      assert.strictEqual(panel.posted.length, 1);
+      assert.strictEqual(panel.posted[0].command, 'error');
+      assert.match(panel.posted[0].message, /Failed to save secret: .*Permission denied/);
+      assert.strictEqual((await backend.getSecret(item.id!)).value, 'abc123');
+    });
+
+    test('cancel closes the panel without saving', async () => {
+      await openSecretEditor(context, provider, await secretItem());
+      backend.resetCalls();
+
+      await panel.send({ command: 'cancel' });
+
+      assert.ok(panel.disposed);
+      assert.ok(!backend.getCalls().includes('updateSecret'));
+    });
+
+    test('shows an error page when the secret cannot be loaded', async () => {
+      backend.failOn('getSecret', new Error('Secret not found'), 1);
+
+      await openSecretEditor(context, provider, await secretItem());
+
+      assert.match(panel.webview.html, /Failed to load secret/);
+      assert.strictEqual(panel.messageHandler, undefined);
+    });
+  });
+
+  suite('create', () => {
+    test('save creates the secret and closes the panel', async () => {
+      await openNewSecretEditor(context, provider, PROJECT_WEB_ID);
+      assert.strictEqual(panel.title, 'Create New Secret');
+
+      await panel.send({
+        command: 'save',
+        data: { key: 'SENTRY_DSN', value: 'https://sentry.example', note: '', projectId: PROJECT_WEB_ID }
+      });
+
+      const secrets = await backend.listSecrets(PROJECT_WEB_ID);
+      assert.deepStrictEqual(secrets.map(secret => secret.key), ['SENTRY_DSN']);
+      assert.ok(panel.disposed);
+    });
+
+    test('a failed save posts an error and keeps the panel open', async () => {
+      await openNewSecretEditor(context, provider, PROJECT_WEB_ID);
+      backend.failOn('createSecret', new Error('Quota exceeded'), 1);
+
+      await panel.send({
+        command: 'save',
+        data: { key: 'SENTRY_DSN', value: 'x', note: '', projectId: PROJECT_WEB_ID }
+      });
+
+      assert.strictEqual(panel.disposed, false);
+      assert.strictEqual(panel.posted[0].command, 'error');
+      assert.match(panel.posted[0].message, /Failed to create secret: .*Quota exceeded/);
+    });
+
+    test('cancel closes the panel without creating a secret', async () => {
+      await openNewSecretEditor(context, provider, PROJECT_WEB_ID);
+
+      await panel.send({ command: 'cancel' });
+
+      assert.ok(panel.disposed);
+      assert.strictEqual((await backend.listSecrets(PROJECT_WEB_ID)).length, 0);
+    });
+  });
+});
@@ -0,0 +1,109 @@
+import * as assert from 'assert';
+import { formatYamlKey, formatYamlString, parseYaml, parseYamlDocuments, YamlSyntaxError } from '../utils/yaml';
+
+suite('parseYaml', () => {
+  test('reads nested mappings and sequences', () => {
+    const value = parseYaml([
+      'metadata:',
+      '  name: api # the name',
+      '  labels:',
+      '    app: web',
+      'ports:',
+      '- 80',
+      '- name: https',
+      '  port: 443',
+      'empty:'
+    ].join('\n'));
+
+    assert.deepStrictEqual(value, {
+      metadata: { name: 'api', labels: { app: 'web' } },
+      ports: [80, { name: 'https', port: 443 }],
+      empty: null
+    });
+  });
+
+  test('resolves plain scalars unless asked to keep them as strings', () => {
+    const text = 'a: true\nb: 1.10\nc: 0x1F\nd: ~\ne: hello world';
+
+    assert.deepStrictEqual(parseYaml(text), { a: true, b: 1.1, c: 31, d: null, e: 'hello world' });
+    assert.deepStrictEqual(parseYaml(text, { stringScalars: true }), { a: 'true', b: '1.10', c: '0x1F', d: null, e: 'hello world' });
+  });
+
+  test('reads quoted scalars with escapes and embedded comment characters', () => {
+    const value = parseYaml(`a: "line\\nnext \\u00e9 # not a comment"\nb: 'it''s # here'\n"c d": x`);
+
+    assert.deepStrictEqual(value, { a: 'line\nnext é # not a comment', b: "it's # here", 'c d': 'x' });
+  });
+
+  test('reads literal and folded block scalars with chomping', () => {
+    const value = parseYaml([
+      'literal: |',
+      '  first',
+      '    indented',
+      '',
+      '  last',
+      'folded: >-',
+      '  one',
+      '  two',
+      '',
+      '  three',
+      'kept: |+',
+      '  text',
+      '',
+      'next: end'
+    ].join('\n'));
+
+    assert.deepStrictEqual(value, {
+      literal: 'first\n  indented\n\nlast\n',
+      folded: 'one two\nthree',
+      kept: 'text\n\n',
+      next: 'end'
+    });
+  });
+
+  test('reads single-line flow collections', () => {
+    assert.deepStrictEqual(parseYaml('a: [1, "two", {b: c}]\nd: {}'), { a: [1, 'two', { b: 'c' }], d: {} });
+  });
+
+  test('folds plain scalars continued on more indented lines', () => {
+    assert.deepStrictEqual(parseYaml('a: one\n  two\nb: 3'), { a: 'one two', b: 3 });
+  });
+
+  test('splits multi-document streams and skips empty documents', () => {
+    const documents = parseYamlDocuments('%YAML 1.2\n---\na: 1\n---\n# nothing\n---\nb: 2\n...\n');
+
+    assert.deepStrictEqual(documents, [{ a: 1 }, { b: 2 }]);
+  });
+
+  test('reports errors with their line number', () => {
+    const cases: [string, RegExp, number][] = [
+      ['a: 1\na: 2', /Map keys must be unique/, 2],
+      ['a: "open', /Missing closing "quote/, 1],
+      ['a:\n\tb: 1', /Tabs are not allowed/, 2],
+      ['---\na: 1\n---\nb: [1, 2', /must be sufficiently indented and end with a \]/, 4]
+    ];
+
+    for (const [text, message, line] of cases) {
+      assert.throws(() => parseYamlDocuments(text), (error: unknown) =>
+        error instanceof YamlSyntaxError && message.test(error.message) && error.line === line, text);
+    }
+  });
+
+  test('resolves anchors and aliases', () => {
+    assert.deepStrictEqual(parseYaml('base: &base\n  a: 1\ncopy: *base'), { base: { a: 1 }, copy: { a: 1 } });
+  });
+});
+
+suite('YAML formatting', () => {
+  test('quotes keys that would not stay plain strings', () => {
+    assert.strictEqual(formatYamlKey('API_KEY'), 'API_KEY');
+    assert.strictEqual(formatYamlKey('no'), '"no"');
+    assert.strictEqual(formatYamlKey('a key'), '"a key"');
+  });
+
+  test('formatted strings parse back unchanged', () => {
+    for (const value of ['plain', 'true', '0123', 'multi\nline', 'quote " and \\ backslash', '# hash', '']) {
+      assert.deepStrictEqual(parseYaml(`k: ${formatYamlString(value)}`), { k: value });
+    }
+  });
+});
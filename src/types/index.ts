@@ -1,5 +1,5 @@
 export interface ValidationError {
-  field: "key" | "value" | "note" | "projectId";
+  field: "key" | "value" | "note" | "projectId" | "apiUrl" | "identityUrl";
   message: string;
   code?: string;
 }
@@ -50,4 +50,53 @@ export interface Config {
   cliPath?: string;
   timeout?: number;
   retryAttempts?: number;
-}
\ No newline at end of file
+}
+
+
+export type ServerPreset = 'us' | 'eu' | 'custom';
+
+
+export interface ServerSettings {
+  apiUrl: string;
+  identityUrl: string;
+}
+
+export interface ConnectionProfile {
+  id: string;
+  name: string;
+  /** Server pinned to this profile; falls back to the configured server when unset */
+  server?: ServerSettings;
+}
+
+
+/** Secret without its value and note, as shown in the tree */
+export interface SecretMetadata {
+  id: string;
+  key: string;
+  projectId: string;
+}
+
+/** One entry of `.bitwarden/secrets.json`: a project that feeds an env file */
+export interface SecretBinding {
+  /** Project name or ID */
+  project: string;
+  /** Folder of the env file, relative to the workspace folder */
+  folder?: string;
+  /** Env file name in the folder, `.env` by default */
+  envFile?: string;
+  /** Key globs to sync; every key when empty */
+  include?: string[];
+  /** Key globs to leave out, applied after `include` */
+  exclude?: string[];
+  /** Env file key to use for a Bitwarden key */
+  rename?: { [bitwardenKey: string]: string };
+  /** Connection profile name; overrides the file's profile */
+  profile?: string;
+}
+
+/** Contents of a `.bitwarden/secrets.json` binding file */
+export interface BindingFile {
+  /** Connection profile name; the active profile when unset */
+  profile?: string;
+  bindings: SecretBinding[];
+}
@@ -0,0 +1,94 @@
+import * as vscode from 'vscode';
+import { SecretEnvironmentService } from '../services/SecretEnvironmentService';
+import { redactionService } from '../services/RedactionService';
+
+/**
+ * Launch configuration properties read by the provider. They can be added to a
+ * configuration of any debug type.
+ */
+export interface BitwardenDebugProperties {
+  /** Names or IDs of the projects whose secrets are added to the environment */
+  bitwardenProjects?: string | string[];
+  /** Key globs; only matching secrets are added */
+  bitwardenKeys?: string[];
+  /** Connection profile to read secrets with; the active profile by default */
+  bitwardenProfile?: string;
+  /** Let secrets replace variables set in `env` */
+  bitwardenOverrideEnv?: boolean;
+}
+
+/**
+ * Debug types whose adapters take the environment as a `{ name, value }` array
+ */
+const ENVIRONMENT_ARRAY_TYPES = ['cppdbg', 'cppvsdbg'];
+
+/**
+ * Adds project secrets to the environment of debug sessions whose launch
+ * configuration has `bitwardenProjects`, when the session starts. Variables in
+ * `env` win over secrets unless `bitwardenOverrideEnv` is set, and secrets win
+ * over `envFile`, since debug adapters apply `env` on top of it.
+ */
+export class BitwardenDebugConfigurationProvider implements vscode.DebugConfigurationProvider {
+  constructor(private secrets: SecretEnvironmentService) {}
+
+  async resolveDebugConfigurationWithSubstitutedVariables(
+    _folder: vscode.WorkspaceFolder | undefined,
+    configuration: vscode.DebugConfiguration
+  ): Promise<vscode.DebugConfiguration | undefined> {
+    const properties = configuration as vscode.DebugConfiguration & BitwardenDebugProperties;
+    if (properties.bitwardenProjects === undefined) {
+      return configuration;
+    }
+
+    const projects = typeof properties.bitwardenProjects === 'string' ? [properties.bitwardenProjects] : properties.bitwardenProjects;
+    const problem = validateProperties(projects, properties.bitwardenKeys);
+    if (problem) {
+      vscode.window.showErrorMessage(`Invalid Bitwarden settings in launch configuration "${configuration.name}": ${problem}`);
+      return undefined;
+    }
+
+    let secrets: { [key: string]: string };
+    try {
+      secrets = await this.secrets.resolve({
+        projects,
+        include: properties.bitwardenKeys,
+        profile: properties.bitwardenProfile
+      });
+    } catch (error) {
+      // Returning undefined stops the launch, so the program never runs without its secrets
+      vscode.window.showErrorMessage(redactionService.redact(`Failed to resolve Bitwarden secrets for "${configuration.name}": ${error instanceof Error ? error.message : error}`));
+      return undefined;
+    }
+
+    const override = properties.bitwardenOverrideEnv === true;
+    if (ENVIRONMENT_ARRAY_TYPES.includes(configuration.type) || Array.isArray(configuration.environment)) {
+      configuration.environment = mergeEnvironmentArray(configuration.environment ?? [], secrets, override);
+    } else {
+      configuration.env = override ? { ...configuration.env, ...secrets } : { ...secrets, ...configuration.env };
+    }
+    return configuration;
+  }
+}
+
+function mergeEnvironmentArray(
+  environment: { name: string; value: string }[],
+  secrets: { [key: string]: string },
+  override: boolean
+): { name: string; value: string }[] {
+  const existing = new Set(environment.map(variable => variable.name));
+  const kept = override ? environment.filter(variable => !Object.prototype.hasOwnProperty.call(secrets, variable.name)) : environment;
+  const added = Object.entries(secrets)
+    .filter(([name]) => override || !existing.has(name))
+    .map(([name, value]) => ({ name, value }));
+  return [...kept, ...added];
+}
+
+function validateProperties(projects: unknown, keys: unknown): string | undefined {
+  if (!Array.isArray(projects) || projects.length === 0 || !projects.every(project => typeof project === 'string' && project.trim() !== '')) {
+    return '"bitwardenProjects" must list at least one project name or ID';
+  }
+  if (keys !== undefined && (!Array.isArray(keys) || !keys.every(key => typeof key === 'string' && key.trim() !== ''))) {
+    return '"bitwardenKeys" must be an array of key globs';
+  }
+  return undefined;
+}
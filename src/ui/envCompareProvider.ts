@@ -0,0 +1,247 @@
+import * as vscode from 'vscode';
+import { ProfileService } from '../services/ProfileService';
+import { EnvCompareEntry, EnvCompareService, EnvCompareSide } from '../services/EnvCompareService';
+import { EnvDocumentService } from '../services/EnvDocumentService';
+import { parseEnvFile, updateDotenv } from '../utils/envFile';
+import { Project, Secret } from '../types';
+
+const REVEALED_CONTEXT_KEY = 'bitwardenSecretsExplorer.compareValuesRevealed';
+
+interface CompareSession {
+  id: string;
+  fileUri: vscode.Uri;
+  project: Project;
+  profileId: string;
+  entries: EnvCompareEntry[];
+}
+
+/**
+ * Serves both sides of a comparison between a local env file and a project as
+ * read-only `bitwarden-compare:` documents, with code lenses to pull or push
+ * single keys. Values are masked until revealed.
+ */
+export class EnvCompareProvider implements vscode.TextDocumentContentProvider, vscode.CodeLensProvider, vscode.Disposable {
+  static readonly scheme = 'bitwarden-compare';
+
+  private sessions = new Map<string, CompareSession>();
+  private nextSessionId = 1;
+  private revealed = false;
+  private disposables: vscode.Disposable[] = [];
+
+  private _onDidChange = new vscode.EventEmitter<vscode.Uri>();
+  readonly onDidChange = this._onDidChange.event;
+
+  private _onDidChangeCodeLenses = new vscode.EventEmitter<void>();
+  readonly onDidChangeCodeLenses = this._onDidChangeCodeLenses.event;
+
+  constructor(private profiles: ProfileService) {
+    this.disposables.push(
+      this._onDidChange,
+      this._onDidChangeCodeLenses,
+      // Saving the local file updates every comparison that shows it
+      vscode.workspace.onDidSaveTextDocument(document => {
+        for (const session of this.sessions.values()) {
+          if (session.fileUri.toString() === document.uri.toString()) {
+            this.refresh(session);
+          }
+        }
+      }),
+      // Forget a comparison once neither of its sides is open
+      vscode.workspace.onDidCloseTextDocument(document => {
+        if (document.uri.scheme !== EnvCompareProvider.scheme) {
+          return;
+        }
+        const open = vscode.workspace.textDocuments.some(other =>
+          other !== document && other.uri.scheme === EnvCompareProvider.scheme && other.uri.query === document.uri.query
+        );
+        if (!open) {
+          this.sessions.delete(document.uri.query);
+        }
+      })
+    );
+  }
+
+  get isRevealed(): boolean {
+    return this.revealed;
+  }
+
+  /**
+   * Open a diff editor with the project on the left and the env file on the right
+   */
+  async open(fileUri: vscode.Uri, project: Project, profileId: string): Promise<void> {
+    const session: CompareSession = { id: String(this.nextSessionId++), fileUri, project, profileId, entries: [] };
+    this.sessions.set(session.id, session);
+
+    const fileName = fileUri.path.substring(fileUri.path.lastIndexOf('/') + 1);
+    await vscode.commands.executeCommand(
+      'vscode.diff',
+      this.uriFor(session, 'remote'),
+      this.uriFor(session, 'local'),
+      `${project.name} (Bitwarden) ↔ ${fileName}`
+    );
+  }
+
+  async setRevealed(revealed: boolean): Promise<void> {
+    this.revealed = revealed;
+    await vscode.commands.executeCommand('setContext', REVEALED_CONTEXT_KEY, revealed);
+    for (const session of this.sessions.values()) {
+      this.refresh(session);
+    }
+  }
+
+  async provideTextDocumentContent(uri: vscode.Uri): Promise<string> {
+    const session = this.sessions.get(uri.query);
+    if (!session) {
+      return '';
+    }
+    session.entries = await this.compare(session);
+    this._onDidChangeCodeLenses.fire();
+    return EnvCompareService.render(session.entries, this.sideOf(uri), this.revealed);
+  }
+
+  provideCodeLenses(document: vscode.TextDocument): vscode.CodeLens[] {
+    const session = this.sessions.get(document.uri.query);
+    if (!session) {
+      return [];
+    }
+
+    const entries = new Map(session.entries.map(entry => [entry.key, entry]));
+    const lenses: vscode.CodeLens[] = [];
+    for (let line = 0; line < document.lineCount; line++) {
+      const key = document.lineAt(line).text.split('=')[0];
+      const entry = entries.get(key);
+      if (!entry || entry.status === 'unchanged') {
+        continue;
+      }
+      const range = new vscode.Range(line, 0, line, 0);
+      if (entry.remote !== undefined) {
+        lenses.push(new vscode.CodeLens(range, {
+          title: '$(arrow-right) Pull into file',
+          command: 'bitwardenSecretsExplorer.pullComparedKey',
+          arguments: [session.id, key]
+        }));
+      }
+      if (entry.local !== undefined) {
+        lenses.push(new vscode.CodeLens(range, {
+          title: '$(arrow-left) Push to Bitwarden',
+          command: 'bitwardenSecretsExplorer.pushComparedKey',
+          arguments: [session.id, key]
+        }));
+      }
+    }
+    return lenses;
+  }
+
+  /**
+   * Write the project's value of a key into the env file, keeping its layout
+   */
+  async pullKey(sessionId: string, key: string): Promise<void> {
+    const session = this.requireSession(sessionId);
+    const secrets = await this.listSecrets(session);
+    const secret = secrets.find(candidate => candidate.key === key);
+    if (!secret) {
+      throw new Error(`${key} is not in project "${session.project.name}"`);
+    }
+
+    const content = await this.readFile(session.fileUri);
+    await vscode.workspace.fs.writeFile(session.fileUri, Buffer.from(updateDotenv(content, { [key]: secret.value }), 'utf8'));
+    this.refresh(session);
+  }
+
+  /**
+   * Set every secret with the key to the env file's value, or create the secret.
+   * Overwriting an existing secret asks for confirmation; false when declined.
+   */
+  async pushKey(sessionId: string, key: string): Promise<boolean> {
+    const session = this.requireSession(sessionId);
+    const local = parseEnvFile(await this.readFile(session.fileUri));
+    if (!Object.prototype.hasOwnProperty.call(local, key)) {
+      throw new Error(`${key} is not in ${vscode.workspace.asRelativePath(session.fileUri)}`);
+    }
+
+    const backend = await this.profiles.getAuthenticatedBackend(session.profileId);
+    const secrets = (await backend.listSecrets(session.project.id)).filter(secret => secret.key === key);
+    // A value that differs from the compared one sets every secret with the key
+    const shown = session.entries.find(entry => entry.key === key)?.remote;
+    const changes = EnvDocumentService.computeChanges(secrets, { [key]: local[key] }, shown === undefined ? {} : { [key]: shown });
+
+    if (changes.updates.length > 0) {
+      const confirm = await vscode.window.showWarningMessage(
+        `Overwrite ${key} in project "${session.project.name}" with the value from ${vscode.workspace.asRelativePath(session.fileUri)}?`,
+        { modal: true },
+        'Push'
+      );
+      if (confirm !== 'Push') {
+        return false;
+      }
+    }
+
+    for (const update of changes.updates) {
+      await backend.updateSecret({
+        id: update.secret.id!,
+        key: update.secret.key,
+        value: update.value,
+        note: update.secret.note ?? '',
+        projectId: update.secret.projectId
+      });
+    }
+    for (const create of changes.creates) {
+      await backend.createSecret({
+        key: create.key,
+        value: create.value,
+        note: `Pushed from ${vscode.workspace.asRelativePath(session.fileUri)}`,
+        projectId: session.project.id
+      });
+    }
+    this.refresh(session);
+    return changes.updates.length + changes.creates.length > 0;
+  }
+
+  dispose(): void {
+    this.sessions.clear();
+    this.disposables.forEach(disposable => disposable.dispose());
+  }
+
+  private async compare(session: CompareSession): Promise<EnvCompareEntry[]> {
+    const local = parseEnvFile(await this.readFile(session.fileUri));
+    return EnvCompareService.compare(local, await this.listSecrets(session));
+  }
+
+  private async listSecrets(session: CompareSession): Promise<Secret[]> {
+    const backend = await this.profiles.getAuthenticatedBackend(session.profileId);
+    return backend.listSecrets(session.project.id);
+  }
+
+  private refresh(session: CompareSession): void {
+    this._onDidChange.fire(this.uriFor(session, 'remote'));
+    this._onDidChange.fire(this.uriFor(session, 'local'));
+  }
+
+  private requireSession(sessionId: string): CompareSession {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      throw new Error('The comparison is no longer open');
+    }
+    return session;
+  }
+
+  private uriFor(session: CompareSession, side: EnvCompareSide): vscode.Uri {
+    const fileName = session.fileUri.path.substring(session.fileUri.path.lastIndexOf('/') + 1);
+    return vscode.Uri.from({ scheme: EnvCompareProvider.scheme, path: `/${side}/${fileName}`, query: session.id });
+  }
+
+  private sideOf(uri: vscode.Uri): EnvCompareSide {
+    return uri.path.startsWith('/local/') ? 'local' : 'remote';
+  }
+
+  /**
+   * Content of the env file; a deleted file compares as empty
+   */
+  private async readFile(uri: vscode.Uri): Promise<string> {
+    try {
+      return Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8');
+    } catch {
+      return '';
+    }
+  }
+}
@@ -2,6 +2,8 @@
  * HTML template utilities for webview content generation
  */
 
+import { ImportPreviewItem, ImportPreviewService, ImportPreviewStatus } from '../services/ImportPreviewService';
+
 /**
  * Common CSS styles for HTML pages
  */
@@ -211,4 +213,151 @@ export function getSecretEditorHtml(secret: any, projects: any[], isNewSecret: b
   `;
   
   return generateHtmlPage(title, getSecretEditorStylesLink(), bodyContent);
-}
\ No newline at end of file
+}
+/**
+ * Escape text for use in HTML content and attributes
+ */
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Import preview specific styles
+ */
+function getImportPreviewStylesLink(): string {
+  return '<link rel="stylesheet" type="text/css" href="{{IMPORT_PREVIEW_CSS_URI}}">';
+}
+
+/**
+ * Generate JavaScript for the import preview
+ */
+function getImportPreviewScript(): string {
+  return `
+    const vscode = acquireVsCodeApi();
+    
+    function checkboxes(status) {
+      const selector = status
+        ? 'tr[data-status="' + status + '"] input[type="checkbox"]:not(:disabled)'
+        : 'input[type="checkbox"]:not(:disabled)';
+      return Array.from(document.querySelectorAll(selector));
+    }
+    
+    function updateCount() {
+      const count = checkboxes().filter(box => box.checked).length;
+      const importBtn = document.getElementById('importBtn');
+      if (importBtn) {
+        importBtn.textContent = 'Import ' + count + ' secret' + (count === 1 ? '' : 's');
+        importBtn.disabled = count === 0;
+      }
+    }
+    
+    function setOverwrites(checked) {
+      checkboxes('changed').concat(checkboxes('conflict')).forEach(box => { box.checked = checked; });
+      updateCount();
+    }
+    
+    document.addEventListener('DOMContentLoaded', () => {
+      checkboxes().forEach(box => box.addEventListener('change', updateCount));
+      
+      const overwriteAllBtn = document.getElementById('overwriteAllBtn');
+      const skipAllBtn = document.getElementById('skipAllBtn');
+      const importBtn = document.getElementById('importBtn');
+      const cancelBtn = document.getElementById('cancelBtn');
+      
+      if (overwriteAllBtn) {
+        overwriteAllBtn.addEventListener('click', () => setOverwrites(true));
+      }
+      
+      if (skipAllBtn) {
+        skipAllBtn.addEventListener('click', () => setOverwrites(false));
+      }
+      
+      if (importBtn) {
+        importBtn.addEventListener('click', () => {
+          const keys = checkboxes().filter(box => box.checked).map(box => box.dataset.key);
+          vscode.postMessage({ command: 'import', keys: keys });
+        });
+      }
+      
+      if (cancelBtn) {
+        cancelBtn.addEventListener('click', () => vscode.postMessage({ command: 'cancel' }));
+      }
+      
+      updateCount();
+    });
+  `;
+}
+
+/**
+ * Generate the import preview HTML. In a dry run the selection is shown but
+ * nothing can be imported.
+ */
+export function getImportPreviewHtml(
+  items: ImportPreviewItem[],
+  source: string,
+  projectName: string,
+  dryRun: boolean
+): string {
+  const statusLabels: Record<ImportPreviewStatus, string> = {
+    new: 'New',
+    changed: 'Changed',
+    unchanged: 'Unchanged',
+    conflict: 'Conflict'
+  };
+  
+  const rows = items.map(item => {
+    const disabled = dryRun || item.status === 'unchanged' ? 'disabled' : '';
+    const checked = item.selected ? 'checked' : '';
+    const title = item.status === 'conflict' ? `title="${item.existing.length} secrets share this key; all of them are updated"` : '';
+    return `
+          <tr data-status="${item.status}">
+            <td><input type="checkbox" data-key="${escapeHtml(item.key)}" ${checked} ${disabled}></td>
+            <td class="key">${escapeHtml(item.key)}</td>
+            <td><span class="status status-${item.status}" ${title}>${statusLabels[item.status]}</span></td>
+            <td class="masked">${escapeHtml(item.before ?? '')}</td>
+            <td class="masked">${escapeHtml(item.after)}</td>
+          </tr>`;
+  }).join('');
+  
+  const actions = dryRun
+    ? `<button class="secondary-button" id="cancelBtn">Close</button>`
+    : `<button class="secondary-button" id="overwriteAllBtn">Overwrite All</button>
+        <button class="secondary-button" id="skipAllBtn">Skip All</button>
+        <span class="spacer"></span>
+        <button class="primary-button" id="importBtn">Import</button>
+        <button class="secondary-button" id="cancelBtn">Cancel</button>`;
+  
+  const bodyContent = `
+    <div class="container">
+      <h2>${dryRun ? 'Dry run: ' : ''}Import ${escapeHtml(source)} into ${escapeHtml(projectName)}</h2>
+      <p class="summary">${escapeHtml(ImportPreviewService.summarize(items))}${dryRun ? ' — no changes will be made' : ''}</p>
+      <table>
+        <thead>
+          <tr>
+            <th></th>
+            <th>Key</th>
+            <th>Status</th>
+            <th>Current value</th>
+            <th>Imported value</th>
+          </tr>
+        </thead>
+        <tbody>${rows}
+        </tbody>
+      </table>
+      <div class="button-group">
+        ${actions}
+      </div>
+    </div>
+    
+    <script>
+      ${getImportPreviewScript()}
+    </script>
+  `;
+  
+  return generateHtmlPage(dryRun ? 'Import Dry Run' : 'Import Preview', getImportPreviewStylesLink(), bodyContent);
+}
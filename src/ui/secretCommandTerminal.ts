@@ -0,0 +1,151 @@
+import * as vscode from 'vscode';
+import { ChildProcess, spawn } from 'child_process';
+import { RedactionService, redactionService } from '../services/RedactionService';
+import { sanitizeProcessEnvironment } from '../utils/processEnvironment';
+import { StreamMasker } from '../utils/secretMasking';
+
+/**
+ * Short held-back output is shown after this much silence, so prompts that
+ * happen to end like the start of a secret are not stuck
+ */
+const FLUSH_DELAY_MS = 100;
+
+/**
+ * How a command is run besides its secrets
+ */
+export interface SecretCommandOptions {
+  /** Variables that are not secrets; they win over secrets with the same name and are not masked */
+  env?: { [key: string]: string };
+  /** Close the terminal with the exit code as soon as the process ends, as tasks need */
+  closeOnExit?: boolean;
+}
+
+/**
+ * A terminal that runs one shell command with secrets in the environment of
+ * its process, masking every known secret value in everything the process
+ * prints. The values never pass through an interactive shell.
+ */
+export class SecretCommandTerminal implements vscode.Pseudoterminal {
+  private writeEmitter = new vscode.EventEmitter<string>();
+  private closeEmitter = new vscode.EventEmitter<number | void>();
+  private exitEmitter = new vscode.EventEmitter<number>();
+  private child?: ChildProcess;
+  private exitCode?: number;
+  private flushTimer?: NodeJS.Timeout;
+  private output: StreamMasker;
+
+  readonly onDidWrite = this.writeEmitter.event;
+  readonly onDidClose = this.closeEmitter.event;
+  /** Fires with the exit code once the process has ended and its output is written */
+  readonly onDidExit = this.exitEmitter.event;
+
+  constructor(
+    private commandLine: string,
+    private secrets: { [key: string]: string },
+    private cwd: string | undefined,
+    private options: SecretCommandOptions = {},
+    redaction: RedactionService = redactionService
+  ) {
+    redaction.remember(secrets);
+    this.output = redaction.createStream();
+  }
+
+  open(): void {
+    this.writeEmitter.fire(`\x1b[2m$ ${this.commandLine}\x1b[0m\r\n`);
+
+    const child = spawn(this.commandLine, {
+      shell: true,
+      cwd: this.cwd,
+      env: { ...sanitizeProcessEnvironment(process.env), ...this.secrets, ...this.options.env },
+      // Its own process group, so everything the command starts can be stopped together
+      detached: process.platform !== 'win32'
+    });
+    this.child = child;
+    child.stdout?.setEncoding('utf8').on('data', (chunk: string) => this.write(chunk));
+    child.stderr?.setEncoding('utf8').on('data', (chunk: string) => this.write(chunk));
+    child.on('error', error => this.finish(1, `Failed to start: ${error.message}`));
+    child.on('close', code => this.finish(code ?? 1));
+  }
+
+  handleInput(data: string): void {
+    if (this.exitCode !== undefined) {
+      this.closeEmitter.fire(this.exitCode);
+      return;
+    }
+    if (data === '\x03') {
+      this.killProcessTree('SIGINT');
+      return;
+    }
+    // The process has no terminal of its own, so typed input is echoed here and sent by line
+    this.writeEmitter.fire(data.replace(/\r/g, '\r\n'));
+    this.child?.stdin?.write(data.replace(/\r/g, '\n'));
+  }
+
+  close(): void {
+    this.clearFlushTimer();
+    if (this.exitCode === undefined) {
+      this.killProcessTree('SIGTERM');
+    }
+  }
+
+  private write(chunk: string): void {
+    this.emit(this.output.push(chunk));
+    this.clearFlushTimer();
+    if (this.output.hasPending) {
+      this.flushTimer = setTimeout(() => this.emit(this.output.releaseIdle()), FLUSH_DELAY_MS);
+    }
+  }
+
+  private finish(code: number, message?: string): void {
+    if (this.exitCode !== undefined) {
+      return;
+    }
+    this.exitCode = code;
+    this.clearFlushTimer();
+    this.emit(this.output.flush());
+    if (message) {
+      this.writeEmitter.fire(`\r\n\x1b[31m${message}\x1b[0m`);
+    }
+    if (this.options.closeOnExit) {
+      this.exitEmitter.fire(code);
+      this.closeEmitter.fire(code);
+      return;
+    }
+    this.writeEmitter.fire(`\r\n\x1b[2mProcess exited with code ${code}. Press any key to close the terminal.\x1b[0m\r\n`);
+    this.exitEmitter.fire(code);
+  }
+
+  /**
+   * Signal the shell and every process the command started, which still have
+   * the secrets in their environment. Windows has no signals, so the tree is ended.
+   */
+  private killProcessTree(signal: NodeJS.Signals): void {
+    const pid = this.child?.pid;
+    if (pid === undefined) {
+      return;
+    }
+    if (process.platform === 'win32') {
+      spawn('taskkill', ['/pid', String(pid), '/T', '/F'], { windowsHide: true }).on('error', () => undefined);
+      return;
+    }
+    try {
+      process.kill(-pid, signal);
+    } catch {
+      // The process group has already exited
+    }
+  }
+
+  private emit(text: string): void {
+    if (text) {
+      // Pseudoterminals need carriage returns to start new lines at the left edge
+      this.writeEmitter.fire(text.replace(/\r?\n/g, '\r\n'));
+    }
+  }
+
+  private clearFlushTimer(): void {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = undefined;
+    }
+  }
+}
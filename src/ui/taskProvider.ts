@@ -0,0 +1,111 @@
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { SecretEnvironmentService } from '../services/SecretEnvironmentService';
+import { redactionService } from '../services/RedactionService';
+import { quotePosix } from '../utils/shellQuoting';
+import { SecretCommandTerminal } from './secretCommandTerminal';
+
+// Arguments made of these characters mean the same to every shell and are not quoted
+const PLAIN_ARGUMENT = /^[\w./:=@+,-]+$/;
+
+/**
+ * A `bitwarden` task in tasks.json: a shell command run with the secrets of
+ * the listed projects in its environment
+ */
+export interface BitwardenTaskDefinition extends vscode.TaskDefinition {
+  projects: string[];
+  command: string;
+  args?: string[];
+  include?: string[];
+  exclude?: string[];
+  profile?: string;
+  cwd?: string;
+  env?: { [key: string]: string };
+}
+
+/**
+ * Resolves `bitwarden` tasks into commands whose environment holds the project
+ * secrets, like `bws run`. Values are passed to the process only and never
+ * reach tasks.json or the terminal's input, and they are masked in its output.
+ */
+export class BitwardenTaskProvider implements vscode.TaskProvider {
+  static readonly type = 'bitwarden';
+
+  constructor(private secrets: SecretEnvironmentService) {}
+
+  provideTasks(): vscode.Task[] {
+    // Bitwarden tasks are defined in tasks.json
+    return [];
+  }
+
+  async resolveTask(task: vscode.Task): Promise<vscode.Task | undefined> {
+    const definition = task.definition as BitwardenTaskDefinition;
+    const problem = validateDefinition(definition);
+    if (problem) {
+      vscode.window.showErrorMessage(`Invalid Bitwarden task "${task.name}": ${problem}`);
+      return undefined;
+    }
+
+    let secrets: { [key: string]: string };
+    try {
+      secrets = await this.secrets.resolve(definition);
+    } catch (error) {
+      vscode.window.showErrorMessage(redactionService.redact(`Failed to resolve Bitwarden task "${task.name}": ${error instanceof Error ? error.message : error}`));
+      return undefined;
+    }
+
+    // The process is started here rather than by a shell execution, since VS Code
+    // substitutes ${...} variables in the environment of those, secrets included.
+    // Only the definition is substituted; variables set in it win over secrets.
+    const folder = typeof task.scope === 'object' ? task.scope.uri.fsPath : vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+    const execution = new vscode.CustomExecution(async resolvedDefinition => {
+      const resolved = resolvedDefinition as BitwardenTaskDefinition;
+      return new SecretCommandTerminal(
+        formatCommandLine(resolved),
+        secrets,
+        resolved.cwd && folder ? path.resolve(folder, resolved.cwd) : resolved.cwd ?? folder,
+        { env: resolved.env, closeOnExit: true }
+      );
+    });
+
+    return new vscode.Task(
+      definition,
+      task.scope ?? vscode.TaskScope.Workspace,
+      task.name,
+      BitwardenTaskProvider.type,
+      execution,
+      task.problemMatchers
+    );
+  }
+}
+
+function validateDefinition(definition: BitwardenTaskDefinition): string | undefined {
+  if (!Array.isArray(definition.projects) || definition.projects.length === 0 || !definition.projects.every(isNonEmptyString)) {
+    return '"projects" must list at least one project name or ID';
+  }
+  if (!isNonEmptyString(definition.command)) {
+    return '"command" is required';
+  }
+  if (definition.args !== undefined && (!Array.isArray(definition.args) || !definition.args.every(arg => typeof arg === 'string'))) {
+    return '"args" must be an array of strings';
+  }
+  return undefined;
+}
+
+/**
+ * The command with its arguments quoted for the shell `spawn` runs it in:
+ * `/bin/sh`, or cmd on Windows
+ */
+function formatCommandLine(definition: BitwardenTaskDefinition): string {
+  const args = (definition.args ?? []).map(arg => {
+    if (PLAIN_ARGUMENT.test(arg)) {
+      return arg;
+    }
+    return process.platform === 'win32' ? `"${arg.replace(/"/g, '""')}"` : quotePosix(arg);
+  });
+  return [definition.command, ...args].join(' ');
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.trim() !== '';
+}
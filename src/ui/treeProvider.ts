@@ -1,5 +1,7 @@
 import * as vscode from 'vscode';
-import { BitwardenSdkService } from '../services/BitwardenSdkService';
+import { SecretsBackend } from '../services/SecretsBackend';
+import { ProfileService } from '../services/ProfileService';
+import { redactionService } from '../services/RedactionService';
 import { Project, Secret } from '../types';
 
 /**
@@ -10,9 +12,10 @@ export class BitwardenSecretItem extends vscode.TreeItem {
     public readonly label: string,
     public readonly description: string | undefined,
     public readonly collapsibleState: vscode.TreeItemCollapsibleState,
-    public readonly type: 'project' | 'secret',
-    public readonly id?: string, // Bitwarden ID (project ID or secret ID)
+    public readonly type: 'organization' | 'project' | 'secret',
+    public readonly id?: string, // Bitwarden ID (organization, project or secret ID)
     public readonly projectId?: string, // Project ID for secrets
+    public readonly profileId?: string, // Connection profile the item was loaded with
   ) {
     super(label, collapsibleState);
     this.tooltip = description; // Show description on hover
@@ -21,7 +24,9 @@ export class BitwardenSecretItem extends vscode.TreeItem {
     this.contextValue = type;
 
     // Set icons
-    if (type === 'project') {
+    if (type === 'organization') {
+      this.iconPath = new vscode.ThemeIcon('organization');
+    } else if (type === 'project') {
       this.iconPath = new vscode.ThemeIcon('folder');
     } else if (type === 'secret') {
       this.iconPath = new vscode.ThemeIcon('key');
@@ -41,17 +46,34 @@ export class BitwardenSecretItem extends vscode.TreeItem {
 export class BitwardenSecretsProvider implements vscode.TreeDataProvider<BitwardenSecretItem> {
   private _onDidChangeTreeData = new vscode.EventEmitter<BitwardenSecretItem | undefined | void>();
   readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
-  public sdkService: BitwardenSdkService;
+  private _onDidLoad = new vscode.EventEmitter<void>();
+  // Fires after projects or secrets were loaded, e.g. to update the cache status
+  readonly onDidLoad = this._onDidLoad.event;
 
-  constructor(private context: vscode.ExtensionContext) {
-    this.sdkService = new BitwardenSdkService();
+  constructor(
+    private context: vscode.ExtensionContext,
+    public readonly profiles: ProfileService
+  ) {}
+
+  /**
+   * Backend of the active profile
+   */
+  get backend(): SecretsBackend {
+    return this.profiles.getBackend();
   }
 
   /**
-   * Refresh the tree view
+   * Backend of the profile an item was loaded with, or of the active profile
    */
-  refresh(): void {
-    this._onDidChangeTreeData.fire();
+  backendFor(item?: BitwardenSecretItem): SecretsBackend {
+    return this.profiles.getBackend(item?.profileId);
+  }
+
+  /**
+   * Refresh the tree view, or only the subtree below the given item
+   */
+  refresh(item?: BitwardenSecretItem): void {
+    this._onDidChangeTreeData.fire(item);
   }
 
   getTreeItem(element: BitwardenSecretItem): vscode.TreeItem {
@@ -59,12 +81,17 @@ export class BitwardenSecretsProvider implements vscode.TreeDataProvider<Bitward
   }
 
   async getChildren(element?: BitwardenSecretItem): Promise<BitwardenSecretItem[]> {
-    const accessToken = await this.getAccessToken();
+    if (!element && this.showOrganizations()) {
+      return this.getOrganizations();
+    }
+
+    const profileId = element?.profileId ?? this.profiles.getActiveProfile().id;
+    const accessToken = await this.getAccessToken(profileId);
     if (!accessToken) {
       return this.createNoTokenItem();
     }
 
-    const authResult = await this.authenticateSDK(accessToken);
+    const authResult = await this.authenticateSDK(profileId, accessToken);
     if (!authResult.success) {
       return authResult.errorItem ? [authResult.errorItem] : [];
     }
@@ -72,11 +99,53 @@ export class BitwardenSecretsProvider implements vscode.TreeDataProvider<Bitward
     return this.getTreeItems(element, accessToken);
   }
 
+  /**
+   * Whether organizations of all profiles are shown as root nodes
+   */
+  private showOrganizations(): boolean {
+    return vscode.workspace.getConfiguration('bitwardenSecretsExplorer.tree').get<boolean>('showOrganizations', false);
+  }
+
+  /**
+   * Build one root node per profile that has an organization configured,
+   * labelled with the organization and described with the profile, so
+   * profiles on the same organization can be told apart
+   */
+  private async getOrganizations(): Promise<BitwardenSecretItem[]> {
+    const organizationItems: BitwardenSecretItem[] = [];
+
+    for (const profile of this.profiles.getProfiles()) {
+      const organizationId = await this.profiles.getOrganizationId(profile.id);
+      const accessToken = await this.profiles.getAccessToken(profile.id);
+      if (!organizationId || !accessToken) {
+        continue;
+      }
+
+      const item = new BitwardenSecretItem(
+        organizationId,
+        profile.name,
+        vscode.TreeItemCollapsibleState.Collapsed,
+        'organization',
+        organizationId,
+        undefined,
+        profile.id
+      );
+      item.tooltip = `Organization: ${organizationId}\nProfile: ${profile.name}`;
+      organizationItems.push(item);
+    }
+
+    if (organizationItems.length === 0) {
+      return this.createNoTokenItem();
+    }
+
+    return organizationItems;
+  }
+
   /**
    * Get the stored access token
    */
-  private async getAccessToken(): Promise<string | undefined> {
-    const accessToken = await this.context.secrets.get('bitwardenAccessToken');
+  private async getAccessToken(profileId: string): Promise<string | undefined> {
+    const accessToken = await this.profiles.getAccessToken(profileId);
     if (!accessToken) {
       vscode.window.showInformationMessage('Bitwarden Access Token not set. Use "Set Bitwarden Access Token" command.');
     }
@@ -102,22 +171,23 @@ export class BitwardenSecretsProvider implements vscode.TreeDataProvider<Bitward
   /**
    * Authenticate with the SDK
    */
-  private async authenticateSDK(accessToken: string): Promise<{ success: boolean; errorItem?: BitwardenSecretItem }> {
+  private async authenticateSDK(profileId: string, accessToken: string): Promise<{ success: boolean; errorItem?: BitwardenSecretItem }> {
+    const backend = this.profiles.getBackend(profileId);
     try {
-      await this.sdkService.testSdkAvailability();
+      await backend.testSdkAvailability();
       
-      if (!this.sdkService.isClientAuthenticated()) {
-        await this.sdkService.authenticate(accessToken);
+      if (!backend.isClientAuthenticated()) {
+        await backend.authenticate(accessToken);
       }
       
-      await this.ensureOrganizationId();
+      await this.ensureOrganizationId(profileId);
       return { success: true };
     } catch (error: any) {
-      vscode.window.showErrorMessage(
+      vscode.window.showErrorMessage(redactionService.redact(
         'Bitwarden SDK authentication failed. ' +
         'Please check your access token. ' +
         'Error: ' + error.message
-      );
+      ));
       const errorItem = new BitwardenSecretItem(
         'Authentication Failed',
         'Check your access token',
@@ -139,9 +209,13 @@ export class BitwardenSecretsProvider implements vscode.TreeDataProvider<Bitward
    */
   private async getTreeItems(element: BitwardenSecretItem | undefined, accessToken: string): Promise<BitwardenSecretItem[]> {
     if (element) {
-      // If an element is provided, it's a project, so get its secrets
+      // Organizations contain projects
+      if (element.type === 'organization') {
+        return this.getProjects(accessToken, element.profileId);
+      }
+      // Projects contain secrets
       if (element.type === 'project' && element.id) {
-        return this.getSecretsForProject(element.id, accessToken);
+        return this.getSecretsForProject(element.id, accessToken, element.profileId);
       }
       // No children for secrets or unknown types - return empty array as secrets don't have children
       return [];
@@ -154,7 +228,7 @@ export class BitwardenSecretsProvider implements vscode.TreeDataProvider<Bitward
   /**
    * Load and return all projects
    */
-  private async getProjects(_accessToken: string): Promise<BitwardenSecretItem[]> {
+  private async getProjects(_accessToken: string, profileId?: string): Promise<BitwardenSecretItem[]> {
     return vscode.window.withProgress({
       location: vscode.ProgressLocation.Window,
       title: 'Loading Bitwarden projects',
@@ -166,11 +240,12 @@ export class BitwardenSecretsProvider implements vscode.TreeDataProvider<Bitward
         progress.report({ increment: 50, message: 'Fetching projects...' });
         
         // Use SDK to list projects
-        const projects = await this.sdkService.listProjects();
+        const projects = await this.profiles.getBackend(profileId).listProjects();
         // Sort projects alphabetically by name
         projects.sort((a, b) => a.name.localeCompare(b.name));
         
         progress.report({ increment: 100, message: 'Complete' });
+        this._onDidLoad.fire();
         
         const projectItems = projects.map((proj) =>
           new BitwardenSecretItem(
@@ -178,7 +253,9 @@ export class BitwardenSecretsProvider implements vscode.TreeDataProvider<Bitward
             undefined, // Hide project ID from display
             vscode.TreeItemCollapsibleState.Collapsed, // Projects can be expanded
             'project',
-            proj.id
+            proj.id,
+            undefined,
+            profileId
           )
         );
         
@@ -198,10 +275,10 @@ export class BitwardenSecretsProvider implements vscode.TreeDataProvider<Bitward
         
         return projectItems;
       } catch (error: any) {
-        vscode.window.showErrorMessage(`Failed to load projects: ${error.message}`);
+        vscode.window.showErrorMessage(redactionService.redact(`Failed to load projects: ${error.message}`));
         const errorItem = new BitwardenSecretItem(
           'Error Loading Projects',
-          error.message,
+          redactionService.redact(error.message),
           vscode.TreeItemCollapsibleState.None,
           'project'
         );
@@ -216,7 +293,7 @@ export class BitwardenSecretsProvider implements vscode.TreeDataProvider<Bitward
   /**
    * Load and return secrets for a specific project
    */
-  public async getSecretsForProject(projectId: string, _accessToken: string): Promise<BitwardenSecretItem[]> {
+  public async getSecretsForProject(projectId: string, _accessToken: string, profileId?: string): Promise<BitwardenSecretItem[]> {
     return vscode.window.withProgress({
       location: vscode.ProgressLocation.Window,
       title: 'Loading project secrets',
@@ -225,8 +302,8 @@ export class BitwardenSecretsProvider implements vscode.TreeDataProvider<Bitward
       try {
         progress.report({ increment: 0, message: 'Fetching secrets...' });
         
-        // Use SDK to list secrets for project
-        const secrets = await this.sdkService.listSecrets(projectId);
+        // Use SDK to list secret keys for project; values are only fetched when needed
+        const secrets = await this.profiles.getBackend(profileId).listSecretMetadata(projectId);
         
         progress.report({ increment: 80, message: 'Sorting secrets...' });
         
@@ -234,6 +311,7 @@ export class BitwardenSecretsProvider implements vscode.TreeDataProvider<Bitward
         secrets.sort((a, b) => a.key.localeCompare(b.key));
         
         progress.report({ increment: 100, message: 'Complete' });
+        this._onDidLoad.fire();
         
         const secretItems = secrets.map((secret) =>
           new BitwardenSecretItem(
@@ -242,7 +320,8 @@ export class BitwardenSecretsProvider implements vscode.TreeDataProvider<Bitward
             vscode.TreeItemCollapsibleState.None, // Secrets don't have children
             'secret',
             secret.id,
-            projectId // Pass project ID for context menu operations
+            projectId, // Pass project ID for context menu operations
+            profileId
           )
         );
         
@@ -262,10 +341,10 @@ export class BitwardenSecretsProvider implements vscode.TreeDataProvider<Bitward
         
         return secretItems;
       } catch (error: any) {
-        vscode.window.showErrorMessage(`Failed to load secrets for project ${projectId}: ${error.message}`);
+        vscode.window.showErrorMessage(redactionService.redact(`Failed to load secrets for project ${projectId}: ${error.message}`));
         const errorItem = new BitwardenSecretItem(
           'Error Loading Secrets',
-          error.message,
+          redactionService.redact(error.message),
           vscode.TreeItemCollapsibleState.None,
           'secret'
         );
@@ -277,15 +356,24 @@ export class BitwardenSecretsProvider implements vscode.TreeDataProvider<Bitward
     });
   }
 
+  /**
+   * Get all secrets of a project including their values, fetched in one
+   * batched (or cached) request instead of one request per secret
+   */
+  public async getProjectSecrets(projectId: string, profileId?: string): Promise<Secret[]> {
+    const secrets = await this.profiles.getBackend(profileId).listSecrets(projectId);
+    return secrets.sort((a, b) => a.key.localeCompare(b.key));
+  }
+
   /**
    * Get the value of a specific secret
    */
-  public async getSecretValue(secretId: string, _accessToken: string): Promise<string | undefined> {
+  public async getSecretValue(secretId: string, _accessToken: string, profileId?: string): Promise<string | undefined> {
     try {
-      const secret = await this.sdkService.getSecret(secretId);
+      const secret = await this.profiles.getBackend(profileId).getSecret(secretId);
       return secret.value;
     } catch (error: any) {
-      vscode.window.showErrorMessage(`Failed to retrieve secret value: ${error.message}`);
+      vscode.window.showErrorMessage(redactionService.redact(`Failed to retrieve secret value: ${error.message}`));
       return undefined;
     }
   }
@@ -293,17 +381,19 @@ export class BitwardenSecretsProvider implements vscode.TreeDataProvider<Bitward
   /**
    * Ensure organization ID is available
    */
-  private async ensureOrganizationId(): Promise<void> {
+  private async ensureOrganizationId(profileId: string): Promise<void> {
+    const backend = this.profiles.getBackend(profileId);
+
     // Check if organization ID is already set in the SDK service
-    if (this.sdkService.getOrganizationId()) {
+    if (backend.getOrganizationId()) {
       return;
     }
 
     // Try to get manually stored organization ID
-    const storedOrgId = await this.context.secrets.get('bitwardenOrganizationId');
+    const storedOrgId = await this.profiles.getOrganizationId(profileId);
     if (storedOrgId) {
       try {
-        this.sdkService.setOrganizationId(storedOrgId);
+        backend.setOrganizationId(storedOrgId);
       } catch (error) {
         throw new Error(`Invalid stored organization ID: ${error}`);
       }
@@ -1,7 +1,9 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
 import { BitwardenSecretsProvider, BitwardenSecretItem } from './treeProvider';
-import { getLoadingHtml, getErrorHtml, getSecretEditorHtml } from './htmlTemplates';
+import { getLoadingHtml, getErrorHtml, getSecretEditorHtml, getImportPreviewHtml } from './htmlTemplates';
+import { ImportPreviewItem } from '../services/ImportPreviewService';
+import { redactionService } from '../services/RedactionService';
 
 // Track open secret editor panels to prevent duplicates
 const openSecretPanels = new Map<string, vscode.WebviewPanel>();
@@ -15,10 +17,12 @@ function replaceCssUris(html: string, webview: vscode.Webview, context: vscode.E
   const mediaPath = path.join(context.extensionPath, 'media');
   const commonCssUri = webview.asWebviewUri(vscode.Uri.file(path.join(mediaPath, 'common.css')));
   const secretEditorCssUri = webview.asWebviewUri(vscode.Uri.file(path.join(mediaPath, 'secret-editor.css')));
+  const importPreviewCssUri = webview.asWebviewUri(vscode.Uri.file(path.join(mediaPath, 'import-preview.css')));
   
   return html
     .replace(/{{COMMON_CSS_URI}}/g, commonCssUri.toString())
-    .replace(/{{SECRET_EDITOR_CSS_URI}}/g, secretEditorCssUri.toString());
+    .replace(/{{SECRET_EDITOR_CSS_URI}}/g, secretEditorCssUri.toString())
+    .replace(/{{IMPORT_PREVIEW_CSS_URI}}/g, importPreviewCssUri.toString());
 }
 
 /**
@@ -65,8 +69,8 @@ export async function openSecretEditor(
   try {
     // Fetch data asynchronously
     const [secretData, projects] = await Promise.all([
-      provider.sdkService.getSecret(item.id!),
-      provider.sdkService.listProjects()
+      provider.backendFor(item).getSecret(item.id!),
+      provider.backendFor(item).listProjects()
     ]);
     
     secret = secretData;
@@ -75,7 +79,7 @@ export async function openSecretEditor(
     panel.title = `Edit Secret: ${secret.key}`;
     panel.webview.html = replaceCssUris(getSecretEditorHtml(secret, projects, false), panel.webview, context);
   } catch (error) {
-    panel.webview.html = replaceCssUris(getErrorHtml(`Failed to load secret: ${error}`), panel.webview, context);
+    panel.webview.html = replaceCssUris(getErrorHtml(redactionService.redact(`Failed to load secret: ${error}`)), panel.webview, context);
     return;
   }
 
@@ -85,7 +89,7 @@ export async function openSecretEditor(
       switch (message.command) {
         case 'save':
           try {
-            await provider.sdkService.updateSecret({
+            await provider.backendFor(item).updateSecret({
               id: secret.id!,
               key: message.data.key,
               value: message.data.value,
@@ -98,7 +102,7 @@ export async function openSecretEditor(
           } catch (error) {
             panel.webview.postMessage({
               command: 'error',
-              message: `Failed to save secret: ${error}`
+              message: redactionService.redact(`Failed to save secret: ${error}`)
             });
           }
           break;
@@ -118,8 +122,11 @@ export async function openSecretEditor(
 export async function openNewSecretEditor(
   context: vscode.ExtensionContext, 
   provider: BitwardenSecretsProvider, 
-  projectId: string
+  projectId: string,
+  profileId?: string
 ): Promise<void> {
+  const backend = provider.profiles.getBackend(profileId);
+
   // Check if a new secret panel for this project is already open
   const existingPanel = openNewSecretPanels.get(projectId);
   if (existingPanel) {
@@ -154,7 +161,7 @@ export async function openNewSecretEditor(
   
   try {
     // Fetch projects asynchronously
-    const projects = await provider.sdkService.listProjects();
+    const projects = await backend.listProjects();
     
     // Create a new secret object with default values
     const newSecret = {
@@ -169,7 +176,7 @@ export async function openNewSecretEditor(
     panel.title = 'Create New Secret';
     panel.webview.html = replaceCssUris(getSecretEditorHtml(newSecret, projects, true), panel.webview, context);
   } catch (error) {
-    panel.webview.html = replaceCssUris(getErrorHtml(`Failed to load projects: ${error}`), panel.webview, context);
+    panel.webview.html = replaceCssUris(getErrorHtml(redactionService.redact(`Failed to load projects: ${error}`)), panel.webview, context);
     return;
   }
 
@@ -179,7 +186,7 @@ export async function openNewSecretEditor(
       switch (message.command) {
         case 'save':
           try {
-            await provider.sdkService.createSecret({
+            await backend.createSecret({
               key: message.data.key,
               value: message.data.value,
               note: message.data.note,
@@ -191,7 +198,7 @@ export async function openNewSecretEditor(
           } catch (error) {
             panel.webview.postMessage({
               command: 'error',
-              message: `Failed to create secret: ${error}`
+              message: redactionService.redact(`Failed to create secret: ${error}`)
             });
           }
           break;
@@ -203,4 +210,53 @@ export async function openNewSecretEditor(
     undefined,
     context.subscriptions
   );
-}
\ No newline at end of file
+}
+/**
+ * Opens the import preview. Resolves with the keys the user chose to import,
+ * or undefined when the preview is cancelled, closed or shown as a dry run.
+ */
+export function openImportPreview(
+  context: vscode.ExtensionContext,
+  items: ImportPreviewItem[],
+  source: string,
+  projectName: string,
+  dryRun: boolean
+): Promise<string[] | undefined> {
+  const panel = vscode.window.createWebviewPanel(
+    'importPreview',
+    dryRun ? `Import Dry Run: ${source}` : `Import Preview: ${source}`,
+    vscode.ViewColumn.One,
+    {
+      enableScripts: true,
+      localResourceRoots: [vscode.Uri.file(path.join(context.extensionPath, 'media'))],
+      portMapping: []
+    }
+  );
+
+  panel.webview.html = replaceCssUris(getImportPreviewHtml(items, source, projectName, dryRun), panel.webview, context);
+
+  return new Promise(resolve => {
+    let selection: string[] | undefined;
+
+    panel.onDidDispose(() => resolve(selection));
+
+    panel.webview.onDidReceiveMessage(
+      (message) => {
+        switch (message.command) {
+          case 'import':
+            if (!dryRun) {
+              const importable = new Set(items.filter(item => item.status !== 'unchanged').map(item => item.key));
+              selection = (message.keys as string[]).filter(key => importable.has(key));
+            }
+            panel.dispose();
+            break;
+          case 'cancel':
+            panel.dispose();
+            break;
+        }
+      },
+      undefined,
+      context.subscriptions
+    );
+  });
+}
@@ -1,5 +1,7 @@
 import * as vscode from 'vscode';
-import { BitwardenSdkService } from '../services/BitwardenSdkService';
+import { ProfileService } from '../services/ProfileService';
+import { ServerConfigService } from '../services/ServerConfigService';
+import { redactionService } from '../services/RedactionService';
 
 /**
  * Welcome view provider that handles different states of the extension
@@ -7,15 +9,12 @@ import { BitwardenSdkService } from '../services/BitwardenSdkService';
 export class BitwardenWelcomeProvider implements vscode.WebviewViewProvider {
   public static readonly viewType = 'bitwardenWelcome';
   private _view?: vscode.WebviewView;
-  private sdkService: BitwardenSdkService;
 
   constructor(
     private readonly _extensionUri: vscode.Uri,
-    private context: vscode.ExtensionContext,
+    private profiles: ProfileService,
     private onStateChange: (hasData: boolean) => void
-  ) {
-    this.sdkService = new BitwardenSdkService();
-  }
+  ) {}
 
   public resolveWebviewView(
     webviewView: vscode.WebviewView,
@@ -43,6 +42,10 @@ export class BitwardenWelcomeProvider implements vscode.WebviewViewProvider {
           await vscode.commands.executeCommand('bitwardenSecretsExplorer.setOrganizationId');
           this.updateView();
           break;
+        case 'selectServer':
+          await vscode.commands.executeCommand('bitwardenSecretsExplorer.selectServer');
+          this.updateView();
+          break;
         case 'checkStatus':
           this.updateView();
           break;
@@ -86,7 +89,7 @@ export class BitwardenWelcomeProvider implements vscode.WebviewViewProvider {
   }> {
     try {
       // Check access token
-      const accessToken = await this.context.secrets.get('bitwardenAccessToken');
+      const accessToken = await this.profiles.getAccessToken();
       const hasAccessToken = !!accessToken;
 
       if (!hasAccessToken) {
@@ -100,7 +103,7 @@ export class BitwardenWelcomeProvider implements vscode.WebviewViewProvider {
       }
 
       // Check organization ID
-      const organizationId = await this.context.secrets.get('bitwardenOrganizationId');
+      const organizationId = await this.profiles.getOrganizationId();
       const hasOrganizationId = !!organizationId;
 
       if (!hasOrganizationId) {
@@ -115,17 +118,18 @@ export class BitwardenWelcomeProvider implements vscode.WebviewViewProvider {
 
       // Test authentication
       try {
-        await this.sdkService.testSdkAvailability();
+        const backend = this.profiles.getBackend();
+        await backend.testSdkAvailability();
         
-        if (!this.sdkService.isClientAuthenticated()) {
-          await this.sdkService.authenticate(accessToken);
+        if (!backend.isClientAuthenticated()) {
+          await backend.authenticate(accessToken);
         }
 
         // Set the organization ID in the SDK service
-        this.sdkService.setOrganizationId(organizationId);
+        backend.setOrganizationId(organizationId);
 
         // Check for projects
-        const projects = await this.sdkService.listProjects();
+        const projects = await backend.listProjects();
         const hasProjects = projects && projects.length > 0;
 
         return {
@@ -142,7 +146,7 @@ export class BitwardenWelcomeProvider implements vscode.WebviewViewProvider {
           isAuthenticated: false,
           hasProjects: false,
           hasData: false,
-          error: error instanceof Error ? error.message : 'Authentication failed'
+          error: error instanceof Error ? redactionService.redact(error.message) : 'Authentication failed'
         };
       }
     } catch (error) {
@@ -152,7 +156,7 @@ export class BitwardenWelcomeProvider implements vscode.WebviewViewProvider {
         isAuthenticated: false,
         hasProjects: false,
         hasData: false,
-        error: error instanceof Error ? error.message : 'Unknown error'
+        error: error instanceof Error ? redactionService.redact(error.message) : 'Unknown error'
       };
     }
   }
@@ -229,6 +233,14 @@ export class BitwardenWelcomeProvider implements vscode.WebviewViewProvider {
                     </div>
                 </div>
             </div>
+
+            <div class="info-box">
+                <h3>Server</h3>
+                <p>${ServerConfigService.describe(this.profiles.getServerSettings())}</p>
+            </div>
+            <div class="action-buttons">
+                <button class="secondary-button" id="selectServerBtn">Change Server</button>
+            </div>
         </div>
 
         <script nonce="${nonce}">
@@ -246,9 +258,21 @@ export class BitwardenWelcomeProvider implements vscode.WebviewViewProvider {
                     }
                 }
                 
+                function selectServer() {
+                    try {
+                        vscode.postMessage({ type: 'selectServer' });
+                    } catch (error) {
+                        console.error('Error sending message:', error);
+                    }
+                }
+                
                 // Function to add event listener
                 function addEventListener() {
                     const button = document.getElementById('setAccessTokenBtn');
+                    const serverButton = document.getElementById('selectServerBtn');
+                    if (serverButton) {
+                        serverButton.addEventListener('click', selectServer);
+                    }
                     if (button) {
                         button.addEventListener('click', setAccessToken);
 
@@ -397,10 +421,12 @@ export class BitwardenWelcomeProvider implements vscode.WebviewViewProvider {
             <h2>Authentication Error</h2>
             <p>There was an issue authenticating with Bitwarden.</p>
             ${error ? `<div class="error-message">${error}</div>` : ''}
+            <p>Server: ${ServerConfigService.describe(this.profiles.getServerSettings())}</p>
             
             <div class="action-buttons">
                 <button class="primary-button" id="updateAccessTokenBtn">Update Access Token</button>
                 <button class="secondary-button" id="updateOrganizationIdBtn">Update Organization ID</button>
+                <button class="secondary-button" id="selectServerBtn">Change Server</button>
                 <button class="secondary-button" id="tryAgainBtn">Try Again</button>
             </div>
         </div>
@@ -430,6 +456,14 @@ export class BitwardenWelcomeProvider implements vscode.WebviewViewProvider {
                     }
                 }
                 
+                function selectServer() {
+                    try {
+                        vscode.postMessage({ type: 'selectServer' });
+                    } catch (error) {
+                        console.error('Error sending message:', error);
+                    }
+                }
+                
                 function checkStatus() {
 
                     try {
@@ -445,6 +479,11 @@ export class BitwardenWelcomeProvider implements vscode.WebviewViewProvider {
                     const updateAccessTokenBtn = document.getElementById('updateAccessTokenBtn');
                     const updateOrganizationIdBtn = document.getElementById('updateOrganizationIdBtn');
                     const tryAgainBtn = document.getElementById('tryAgainBtn');
+                    const selectServerBtn = document.getElementById('selectServerBtn');
+                    
+                    if (selectServerBtn) {
+                        selectServerBtn.addEventListener('click', selectServer);
+                    }
                     
                     if (updateAccessTokenBtn) {
                         updateAccessTokenBtn.addEventListener('click', setAccessToken);
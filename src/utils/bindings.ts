@@ -0,0 +1,161 @@
+import { BindingFile, Secret, SecretBinding } from '../types';
+import { isValidEnvKey } from './envFile';
+import { parseJsonc } from './jsonc';
+
+/**
+ * Location of the binding file in a workspace folder
+ */
+export const BINDING_FILE_PATH = '.bitwarden/secrets.json';
+
+const BINDING_PROPERTIES = ['project', 'folder', 'envFile', 'include', 'exclude', 'rename', 'profile'];
+
+/**
+ * Parse and validate a binding file. Every problem is reported, so the file can
+ * be fixed in one go; `file` is only set when there are none.
+ */
+export function parseBindingFile(text: string): { file?: BindingFile; errors: string[] } {
+  let data: any;
+  try {
+    data = parseJsonc(text);
+  } catch (error) {
+    return { errors: [`Invalid JSON: ${error instanceof Error ? error.message : error}`] };
+  }
+
+  const errors: string[] = [];
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    return { errors: ['Expected an object with a "bindings" array'] };
+  }
+  if (data.profile !== undefined && !isNonEmptyString(data.profile)) {
+    errors.push('"profile" must be a non-empty string');
+  }
+  if (!Array.isArray(data.bindings)) {
+    return { errors: [...errors, 'Expected a "bindings" array'] };
+  }
+
+  data.bindings.forEach((binding: any, index: number) => {
+    const at = `bindings[${index}]`;
+    if (typeof binding !== 'object' || binding === null || Array.isArray(binding)) {
+      errors.push(`${at} must be an object`);
+      return;
+    }
+    for (const property of Object.keys(binding)) {
+      if (!BINDING_PROPERTIES.includes(property)) {
+        errors.push(`${at} has unknown property "${property}"`);
+      }
+    }
+    if (!isNonEmptyString(binding.project)) {
+      errors.push(`${at}.project must be a project name or ID`);
+    }
+    for (const property of ['folder', 'envFile', 'profile']) {
+      if (binding[property] !== undefined && !isNonEmptyString(binding[property])) {
+        errors.push(`${at}.${property} must be a non-empty string`);
+      }
+    }
+    if (isNonEmptyString(binding.folder) && !isRelativePath(binding.folder)) {
+      errors.push(`${at}.folder must be a path inside the workspace folder`);
+    }
+    if (isNonEmptyString(binding.envFile) && !isRelativePath(binding.envFile)) {
+      errors.push(`${at}.envFile must be a path inside the folder`);
+    }
+    for (const property of ['include', 'exclude']) {
+      const globs = binding[property];
+      if (globs !== undefined && (!Array.isArray(globs) || !globs.every(isNonEmptyString))) {
+        errors.push(`${at}.${property} must be an array of key globs`);
+      }
+    }
+    if (binding.rename !== undefined) {
+      const rename = binding.rename;
+      if (typeof rename !== 'object' || rename === null || Array.isArray(rename) || !Object.values(rename).every(isNonEmptyString)) {
+        errors.push(`${at}.rename must map Bitwarden keys to env file keys`);
+      } else {
+        for (const [key, target] of Object.entries(rename as { [key: string]: string })) {
+          if (!isValidEnvKey(target)) {
+            errors.push(`${at}.rename maps "${key}" to "${target}", which is not a valid .env key`);
+          }
+        }
+        const targets = Object.values(rename) as string[];
+        const duplicates = targets.filter((target, i) => targets.indexOf(target) !== i);
+        if (duplicates.length > 0) {
+          errors.push(`${at}.rename maps several keys to "${duplicates[0]}"`);
+        }
+      }
+    }
+  });
+
+  // Two bindings writing the same file would overwrite each other's values
+  const targets = data.bindings
+    .filter((binding: any) => binding && typeof binding === 'object')
+    .map((binding: any) => envFilePath(binding));
+  const duplicate = targets.find((target: string, i: number) => targets.indexOf(target) !== i);
+  if (duplicate) {
+    errors.push(`Several bindings write ${duplicate}`);
+  }
+
+  return errors.length > 0 ? { errors } : { file: data as BindingFile, errors };
+}
+
+/**
+ * Path of the binding's env file relative to the workspace folder
+ */
+export function envFilePath(binding: SecretBinding): string {
+  const folder = (binding.folder ?? '.').replace(/\\/g, '/').replace(/^\.\/?|\/$/g, '');
+  const envFile = binding.envFile ?? '.env';
+  return folder ? `${folder}/${envFile}` : envFile;
+}
+
+/**
+ * Whether a Bitwarden key passes the binding's include and exclude globs
+ */
+export function isKeyBound(binding: Pick<SecretBinding, 'include' | 'exclude'>, key: string): boolean {
+  const included = !binding.include || binding.include.length === 0 || binding.include.some(glob => matchesKeyGlob(key, glob));
+  return included && !(binding.exclude ?? []).some(glob => matchesKeyGlob(key, glob));
+}
+
+/**
+ * `*` matches any run of characters and `?` a single one
+ */
+export function matchesKeyGlob(key: string, glob: string): boolean {
+  const pattern = glob.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*').replace(/\?/g, '.');
+  return new RegExp(`^${pattern}$`).test(key);
+}
+
+/**
+ * Env file values for the bound secrets of a project, using renamed keys.
+ * When several secrets share a key the first one is used.
+ */
+export function toEnvValues(binding: SecretBinding, secrets: Secret[]): { [envKey: string]: string } {
+  const values: { [envKey: string]: string } = {};
+  for (const secret of [...secrets].sort((a, b) => a.key.localeCompare(b.key))) {
+    const envKey = binding.rename?.[secret.key] ?? secret.key;
+    if (isKeyBound(binding, secret.key) && !Object.prototype.hasOwnProperty.call(values, envKey)) {
+      values[envKey] = secret.value;
+    }
+  }
+  return values;
+}
+
+/**
+ * Bitwarden keys and values for the bound entries of an env file, undoing renames
+ */
+export function fromEnvValues(binding: SecretBinding, envValues: { [envKey: string]: string }): { [bitwardenKey: string]: string } {
+  const originalKeys = new Map(Object.entries(binding.rename ?? {}).map(([key, envKey]) => [envKey, key]));
+  const values: { [bitwardenKey: string]: string } = {};
+  for (const [envKey, value] of Object.entries(envValues)) {
+    const key = originalKeys.get(envKey) ?? envKey;
+    // A renamed key's original name in the file does not belong to the binding
+    const shadowed = !originalKeys.has(envKey) && binding.rename?.[envKey] !== undefined;
+    if (isKeyBound(binding, key) && !shadowed) {
+      values[key] = value;
+    }
+  }
+  return values;
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.trim() !== '';
+}
+
+function isRelativePath(path: string): boolean {
+  const normalized = path.replace(/\\/g, '/');
+  return !normalized.startsWith('/') && !/^[A-Za-z]:/.test(normalized) && !normalized.split('/').includes('..');
+}
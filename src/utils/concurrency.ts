@@ -0,0 +1,40 @@
+/**
+ * Split an array into chunks of at most `size` items
+ * @param items The items to split
+ * @param size Maximum number of items per chunk
+ * @returns The chunks, in order
+ */
+export function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+/**
+ * Map over items with at most `limit` calls of `fn` in flight at once
+ * @param items The items to map
+ * @param limit Maximum number of concurrent calls
+ * @param fn The async mapping function
+ * @returns The results, in the order of the input items
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async (): Promise<void> => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  const workers = Array.from({ length: Math.min(Math.max(limit, 1), items.length) }, () => worker());
+  await Promise.all(workers);
+  return results;
+}
@@ -0,0 +1,294 @@
+export interface DotenvEntry {
+  key: string;
+  value: string;
+  /** 1-based line the entry starts on */
+  line: number;
+  /** 1-based line the entry ends on; differs from `line` for multiline values */
+  endLine: number;
+  exported: boolean;
+  quote?: '"' | "'" | '`';
+  /** Inline comment after the value, including the whitespace before it */
+  comment?: string;
+}
+
+export interface DotenvDiagnostic {
+  /** 1-based line number */
+  line: number;
+  message: string;
+  severity: 'error' | 'warning';
+}
+
+export interface DotenvParseResult {
+  entries: DotenvEntry[];
+  /** Final value per key; later definitions win */
+  values: { [key: string]: string };
+  diagnostics: DotenvDiagnostic[];
+}
+
+const KEY_PATTERN = /^[A-Za-z0-9_.-]+$/;
+const EXPORT_PREFIX = /^export\s+/;
+const DOUBLE_QUOTE_ESCAPES: { [char: string]: string } = { n: '\n', r: '\r', t: '\t', '"': '"', '\\': '\\', '$': '$' };
+
+/**
+ * Parse dotenv content. Supports `export` prefixes, single, double and backtick
+ * quoting (all of which may span lines), escape sequences in double quotes,
+ * inline `#` comments after whitespace, and BOM/CRLF input. Malformed lines
+ * are skipped and reported as diagnostics.
+ */
+export function parseDotenv(content: string): DotenvParseResult {
+  const lines = content.replace(/^\uFEFF/, '').split(/\r\n|\r|\n/);
+  const result: DotenvParseResult = { entries: [], values: {}, diagnostics: [] };
+  const definedOn = new Map<string, number>();
+
+  let index = 0;
+  while (index < lines.length) {
+    const lineNumber = index + 1;
+    // Keep trailing whitespace, it belongs to a quoted value continuing on the next line
+    let rest = lines[index].trimStart();
+    index++;
+
+    if (!rest.trim() || rest.startsWith('#')) {
+      continue;
+    }
+
+    const exported = EXPORT_PREFIX.test(rest);
+    if (exported) {
+      rest = rest.replace(EXPORT_PREFIX, '');
+    }
+
+    const equalIndex = rest.indexOf('=');
+    if (equalIndex < 0) {
+      result.diagnostics.push({ line: lineNumber, message: `Expected KEY=value, found "${truncate(rest.trim())}"`, severity: 'error' });
+      continue;
+    }
+
+    const key = rest.substring(0, equalIndex).trim();
+    if (!KEY_PATTERN.test(key)) {
+      const message = key ? `Invalid key "${truncate(key)}"` : 'Missing key before "="';
+      result.diagnostics.push({ line: lineNumber, message, severity: 'error' });
+      continue;
+    }
+
+    const rawValue = rest.substring(equalIndex + 1).trimStart();
+    const quote = rawValue[0];
+    let value: string;
+    let comment: string | undefined;
+    let endLine = lineNumber;
+
+    if (quote === '"' || quote === "'" || quote === '`') {
+      // Collect lines until the closing quote; the value may span lines
+      let text = rawValue.substring(1);
+      let close = findClosingQuote(text, quote);
+      while (close < 0 && index < lines.length) {
+        text += '\n' + lines[index];
+        index++;
+        endLine++;
+        close = findClosingQuote(text, quote);
+      }
+
+      if (close < 0) {
+        result.diagnostics.push({ line: lineNumber, message: `Unterminated ${quoteName(quote)} value for "${key}"`, severity: 'error' });
+        // Resume right after the opening line so later entries are still read
+        index = lineNumber;
+        continue;
+      }
+
+      const trailing = text.substring(close + 1);
+      if (trailing.trim() && !trailing.trim().startsWith('#')) {
+        result.diagnostics.push({ line: endLine, message: `Unexpected characters after closing quote of "${key}"`, severity: 'error' });
+        continue;
+      }
+
+      const quoted = text.substring(0, close);
+      value = quote === '"' ? unescapeDoubleQuoted(quoted) : quoted;
+      comment = trailing.trim() ? trailing.trimEnd() : undefined;
+    } else {
+      const commentMatch = /\s#/.exec(rawValue);
+      value = (commentMatch ? rawValue.substring(0, commentMatch.index) : rawValue).trim();
+      comment = commentMatch ? rawValue.substring(value.length).trimEnd() : undefined;
+    }
+
+    const previous = definedOn.get(key);
+    if (previous !== undefined) {
+      result.diagnostics.push({ line: lineNumber, message: `"${key}" is already defined on line ${previous}; this definition wins`, severity: 'warning' });
+    }
+    definedOn.set(key, lineNumber);
+
+    result.entries.push({
+      key,
+      value,
+      line: lineNumber,
+      endLine,
+      exported,
+      quote: quote === '"' || quote === "'" || quote === '`' ? quote : undefined,
+      comment
+    });
+    result.values[key] = value;
+  }
+
+  return result;
+}
+
+/**
+ * Whether a key can be written to and read back from a .env file
+ */
+export function isValidEnvKey(key: string): boolean {
+  return KEY_PATTERN.test(key);
+}
+
+/**
+ * Parse existing .env file content into key-value pairs
+ */
+export function parseEnvFile(content: string): { [key: string]: string } {
+  return parseDotenv(content).values;
+}
+
+/**
+ * Quote a value when it would not survive being written unquoted
+ */
+export function formatEnvValue(value: string): string {
+  const needsQuotes = value !== value.trim() || /[\r\n]/.test(value) || /^["'`]/.test(value) || /\s#/.test(value);
+  if (!needsQuotes) {
+    return value;
+  }
+  return `"${escapeDoubleQuoted(value)}"`;
+}
+
+function escapeDoubleQuoted(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, '\\n')
+    .replace(/\r/g, '\\r');
+}
+
+/**
+ * Format .env file content from key-value pairs. Keys that are not valid .env
+ * keys are skipped, as they would not read back; callers report them.
+ */
+export function formatEnvFile(data: { [key: string]: string }): string {
+  return Object.entries(data)
+    .filter(([key]) => isValidEnvKey(key))
+    .map(([key, value]) => `${key}=${formatEnvValue(value)}`)
+    .join('\n');
+}
+
+/**
+ * Marks the section that new keys are appended to
+ */
+export const ADDED_SECTION_MARKER = '# Added by Bitwarden Secrets Explorer';
+
+/**
+ * Set keys in existing dotenv content while preserving comments, blank lines,
+ * ordering, `export` prefixes, quote styles and line endings. Existing keys are
+ * updated in place (their last definition, which is the effective one); new keys
+ * are appended below `ADDED_SECTION_MARKER`. Keys that are not valid .env keys
+ * are skipped like in `formatEnvFile`.
+ */
+export function updateDotenv(content: string, updates: { [key: string]: string }): string {
+  const bom = content.startsWith('\uFEFF') ? '\uFEFF' : '';
+  const body = content.substring(bom.length);
+  const eol = body.includes('\r\n') ? '\r\n' : '\n';
+  const lines = body.length > 0 ? body.split(/\r\n|\r|\n/) : [];
+  const hadFinalNewline = lines.length > 0 && lines[lines.length - 1] === '';
+  if (hadFinalNewline) {
+    lines.pop();
+  }
+
+  const lastEntry = new Map<string, DotenvEntry>();
+  for (const entry of parseDotenv(body).entries) {
+    lastEntry.set(entry.key, entry);
+  }
+
+  const keys = Object.keys(updates).filter(isValidEnvKey);
+
+  // Replace existing entries bottom-up so earlier line numbers stay valid
+  const replacements = keys
+    .filter(key => lastEntry.has(key))
+    .map(key => lastEntry.get(key)!)
+    .sort((a, b) => b.line - a.line);
+  for (const entry of replacements) {
+    const original = lines[entry.line - 1];
+    const prefix = /^\s*(?:export\s+)?[^=]*=\s*/.exec(original)![0];
+    const line = `${prefix}${formatEnvValueLike(updates[entry.key], entry.quote)}${entry.comment ?? ''}`;
+    lines.splice(entry.line - 1, entry.endLine - entry.line + 1, line);
+  }
+
+  const additions = keys
+    .filter(key => !lastEntry.has(key))
+    .map(key => `${key}=${formatEnvValue(updates[key])}`);
+  if (additions.length > 0) {
+    const markerIndex = lines.lastIndexOf(ADDED_SECTION_MARKER);
+    if (markerIndex >= 0) {
+      // Append to the end of the existing section, which ends at a blank line
+      let end = markerIndex + 1;
+      while (end < lines.length && lines[end].trim() !== '') {
+        end++;
+      }
+      lines.splice(end, 0, ...additions);
+    } else {
+      while (lines.length > 0 && lines[lines.length - 1].trim() === '') {
+        lines.pop();
+      }
+      if (lines.length > 0) {
+        lines.push('');
+      }
+      lines.push(ADDED_SECTION_MARKER, ...additions);
+    }
+  }
+
+  const newline = hadFinalNewline || content.length === 0 ? eol : '';
+  return bom + lines.join(eol) + (lines.length > 0 ? newline : '');
+}
+
+/**
+ * Format a value in the quote style of the value it replaces, when that style can hold it
+ */
+function formatEnvValueLike(value: string, quote: DotenvEntry['quote']): string {
+  if (quote === '"') {
+    return `"${escapeDoubleQuoted(value)}"`;
+  }
+  if ((quote === "'" || quote === '`') && !value.includes(quote) && !/[\r\n]/.test(value)) {
+    return `${quote}${value}${quote}`;
+  }
+  return formatEnvValue(value);
+}
+
+/**
+ * Summarize error diagnostics for a notification
+ */
+export function describeDiagnostics(diagnostics: (Omit<DotenvDiagnostic, 'line'> & { line?: number })[], limit = 3): string {
+  const errors = diagnostics.filter(diagnostic => diagnostic.severity === 'error');
+  const shown = errors.slice(0, limit).map(diagnostic =>
+    diagnostic.line !== undefined ? `line ${diagnostic.line}: ${diagnostic.message}` : diagnostic.message
+  );
+  if (errors.length > limit) {
+    shown.push(`and ${errors.length - limit} more`);
+  }
+  return shown.join('; ');
+}
+
+function findClosingQuote(text: string, quote: string): number {
+  for (let i = 0; i < text.length; i++) {
+    if (quote === '"' && text[i] === '\\') {
+      i++;
+      continue;
+    }
+    if (text[i] === quote) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+function unescapeDoubleQuoted(text: string): string {
+  return text.replace(/\\(.)/gs, (match, char: string) => DOUBLE_QUOTE_ESCAPES[char] ?? match);
+}
+
+function quoteName(quote: string): string {
+  return quote === '"' ? 'double-quoted' : quote === "'" ? 'single-quoted' : 'backtick-quoted';
+}
+
+function truncate(text: string, length = 40): string {
+  return text.length > length ? `${text.substring(0, length)}…` : text;
+}
@@ -0,0 +1,107 @@
+interface GitignoreRule {
+  pattern: RegExp;
+  negate: boolean;
+  directoryOnly: boolean;
+}
+
+/**
+ * Matches paths against the patterns of one `.gitignore` file. Paths are
+ * relative to the directory of the file and use `/` separators.
+ */
+export class GitignoreMatcher {
+  private rules: GitignoreRule[];
+
+  constructor(content: string) {
+    this.rules = content.split(/\r?\n/).map(parseRule).filter((rule): rule is GitignoreRule => rule !== undefined);
+  }
+
+  /**
+   * Whether the path is ignored or re-included by this file, or undefined when
+   * no pattern matches it; the last matching pattern wins
+   */
+  ignores(relativePath: string, isDirectory: boolean): boolean | undefined {
+    let result: boolean | undefined;
+    for (const rule of this.rules) {
+      if (rule.directoryOnly && !isDirectory) {
+        continue;
+      }
+      if (rule.pattern.test(relativePath)) {
+        result = !rule.negate;
+      }
+    }
+    return result;
+  }
+}
+
+function parseRule(line: string): GitignoreRule | undefined {
+  // Trailing spaces are ignored unless escaped
+  let text = line.replace(/(?<!\\)\s+$/, '');
+  if (!text || text.startsWith('#')) {
+    return undefined;
+  }
+
+  const negate = text.startsWith('!');
+  if (negate) {
+    text = text.substring(1);
+  }
+  text = text.replace(/^\\([#!])/, '$1');
+
+  const directoryOnly = text.endsWith('/');
+  if (directoryOnly) {
+    text = text.substring(0, text.length - 1);
+  }
+  // A slash anywhere but the end anchors the pattern to the .gitignore directory
+  const anchored = text.includes('/');
+  text = text.replace(/^\//, '');
+  if (!text) {
+    return undefined;
+  }
+
+  const body = globToRegExp(text);
+  return {
+    pattern: new RegExp(anchored ? `^${body}$` : `^(?:.*/)?${body}$`),
+    negate,
+    directoryOnly
+  };
+}
+
+function globToRegExp(glob: string): string {
+  let result = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*' && glob[i + 1] === '*') {
+      const atStart = i === 0 || glob[i - 1] === '/';
+      const atEnd = i + 2 === glob.length || glob[i + 2] === '/';
+      if (atStart && atEnd) {
+        // `**/` matches any number of directories, a trailing `**` everything inside
+        result += i + 2 === glob.length ? '.*' : '(?:.*/)?';
+        i += 2;
+        continue;
+      }
+      result += '[^/]*';
+      i++;
+    } else if (char === '*') {
+      result += '[^/]*';
+    } else if (char === '?') {
+      result += '[^/]';
+    } else if (char === '[') {
+      const end = glob.indexOf(']', i + 2);
+      if (end < 0) {
+        result += '\\[';
+        continue;
+      }
+      const range = glob.substring(i + 1, end).replace(/^!/, '^').replace(/\\/g, '\\\\');
+      result += `[${range}]`;
+      i = end;
+    } else if (char === '\\' && i + 1 < glob.length) {
+      result += escapeRegExp(glob[++i]);
+    } else {
+      result += escapeRegExp(char);
+    }
+  }
+  return result;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+}
@@ -0,0 +1,50 @@
+/**
+ * Parse JSON that may contain comments and trailing commas, as found in
+ * `appsettings.json` and VS Code style configuration files
+ */
+export function parseJsonc(text: string): unknown {
+  return JSON.parse(stripJsonc(text.replace(/^\uFEFF/, '')));
+}
+
+/**
+ * Remove `//` and `/* *\/` comments and trailing commas outside strings.
+ * Comments are replaced by spaces so error positions stay meaningful.
+ */
+function stripJsonc(text: string): string {
+  let result = '';
+  let i = 0;
+
+  while (i < text.length) {
+    const char = text[i];
+
+    if (char === '"') {
+      const start = i++;
+      while (i < text.length && text[i] !== '"') {
+        i += text[i] === '\\' ? 2 : 1;
+      }
+      result += text.substring(start, ++i);
+    } else if (char === '/' && text[i + 1] === '/') {
+      const end = text.indexOf('\n', i);
+      const stop = end < 0 ? text.length : end;
+      result += ' '.repeat(stop - i);
+      i = stop;
+    } else if (char === '/' && text[i + 1] === '*') {
+      const end = text.indexOf('*/', i + 2);
+      const stop = end < 0 ? text.length : end + 2;
+      result += text.substring(i, stop).replace(/[^\n]/g, ' ');
+      i = stop;
+    } else if (char === ',' && /^\s*[\]}]/.test(stripLeadingComments(text.substring(i + 1)))) {
+      result += ' ';
+      i++;
+    } else {
+      result += char;
+      i++;
+    }
+  }
+
+  return result;
+}
+
+function stripLeadingComments(text: string): string {
+  return text.replace(/^(\s*(\/\/[^\n]*|\/\*[\s\S]*?\*\/))*/, '');
+}
@@ -0,0 +1,25 @@
+/**
+ * Variables of the extension host that must not reach processes started for
+ * the user, as VS Code removes them for its integrated terminals: they make
+ * Electron apps (including `code`) run as plain Node or talk to the wrong
+ * VS Code process. The variables that configure terminal shells are kept.
+ */
+const HOST_VARIABLES = [
+  /^ELECTRON_.+$/,
+  /^VSCODE_(?!(PORTABLE|SHELL_LOGIN|ENV_REPLACE|ENV_APPEND|ENV_PREPEND)$).+$/,
+  /^SNAP(|_.*)$/,
+  /^GDK_PIXBUF_.+$/
+];
+
+/**
+ * A copy of the environment without the extension host's own variables
+ */
+export function sanitizeProcessEnvironment(env: NodeJS.ProcessEnv): NodeJS.ProcessEnv {
+  const sanitized: NodeJS.ProcessEnv = {};
+  for (const [key, value] of Object.entries(env)) {
+    if (!HOST_VARIABLES.some(pattern => pattern.test(key))) {
+      sanitized[key] = value;
+    }
+  }
+  return sanitized;
+}
@@ -0,0 +1,193 @@
+/**
+ * Values shorter than this are not masked: replacing every `1` or `on` in
+ * output would garble it without protecting anything
+ */
+export const MIN_MASKED_LENGTH = 4;
+
+/**
+ * Plain words and numbers shorter than this, such as `prod`, `none` or `2024`,
+ * are not masked either; they are common in ordinary output
+ */
+export const MIN_PLAIN_MASKED_LENGTH = 8;
+
+/**
+ * Whether a value is distinctive enough to be masked wherever it appears
+ */
+export function isMaskable(value: string): boolean {
+  if (value.length < MIN_MASKED_LENGTH) {
+    return false;
+  }
+  return value.length >= MIN_PLAIN_MASKED_LENGTH || !/^(?:[A-Za-z]+|[0-9]+)$/.test(value);
+}
+
+/**
+ * The text that replaces the value of a secret
+ */
+export function maskFor(key: string): string {
+  return `••••(${key})`;
+}
+
+interface MaskRule {
+  value: string;
+  mask: string;
+}
+
+export interface ValueMatch {
+  index: number;
+  length: number;
+  mask: string;
+}
+
+/**
+ * Replaces known secret values in text. When several keys share a value the
+ * first key names the mask; longer values are replaced before values they contain.
+ */
+export class SecretMasker {
+  private rules: MaskRule[] = [];
+  private masks = new Map<string, string>();
+  private pattern?: RegExp;
+
+  constructor(secrets: { [key: string]: string } | [string, string][] = {}) {
+    this.setSecrets(secrets);
+  }
+
+  /**
+   * Replace the known values. A list of key and value pairs can hold several values per key.
+   */
+  setSecrets(secrets: { [key: string]: string } | [string, string][]): void {
+    const masks = new Map<string, string>();
+    for (const [key, value] of Array.isArray(secrets) ? secrets : Object.entries(secrets)) {
+      if (isMaskable(value) && !masks.has(value)) {
+        masks.set(value, maskFor(key));
+      }
+    }
+    this.masks = masks;
+    this.rules = [...masks].map(([value, mask]) => ({ value, mask })).sort((a, b) => b.value.length - a.value.length);
+    this.pattern = this.rules.length > 0
+      ? new RegExp(this.rules.map(rule => escapeRegExp(rule.value)).join('|'), 'g')
+      : undefined;
+  }
+
+  get isEmpty(): boolean {
+    return this.rules.length === 0;
+  }
+
+  get longestValue(): number {
+    return this.rules[0]?.value.length ?? 0;
+  }
+
+  mask(text: string): string {
+    if (!this.pattern) {
+      return text;
+    }
+    return text.replace(this.pattern, value => this.masks.get(value)!);
+  }
+
+  /**
+   * Every value in the text, from left to right
+   */
+  findValues(text: string): ValueMatch[] {
+    if (!this.pattern) {
+      return [];
+    }
+    return [...text.matchAll(this.pattern)].map(match => ({
+      index: match.index!,
+      length: match[0].length,
+      mask: this.masks.get(match[0])!
+    }));
+  }
+
+  /**
+   * The longest end of the text that could be the start of a value, with the
+   * mask of that value
+   */
+  partialMatch(text: string): { length: number; mask: string } | undefined {
+    for (let length = Math.min(text.length, this.longestValue - 1); length > 0; length--) {
+      const tail = text.substring(text.length - length);
+      const rule = this.rules.find(candidate => candidate.value.length > length && candidate.value.startsWith(tail));
+      if (rule) {
+        return { length, mask: rule.mask };
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Length of the longest end of the text that could be the start of a value
+   */
+  partialMatchLength(text: string): number {
+    return this.partialMatch(text)?.length ?? 0;
+  }
+}
+
+/**
+ * Masks a stream of text chunks. The end of a chunk that could be the start of
+ * a value is held back until the next chunk shows whether it is one, so values
+ * split across chunks are still masked. Held text shown after a pause is kept
+ * for matching, so the rest of a value that completes it is still masked.
+ */
+export class StreamMasker {
+  /** Held text that has been shown by `releaseIdle` */
+  private shown = '';
+  /** Held text that has not been shown */
+  private pending = '';
+
+  constructor(private masker: SecretMasker) {}
+
+  /**
+   * Text of the chunk that is safe to show now
+   */
+  push(chunk: string): string {
+    const text = this.shown + this.pending + chunk;
+    const shownLength = this.shown.length;
+
+    let output = '';
+    let position = 0;
+    for (const match of this.masker.findValues(text)) {
+      // A value that started in shown text is masked from where the shown text ends
+      output += text.slice(Math.max(position, shownLength), match.index) + match.mask;
+      position = match.index + match.length;
+    }
+
+    const end = text.length - this.masker.partialMatchLength(text.slice(position));
+    output += text.slice(Math.max(position, shownLength), end);
+    this.shown = text.slice(end, Math.max(end, shownLength));
+    this.pending = text.slice(Math.max(end, shownLength));
+    return output;
+  }
+
+  /**
+   * Show held text after the stream has been quiet for a while, so prompts
+   * are not stuck. Text long enough to give away much of a value stays held.
+   */
+  releaseIdle(): string {
+    if (this.shown.length + this.pending.length >= MIN_MASKED_LENGTH) {
+      return '';
+    }
+    const text = this.pending;
+    this.shown += text;
+    this.pending = '';
+    return text;
+  }
+
+  /**
+   * Release held text when the stream ends. The start of a value that is long
+   * enough to give much of it away is masked.
+   */
+  flush(): string {
+    const held = this.shown + this.pending;
+    const partial = this.masker.partialMatch(held);
+    const text = partial && held.length >= MIN_MASKED_LENGTH ? partial.mask : this.pending;
+    this.shown = '';
+    this.pending = '';
+    return text;
+  }
+
+  get hasPending(): boolean {
+    return this.pending.length > 0;
+  }
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
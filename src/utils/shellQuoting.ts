@@ -0,0 +1,212 @@
+import { ERROR_CODES, ValidationError } from '../errors';
+
+/**
+ * Shells whose syntax for setting environment variables is known. `wsl` is a
+ * Linux shell (bash by default) started from Windows.
+ */
+export type ShellType = 'bash' | 'zsh' | 'sh' | 'fish' | 'nu' | 'pwsh' | 'cmd' | 'wsl';
+
+const SHELL_NAMES: { [name: string]: ShellType } = {
+  bash: 'bash',
+  gitbash: 'bash',
+  zsh: 'zsh',
+  sh: 'sh',
+  dash: 'sh',
+  ksh: 'sh',
+  ash: 'sh',
+  fish: 'fish',
+  nu: 'nu',
+  nushell: 'nu',
+  pwsh: 'pwsh',
+  powershell: 'pwsh',
+  windowspowershell: 'pwsh',
+  cmd: 'cmd',
+  commandprompt: 'cmd',
+  wsl: 'wsl'
+};
+
+const WSL_DISTRIBUTION_NAMES = ['ubuntu', 'debian', 'kali', 'opensuse', 'fedora', 'alpine'];
+
+const ENV_NAME = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/**
+ * The shell a path or name refers to, e.g. `/usr/bin/zsh`, `C:\Windows\System32\wsl.exe`,
+ * `pwsh` or a WSL distribution's terminal name. Undefined when unknown.
+ */
+export function shellTypeFromPath(shellPath: string): ShellType | undefined {
+  const name = shellPath.trim().split(/[\\/]/).pop()!.toLowerCase().replace(/\.exe$/, '').replace(/[\s-]/g, '');
+  if (SHELL_NAMES[name]) {
+    return SHELL_NAMES[name];
+  }
+  if (WSL_DISTRIBUTION_NAMES.some(distribution => name.startsWith(distribution))) {
+    return 'wsl';
+  }
+  return undefined;
+}
+
+/**
+ * A command that sets an environment variable in the shell, with the value
+ * encoded so that nothing in it is expanded or executed
+ * @throws ValidationError when the key is not a portable variable name or the
+ * shell cannot represent the value
+ */
+export function formatEnvAssignment(shell: ShellType, key: string, value: string): string {
+  if (!ENV_NAME.test(key)) {
+    throw new ValidationError('key', `${key} is not a valid environment variable name`, ERROR_CODES.INVALID_SECRET_KEY);
+  }
+
+  switch (shell) {
+    case 'bash':
+    case 'zsh':
+    case 'wsl':
+      return `export ${key}=${quoteBash(value)}`;
+    case 'sh':
+      return `export ${key}=${quotePosix(value)}`;
+    case 'fish':
+      return `set -gx ${key} ${quoteFish(value)}`;
+    case 'nu':
+      return `$env.${key} = ${quoteNu(value)}`;
+    case 'pwsh':
+      return `$env:${key} = ${quotePowerShell(value)}`;
+    case 'cmd':
+      return `set ${key}=${escapeCmd(value)}`;
+  }
+}
+
+/**
+ * A command that prints an environment variable, for the confirmation message
+ */
+export function formatEnvEcho(shell: ShellType, key: string): string {
+  switch (shell) {
+    case 'nu':
+      return `$env.${key}`;
+    case 'pwsh':
+      return `$env:${key}`;
+    case 'cmd':
+      return `echo %${key}%`;
+    default:
+      return `echo $${key}`;
+  }
+}
+
+/**
+ * A command that clears the terminal screen
+ */
+export function clearScreenCommand(shell: ShellType): string {
+  switch (shell) {
+    case 'cmd':
+      return 'cls';
+    case 'pwsh':
+      return 'Clear-Host';
+    default:
+      return 'clear';
+  }
+}
+
+/**
+ * POSIX single quotes: nothing inside is special, a quote is closed, escaped and reopened
+ */
+export function quotePosix(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+/**
+ * Single quotes, or ANSI-C `$'...'` quoting when the value has control
+ * characters so it stays on one line. Quotes and `!` are written as hex escapes
+ * there, since history expansion does not treat `$'` strings as quoted.
+ */
+export function quoteBash(value: string): string {
+  if (!/[\x00-\x1f\x7f]/.test(value)) {
+    return quotePosix(value);
+  }
+  const escaped = value.replace(/[\\'!\x00-\x1f\x7f]/g, char => {
+    switch (char) {
+      case '\\': return '\\\\';
+      case '\n': return '\\n';
+      case '\r': return '\\r';
+      case '\t': return '\\t';
+      default: return `\\x${hex(char)}`;
+    }
+  });
+  return `$'${escaped}'`;
+}
+
+/**
+ * fish single quotes only recognise `\\` and `\'`; control characters are
+ * written as escapes between quoted parts
+ */
+export function quoteFish(value: string): string {
+  let result = '';
+  let quoted = '';
+  const flush = () => {
+    if (quoted) {
+      result += `'${quoted}'`;
+      quoted = '';
+    }
+  };
+  for (const char of value) {
+    if (/[\x00-\x1f\x7f]/.test(char)) {
+      flush();
+      result += char === '\n' ? '\\n' : char === '\r' ? '\\r' : char === '\t' ? '\\t' : `\\x${hex(char)}`;
+    } else {
+      quoted += char === '\\' || char === "'" ? `\\${char}` : char;
+    }
+  }
+  flush();
+  return result || "''";
+}
+
+/**
+ * Nushell double quotes, which interpolate nothing (unlike `$"..."`)
+ */
+export function quoteNu(value: string): string {
+  const escaped = value.replace(/[\\"\x00-\x1f\x7f]/g, char => {
+    switch (char) {
+      case '\\': return '\\\\';
+      case '"': return '\\"';
+      case '\n': return '\\n';
+      case '\r': return '\\r';
+      case '\t': return '\\t';
+      default: return `\\u{${hex(char)}}`;
+    }
+  });
+  return `"${escaped}"`;
+}
+
+/**
+ * PowerShell single quotes, doubling every kind of single quote PowerShell
+ * accepts. Values with control characters use double quotes with backtick
+ * escapes, with `$` and backticks escaped too.
+ */
+export function quotePowerShell(value: string): string {
+  if (!/[\x00-\x1f\x7f]/.test(value)) {
+    return `'${value.replace(/['\u2018\u2019\u201a\u201b]/g, '$&$&')}'`;
+  }
+  const escaped = value.replace(/[`"$\u201c\u201d\u201e\x00-\x1f\x7f]/g, char => {
+    switch (char) {
+      case '\n': return '`n';
+      case '\r': return '`r';
+      case '\t': return '`t';
+      case '\0': return '`0';
+      // `u{} escapes need PowerShell 6; a subexpression also works in Windows PowerShell
+      default: return /[\x00-\x1f\x7f]/.test(char) ? `$([char]0x${hex(char)})` : `\`${char}`;
+    }
+  });
+  return `"${escaped}"`;
+}
+
+/**
+ * cmd has no quoting that stops `%` expansion, so every special character is
+ * escaped with a caret instead; a caret between `%` signs breaks variable references
+ * @throws ValidationError for line breaks, which cmd cannot set
+ */
+export function escapeCmd(value: string): string {
+  if (/[\r\n]/.test(value)) {
+    throw new ValidationError('value', 'cmd cannot set values that contain line breaks', ERROR_CODES.INVALID_SECRET_VALUE);
+  }
+  return value.replace(/[\^&|<>()%!"]/g, '^$&');
+}
+
+function hex(char: string): string {
+  return char.charCodeAt(0).toString(16).padStart(2, '0');
+}
@@ -1,86 +1,56 @@
 import * as vscode from 'vscode';
 import * as os from 'os';
-
-export type TerminalType = 'wsl' | 'cmd' | 'powershell' | 'unix';
-
-const WSL_TERMINAL_NAMES = ['wsl', 'ubuntu', 'debian', 'kali', 'opensuse', 'fedora', 'alpine', 'bash'];
+import { clearScreenCommand, formatEnvAssignment, formatEnvEcho, ShellType, shellTypeFromPath } from './shellQuoting';
 
 /**
- * Detects the type of terminal currently active in VS Code
- * @returns The detected terminal type
+ * Detects the shell of a terminal, the active one by default, from the shell
+ * VS Code detected, the shell it was created with, its name, or the default shell
+ * @returns The detected shell type
  */
-export function detectTerminalType(): TerminalType {
-  const platform = os.platform();
-  
-  if (platform !== 'win32') {
-    return 'unix';
-  }
-  
-  const activeTerminal = vscode.window.activeTerminal;
-  const terminalName = activeTerminal?.name.toLowerCase() || '';
-  
-  if (WSL_TERMINAL_NAMES.some(name => terminalName.includes(name))) {
-    return 'wsl';
-  } else if (terminalName.includes('cmd')) {
-    return 'cmd';
-  } else {
-    return 'powershell'; // Default for Windows
+export function detectShellType(terminal: vscode.Terminal | undefined = vscode.window.activeTerminal): ShellType {
+  const creationOptions = terminal?.creationOptions as vscode.TerminalOptions | undefined;
+  const candidates = [
+    terminal?.state.shell,
+    creationOptions?.shellPath,
+    terminal?.name,
+    // Terminals created without a shell path run the default shell
+    vscode.env.shell
+  ];
+
+  for (const candidate of candidates) {
+    const shell = candidate ? shellTypeFromPath(candidate) : undefined;
+    if (shell) {
+      // A bash terminal on Windows is WSL or Git Bash; both take bash syntax
+      return shell === 'bash' && os.platform() === 'win32' ? 'wsl' : shell;
+    }
   }
+
+  return os.platform() === 'win32' ? 'pwsh' : 'bash';
 }
 
 /**
- * Generates the appropriate environment variable command for the detected terminal
+ * Generates the command that sets an environment variable in a terminal's shell
  * @param key The environment variable name
  * @param value The environment variable value
+ * @param terminal The terminal the command is for; the active terminal by default
  * @returns The formatted command string
  */
-export function getEnvVarCommand(key: string, value: string): string {
-  const terminalType = detectTerminalType();
-  const escapedValue = value.replace(/"/g, '\\"').replace(/'/g, "\\'");
-  
-  switch (terminalType) {
-    case 'wsl':
-    case 'unix':
-      return `export ${key}="${escapedValue}"`;
-    case 'cmd':
-      return `set "${key}=${escapedValue}"`;
-    case 'powershell':
-      return `$env:${key}="${value.replace(/"/g, '`"')}"`;
-  }
+export function getEnvVarCommand(key: string, value: string, terminal?: vscode.Terminal): string {
+  return formatEnvAssignment(detectShellType(terminal), key, value);
 }
 
 /**
  * Gets instructions for checking environment variables in the detected terminal
  * @returns Instructions string for the current terminal type
  */
-export function getEnvCheckInstructions(): string {
-  const terminalType = detectTerminalType();
-  
-  switch (terminalType) {
-    case 'wsl':
-    case 'unix':
-      return 'Check with: echo $VARIABLE_NAME';
-    case 'cmd':
-      return 'Check with: echo %VARIABLE_NAME%';
-    case 'powershell':
-      return 'Check with: $env:VARIABLE_NAME';
-  }
+export function getEnvCheckInstructions(terminal?: vscode.Terminal): string {
+  return `Check with: ${formatEnvEcho(detectShellType(terminal), 'VARIABLE_NAME')}`;
 }
 
 /**
  * Gets the appropriate clear command for the detected terminal
  * @returns The clear command string for the current terminal type
  */
-export function getClearCommand(): string {
-  const terminalType = detectTerminalType();
-  
-  switch (terminalType) {
-    case 'wsl':
-    case 'unix':
-      return 'clear';
-    case 'cmd':
-      return 'cls';
-    case 'powershell':
-      return 'Clear-Host';
-  }
-}
\ No newline at end of file
+export function getClearCommand(terminal?: vscode.Terminal): string {
+  return clearScreenCommand(detectShellType(terminal));
+}
@@ -0,0 +1,88 @@
+import { isScalar, LineCounter, parseAllDocuments, visit } from 'yaml';
+
+/**
+ * Reading and writing YAML for the formats the extension handles: Kubernetes
+ * manifests and configuration files. Parsing is done by the `yaml` package;
+ * this module adapts its results and errors to the importers.
+ */
+
+export type YamlValue = string | number | boolean | null | YamlValue[] | { [key: string]: YamlValue };
+
+export interface YamlParseOptions {
+  /**
+   * Keep plain scalars as written instead of resolving numbers and booleans,
+   * e.g. `1.10` stays `"1.10"`. Empty values, `~` and `null` are still null.
+   */
+  stringScalars?: boolean;
+}
+
+export class YamlSyntaxError extends Error {
+  constructor(public readonly reason: string, public readonly line: number) {
+    super(`${reason} (line ${line})`);
+    this.name = 'YamlSyntaxError';
+  }
+}
+
+const PLAIN_KEY = /^[A-Za-z_][A-Za-z0-9_.-]*$/;
+const RESERVED_SCALARS = /^(true|false|yes|no|on|off|y|n|null|~)$/i;
+
+/**
+ * Parse every document of a YAML stream. Empty documents are left out.
+ * @throws YamlSyntaxError for the first error in the stream
+ */
+export function parseYamlDocuments(text: string, options: YamlParseOptions = {}): YamlValue[] {
+  const lineCounter = new LineCounter();
+  const documents = parseAllDocuments(text, { lineCounter, prettyErrors: false });
+
+  const values: YamlValue[] = [];
+  for (const document of documents) {
+    const error = document.errors[0];
+    if (error) {
+      throw new YamlSyntaxError(error.message, lineCounter.linePos(error.pos[0]).line);
+    }
+    const contents = document.contents;
+    if (contents === null || (isScalar(contents) && contents.value === null && contents.source === '')) {
+      continue;
+    }
+    if (options.stringScalars) {
+      visit(document, {
+        Scalar(_key, node) {
+          if (node.type === 'PLAIN' && node.value !== null && typeof node.source === 'string') {
+            node.value = node.source;
+          }
+        }
+      });
+    }
+    values.push(document.toJS({ maxAliasCount: 100 }) as YamlValue);
+  }
+  return values;
+}
+
+/**
+ * Parse a single-document YAML text; an empty text is null
+ */
+export function parseYaml(text: string, options: YamlParseOptions = {}): YamlValue {
+  const documents = parseYamlDocuments(text, options);
+  if (documents.length > 1) {
+    throw new YamlSyntaxError('Expected a single document', 1);
+  }
+  return documents[0] ?? null;
+}
+
+/**
+ * Double-quoted YAML scalar. JSON string escaping is valid in YAML double quotes.
+ */
+export function formatYamlString(value: string): string {
+  return JSON.stringify(value);
+}
+
+/**
+ * A mapping key, quoted unless it is a plain word that stays a string
+ */
+export function formatYamlKey(key: string): string {
+  return PLAIN_KEY.test(key) && !RESERVED_SCALARS.test(key) ? key : formatYamlString(key);
+}
+
+export function isYamlMapping(value: YamlValue | undefined): value is { [key: string]: YamlValue } {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}